@@ -0,0 +1,18 @@
+// app/api/auth/keys/[id]/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { revokeApiKey } from "../../../../../lib/apikeys";
+import { workspaceOf } from "../../../../../lib/workspace";
+
+// DELETE /api/auth/keys/:id — revokes a key of the caller's workspace
+export async function DELETE(
+  req: NextRequest,
+  ctx: RouteContext<"/api/auth/keys/[id]">
+) {
+  const { id } = await ctx.params;
+  if (!(await revokeApiKey(workspaceOf(req), id))) {
+    return NextResponse.json({ error: "No API key with that id" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
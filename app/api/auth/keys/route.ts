@@ -0,0 +1,56 @@
+// app/api/auth/keys/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { AuthError, parseScopes, principalOf } from "../../../../lib/auth";
+import { createApiKey, listApiKeys } from "../../../../lib/apikeys";
+import { EVERYONE, InvalidAclError, parseGroups } from "../../../../lib/acl";
+import { workspaceOf } from "../../../../lib/workspace";
+
+// GET /api/auth/keys — the API keys of the caller's workspace (never the keys
+// themselves)
+export async function GET(req: Request) {
+  try {
+    const keys = await listApiKeys(workspaceOf(req));
+    return NextResponse.json({ keys }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "API key error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/auth/keys { name, scopes, groups? } — creates a key for the
+// caller's workspace. The response is the only time the key is shown.
+export async function POST(req: Request) {
+  try {
+    const { name, scopes, groups } = (await req.json().catch(() => ({}))) as {
+      name?: unknown;
+      scopes?: unknown;
+      groups?: unknown;
+    };
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+
+    const created = await createApiKey({
+      name: name.trim().slice(0, 100),
+      workspaceId: workspaceOf(req),
+      scopes: parseScopes(
+        Array.isArray(scopes) ? scopes.map(String) : String(scopes ?? "read")
+      ),
+      groups: parseGroups(groups).filter((g) => g !== EVERYONE),
+      createdBy: principalOf(req).id,
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (e: unknown) {
+    if (e instanceof AuthError || e instanceof InvalidAclError) {
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "API key error" },
+      { status: 500 }
+    );
+  }
+}
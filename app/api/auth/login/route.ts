@@ -0,0 +1,45 @@
+// app/api/auth/login/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import {
+  SESSION_COOKIE,
+  cookieOptions,
+  createSession,
+  sessionSeconds,
+} from "../../../../lib/auth";
+import { verifyCredentials } from "../../../../lib/users";
+
+// POST /api/auth/login { username, password } — signs in with a local account
+// and sets the session cookie
+export async function POST(req: Request) {
+  try {
+    const { username, password } = (await req.json().catch(() => ({}))) as {
+      username?: unknown;
+      password?: unknown;
+    };
+    if (typeof username !== "string" || typeof password !== "string" || !username) {
+      return NextResponse.json(
+        { error: "username and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const principal = await verifyCredentials(username.trim().toLowerCase(), password);
+    if (!principal) {
+      return NextResponse.json(
+        { error: "Wrong username or password" },
+        { status: 401 }
+      );
+    }
+
+    const res = NextResponse.json({ user: principal }, { status: 200 });
+    res.cookies.set(SESSION_COOKIE, createSession(principal), cookieOptions(sessionSeconds()));
+    return res;
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Login failed" },
+      { status: 500 }
+    );
+  }
+}
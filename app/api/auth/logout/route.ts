@@ -0,0 +1,10 @@
+// app/api/auth/logout/route.ts
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE, cookieOptions } from "../../../../lib/auth";
+
+// POST /api/auth/logout — clears the session cookie
+export async function POST() {
+  const res = NextResponse.json({ ok: true }, { status: 200 });
+  res.cookies.set(SESSION_COOKIE, "", cookieOptions(0));
+  return res;
+}
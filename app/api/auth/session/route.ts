@@ -0,0 +1,25 @@
+// app/api/auth/session/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { PRINCIPAL_HEADER, principalOf } from "../../../../lib/auth";
+import { getIdentityProvider } from "../../../../lib/oidc";
+
+// GET /api/auth/session — who is signed in (if anyone) and whether SSO is
+// available, for the login page and the account bar
+export async function GET(req: Request) {
+  let sso: string | null = null;
+  try {
+    sso = getIdentityProvider()?.name ?? null;
+  } catch {
+    // Misconfigured SSO: the login page just doesn't offer it
+  }
+
+  if (!req.headers.get(PRINCIPAL_HEADER)) {
+    return NextResponse.json({ authenticated: false, sso }, { status: 200 });
+  }
+  return NextResponse.json(
+    { authenticated: true, user: principalOf(req), sso },
+    { status: 200 }
+  );
+}
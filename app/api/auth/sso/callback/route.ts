@@ -0,0 +1,54 @@
+// app/api/auth/sso/callback/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SESSION_COOKIE,
+  cookieOptions,
+  createSession,
+  sessionSeconds,
+  unsign,
+} from "../../../../../lib/auth";
+import {
+  SSO_COOKIE,
+  callbackUrl,
+  getIdentityProvider,
+} from "../../../../../lib/oidc";
+import type { SsoState } from "../../../../../lib/oidc";
+
+// Back to the login page with a message it shows
+const failed = (req: NextRequest, error: string) => {
+  const url = new URL("/login", req.url);
+  url.searchParams.set("error", error);
+  const res = NextResponse.redirect(url);
+  res.cookies.set(SSO_COOKIE, "", cookieOptions(0));
+  return res;
+};
+
+// GET /api/auth/sso/callback?code&state — where the identity provider sends
+// the browser back; starts a session and continues to where sign-in began
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const sso = unsign<SsoState>(req.cookies.get(SSO_COOKIE)?.value);
+  const code = params.get("code");
+
+  if (params.get("error")) {
+    return failed(req, params.get("error_description") || params.get("error")!);
+  }
+  if (!sso || !code || params.get("state") !== sso.state) {
+    return failed(req, "Sign-in expired or was tampered with; try again");
+  }
+
+  try {
+    const provider = getIdentityProvider();
+    if (!provider) return failed(req, "SSO is not configured");
+    const principal = await provider.exchange(code, sso, callbackUrl(req));
+
+    const res = NextResponse.redirect(new URL(sso.next, req.url));
+    res.cookies.set(SSO_COOKIE, "", cookieOptions(0));
+    res.cookies.set(SESSION_COOKIE, createSession(principal), cookieOptions(sessionSeconds()));
+    return res;
+  } catch (e: unknown) {
+    return failed(req, e instanceof Error ? e.message : "SSO sign-in failed");
+  }
+}
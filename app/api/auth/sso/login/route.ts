@@ -0,0 +1,35 @@
+// app/api/auth/sso/login/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { cookieOptions, sign } from "../../../../../lib/auth";
+import {
+  SSO_COOKIE,
+  SSO_SECONDS,
+  callbackUrl,
+  getIdentityProvider,
+  newSsoState,
+  safeNext,
+} from "../../../../../lib/oidc";
+
+// GET /api/auth/sso/login?next=/path — sends the browser to the identity
+// provider. The state and PKCE verifier wait in a short-lived signed cookie
+// for the callback.
+export async function GET(req: Request) {
+  try {
+    const provider = getIdentityProvider();
+    if (!provider) {
+      return NextResponse.json({ error: "SSO is not configured" }, { status: 404 });
+    }
+
+    const sso = newSsoState(safeNext(new URL(req.url).searchParams.get("next")));
+    const res = NextResponse.redirect(await provider.authorizeUrl(sso, callbackUrl(req)));
+    res.cookies.set(SSO_COOKIE, sign(sso, SSO_SECONDS), cookieOptions(SSO_SECONDS));
+    return res;
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "SSO login failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/auth/users/[username]/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { canManageUsers, principalOf } from "../../../../../lib/auth";
+import { deleteUser } from "../../../../../lib/users";
+
+// DELETE /api/auth/users/:username — deletes a local account. Sessions it
+// already has stay valid until they expire.
+export async function DELETE(
+  req: NextRequest,
+  ctx: RouteContext<"/api/auth/users/[username]">
+) {
+  if (!canManageUsers(principalOf(req))) {
+    return NextResponse.json(
+      { error: "Managing users needs access to every workspace" },
+      { status: 403 }
+    );
+  }
+  const { username } = await ctx.params;
+  if (!(await deleteUser(username))) {
+    return NextResponse.json({ error: "No user with that name" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
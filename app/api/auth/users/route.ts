@@ -0,0 +1,93 @@
+// app/api/auth/users/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import {
+  ALL_WORKSPACES,
+  AuthError,
+  canManageUsers,
+  parseScopes,
+  principalOf,
+} from "../../../../lib/auth";
+import { USERNAME, listUsers, saveUser } from "../../../../lib/users";
+import { EVERYONE, InvalidAclError, parseGroups } from "../../../../lib/acl";
+import {
+  DEFAULT_WORKSPACE,
+  InvalidWorkspaceError,
+  parseWorkspaceId,
+} from "../../../../lib/workspace";
+
+const forbidden = (req: Request) =>
+  canManageUsers(principalOf(req))
+    ? null
+    : NextResponse.json(
+        { error: "Managing users needs access to every workspace" },
+        { status: 403 }
+      );
+
+// GET /api/auth/users — local accounts
+export async function GET(req: Request) {
+  const denied = forbidden(req);
+  if (denied) return denied;
+  try {
+    return NextResponse.json({ users: await listUsers() }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "User error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/auth/users { username, password, scopes, workspaces, groups } —
+// creates a local account, or resets an existing one
+export async function POST(req: Request) {
+  const denied = forbidden(req);
+  if (denied) return denied;
+  try {
+    const body = (await req.json().catch(() => ({}))) as {
+      username?: unknown;
+      password?: unknown;
+      scopes?: unknown;
+      workspaces?: unknown;
+      groups?: unknown;
+    };
+    const username = typeof body.username === "string" ? body.username.trim().toLowerCase() : "";
+    if (!USERNAME.test(username)) {
+      return NextResponse.json(
+        { error: "username must be lowercase letters, digits, '.', '_', '-' or '@'" },
+        { status: 400 }
+      );
+    }
+    if (typeof body.password !== "string" || body.password.length < 8) {
+      return NextResponse.json(
+        { error: "password must be at least 8 characters" },
+        { status: 400 }
+      );
+    }
+
+    const workspaces = (Array.isArray(body.workspaces) ? body.workspaces : [])
+      .map((w) => (w === ALL_WORKSPACES ? w : parseWorkspaceId(String(w))));
+    const user = await saveUser({
+      username,
+      password: body.password,
+      scopes: parseScopes(
+        Array.isArray(body.scopes) ? body.scopes.map(String) : String(body.scopes ?? "read")
+      ),
+      workspaces: workspaces.length ? [...new Set(workspaces)] : [DEFAULT_WORKSPACE],
+      groups: parseGroups(body.groups).filter((g) => g !== EVERYONE),
+    });
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (e: unknown) {
+    const status =
+      e instanceof AuthError ||
+      e instanceof InvalidWorkspaceError ||
+      e instanceof InvalidAclError
+        ? 400
+        : 500;
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "User error" },
+      { status }
+    );
+  }
+}
@@ -1,15 +1,66 @@
 // app/api/chat/route.ts
 
-// Force this route to use Node.js runtime (required for Pinecone vector database operations)
+// Force this route to use Node.js runtime (required for vector database operations)
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import { openai } from "../../../lib/openai"; // OpenAI API client
-import { getPinecone } from "../../../lib/pinecone"; // Pinecone vector database client
+import { getChatProvider } from "../../../lib/providers"; // Chat models
+import type { ChatResult, TokenUsage } from "../../../lib/providers";
+import {
+  MAX_NEIGHBOURS,
+  RETRIEVAL_MODES,
+  defaultNeighbours,
+  expandNeighbours,
+  retrieve,
+} from "../../../lib/retrieve"; // Vector + keyword search
+import type { RetrievalMode } from "../../../lib/retrieve";
+import {
+  RERANKERS,
+  defaultReranker,
+  getReranker,
+  rerankCandidates,
+} from "../../../lib/rerank"; // Optional second-pass scoring
+import type { RerankerName } from "../../../lib/rerank";
+import { packPassages, toPassages } from "../../../lib/context"; // Context assembly
+import { workspaceOf } from "../../../lib/workspace"; // Caller's workspace
+import { principalOf, principalToken } from "../../../lib/auth"; // Authenticated caller
+import { readerTokensOf } from "../../../lib/acl"; // Document ACLs
+import {
+  QuotaExceededError,
+  assertChatQuota,
+  quotaHeaders,
+  recordChatTokens,
+} from "../../../lib/quota"; // Daily chat token quota
+import { recordUsage } from "../../../lib/usage"; // Token and cost accounting
+import {
+  contextBudget,
+  countMessageTokens,
+  countTokens,
+} from "../../../lib/tokens"; // Tokenizer + model budgets
 
 // Define the structure of conversation history messages
 type HistoryMsg = { role: "user" | "assistant"; content: string };
 
+// History comes from the client: only user and assistant turns with text go
+// to the model (a "system" turn would override the prompt). Null if any
+// entry is something else.
+function parseHistory(raw: unknown): HistoryMsg[] | null {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) return null;
+  const turns: HistoryMsg[] = [];
+  for (const m of raw) {
+    if (
+      !m ||
+      (m.role !== "user" && m.role !== "assistant") ||
+      typeof m.content !== "string"
+    ) {
+      return null;
+    }
+    turns.push({ role: m.role, content: m.content });
+  }
+  return turns;
+}
+
 // Define the expected request body structure
 type Body = {
   question: string; // User's query (required)
@@ -17,6 +68,36 @@ type Body = {
   documentIds?: string[]; // Filter by specific documents (optional)
   fileTypes?: string[]; // Filter by file types (optional)
   history?: HistoryMsg[]; // Conversation history for context (optional)
+  stream?: boolean; // Answer as Server-Sent Events (optional)
+  mode?: RetrievalMode; // vector | keyword | hybrid (optional, default hybrid)
+  alpha?: number; // Vector weight in hybrid mode, 0..1 (optional)
+  rerank?: RerankerName; // none | llm | lexical (optional, default RERANKER)
+  neighbours?: number; // Chunks to add on each side of every hit, 0-3 (optional)
+};
+
+const NO_INFO =
+  "I don't have enough information in the uploaded documents to answer that.";
+
+type Source = {
+  idx: number; // Citation number, [idx] in the answer
+  documentId: string;
+  filename: string;
+  chunkIndex: number; // First chunk of the passage
+  chunkIndexes: number[]; // Every chunk merged into the passage
+  pageStart?: number; // PDF pages the passage spans, when known
+  pageEnd?: number;
+  snippet: string; // Contextual snippet for display
+  score: number; // Retrieval score (see RetrievedChunk.score)
+  rerankScore?: number; // Reranker score (0-1), when reranking ran
+};
+
+// How the prompt's tokens were spent (counted with the chat model's tokenizer)
+type TokenReport = {
+  budget: number; // tokens available for context
+  context: number; // retrieved excerpts
+  history: number; // earlier conversation turns
+  question: number; // the question itself
+  prompt: number; // everything sent, including system prompt and instructions
 };
 
 /**
@@ -76,66 +157,86 @@ function makeSnippet(text: string, query: string, radius = 220) {
 }
 
 /**
- * Packages search results into a formatted context for the AI
- * This is a critical RAG step that prepares retrieved information for the LLM
+ * Streams an answer as Server-Sent Events:
  *
- * @param matches - Search results from the vector database
- * @param question - The original user question
- * @param charBudget - Maximum characters for the context (to fit in model's context window)
- * @returns Formatted context and source information for citations
+ *   event: sources  data: { sources, tokens }         (once, first)
+ *   event: delta    data: { content }                 (one per token chunk)
+ *   event: done     data: { finishReason, usage }     (once, last)
+ *   event: error    data: { error }                   (instead of done)
+ *
+ * If the client disconnects (the Stop button aborts the fetch) the model call
+ * is aborted too and the stream ends without a done event.
  */
-function packContext(matches: any[], question: string, charBudget = 2400) {
-  const sources: Array<{
-    idx: number; // Source index for citation [1], [2], etc.
-    documentId: string; // ID of the source document
-    filename: string; // Name of the source file
-    chunkIndex: number; // Which chunk of the document
-    snippet: string; // Contextual snippet showing relevant text
-    score: number; // Similarity score (0-1)
-  }> = [];
-
-  let ctx = ""; // The formatted context that will be sent to the AI
-  let idx = 1; // Counter for source citations
-
-  // Process each search result
-  for (const m of matches) {
-    const content = (m.metadata?.content as string) || "";
-    if (!content) continue;
-
-    // Create a contextual snippet centered around the query
-    const snippet = makeSnippet(content, question);
-    const line = `[${idx}] ${m.metadata?.filename} (chunk ${m.metadata?.chunkIndex}): ${snippet}\n\n`;
-
-    // Stop if we're about to exceed the character budget
-    if (ctx.length + line.length > charBudget) break;
-
-    // Add to sources and context
-    sources.push({
-      idx,
-      documentId: m.metadata?.documentId,
-      filename: m.metadata?.filename,
-      chunkIndex: m.metadata?.chunkIndex,
-      snippet,
-      score: m.score ?? 0,
-    });
-    ctx += line;
-    idx++;
-  }
-
-  return { sources, context: ctx.trim() };
+function streamAnswer(
+  req: Request,
+  head: { sources: Source[]; tokens?: TokenReport },
+  generate: (
+    onDelta: (text: string) => void,
+    signal: AbortSignal
+  ) => Promise<ChatResult>
+) {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  req.signal.addEventListener("abort", () => abort.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return; // stream already cancelled
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      send("sources", head);
+      try {
+        const result = await generate(
+          (content) => send("delta", { content }),
+          abort.signal
+        );
+        send("done", { finishReason: result.finishReason, usage: result.usage });
+      } catch (e: unknown) {
+        if (!abort.signal.aborted) {
+          send("error", {
+            error: e instanceof Error ? e.message : "chat stream error",
+          });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // already closed by cancel()
+        }
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // don't let nginx buffer the stream
+    },
+  });
 }
 
 /**
  * RAG (Retrieval Augmented Generation) Chat API Endpoint
  *
  * This endpoint implements the core RAG pattern:
- * 1. Convert question to vector embedding
- * 2. Retrieve relevant document chunks from vector database
+ * 1-2. Retrieve relevant document chunks (vector, keyword or hybrid search)
  * 3. Package context for the AI
  * 4. Generate answer based on retrieved context
  *
  * RAG enhances AI responses by grounding them in your specific documents
  * rather than relying solely on the model's training data
+ *
+ * Returns JSON by default; with `stream: true` (or Accept: text/event-stream)
+ * the answer is streamed as Server-Sent Events, see streamAnswer().
  */
 export async function POST(req: Request) {
   try {
@@ -148,100 +249,224 @@ export async function POST(req: Request) {
         { status: 400 }
       );
     }
+    const turns = parseHistory(body.history);
+    if (!turns) {
+      return NextResponse.json(
+        { error: 'history must be a list of { role: "user" | "assistant", content: string }' },
+        { status: 400 }
+      );
+    }
+
+    // QUOTA: refuse before retrieving once today's chat tokens are used up
+    const principal = principalOf(req);
+    await assertChatQuota(principal);
 
     // Set parameters with defaults
     const k = body?.k ?? 5; // Number of results to retrieve
-    const { documentIds, fileTypes } = body;
-
-    // 1) EMBED THE QUESTION: Convert text to numerical vector
-    // Embeddings capture semantic meaning in a format computers can compare
-    const emb = await openai.embeddings.create({
-      model: "text-embedding-3-small", // OpenAI's efficient embedding model
-      input: question,
-    });
-    const vector = emb.data[0].embedding; // 1536-dimensional vector representing the question
-
-    // 2) QUERY VECTOR DATABASE: Find similar content in your documents
-    const { index } = getPinecone();
-
-    // Build optional filters to narrow search to specific documents or file types
-    let filter: Record<string, any> | undefined;
-    if (
-      (documentIds && documentIds.length) ||
-      (fileTypes && fileTypes.length)
-    ) {
-      filter = {};
-      if (documentIds?.length) filter.documentId = { $in: documentIds };
-      if (fileTypes?.length) filter.fileType = { $in: fileTypes };
+    const { documentIds, fileTypes, mode, alpha } = body;
+    if (mode && !RETRIEVAL_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of ${RETRIEVAL_MODES.join(", ")}` },
+        { status: 400 }
+      );
     }
+    const rerank = body.rerank ?? defaultReranker();
+    if (!RERANKERS.includes(rerank)) {
+      return NextResponse.json(
+        { error: `rerank must be one of ${RERANKERS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const reranker = getReranker(rerank);
+    const neighbours = Math.min(
+      MAX_NEIGHBOURS,
+      Math.max(0, Math.floor(body.neighbours ?? defaultNeighbours()))
+    );
+    const wantsStream =
+      body.stream === true ||
+      !!req.headers.get("accept")?.includes("text/event-stream");
+
+    // 1-2) RETRIEVE: embed the question and/or match its exact terms, then
+    // fuse both rankings (see lib/retrieve.ts). The configured
+    // EMBEDDING_PROVIDER must match the one used at indexing time
+    // With a reranker, over-fetch a wider candidate set for it to choose from
+    const workspaceId = workspaceOf(req);
+    const retrieved = await retrieve({
+      workspaceId, // only the caller's workspace is searched
+      query: question,
+      topK: reranker
+        ? Math.max(k, rerankCandidates())
+        : Math.max(k, 8), // Retrieve slightly more than requested to allow for filtering
+      documentIds, // Optional filters
+      fileTypes,
+      // Chunks of documents the caller may not read are filtered out in the
+      // vector store, so they never reach the prompt
+      readers: readerTokensOf(principal),
+      caller: principalToken(principal), // the question's embedding is billed to them
+      mode,
+      alpha,
+    });
 
-    // Search for similar vectors in the database
-    const res = await index.query({
-      vector, // The embedding of our question
-      topK: Math.max(k, 8), // Retrieve slightly more than requested to allow for filtering
-      includeMetadata: true, // Return the associated document text and metadata
-      filter, // Optional filters
-    } as any);
-
-    const matches = Array.isArray(res.matches) ? res.matches : [];
-
-    // Quality check: if no good matches found, return early
-    const best = matches[0]?.score ?? 0; // Similarity score (0 = no similarity, 1 = identical)
-    if (!matches.length || best < 0.15) {
+    // Quality check: keep keyword hits and reasonably similar vector hits
+    // (cosine 0 = no similarity, 1 = identical); answer early if none are left
+    const relevant = retrieved.filter(
+      (m) => (m.keywordScore ?? 0) > 0 || (m.vectorScore ?? 0) >= 0.15
+    );
+    if (!relevant.length) {
+      if (wantsStream) {
+        return streamAnswer(req, { sources: [] }, async (onDelta) => {
+          onDelta(NO_INFO);
+          return {
+            content: NO_INFO,
+            finishReason: "no_context",
+            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          };
+        });
+      }
       return NextResponse.json({
-        answer:
-          "I don't have enough information in the uploaded documents to answer that.",
+        answer: NO_INFO,
         sources: [],
       });
     }
 
-    // 3) BUILD CONTEXT: Format retrieved information for the AI
-    const { sources, context } = packContext(matches, question, 2400);
-
-    // 4) PREPARE MESSAGES FOR AI: System prompt + history + context
+    // 2b) RERANK (optional): score the candidates against the question and
+    // keep only the best k, so weak high-similarity chunks can't crowd out
+    // the one that answers it
+    const matches = reranker
+      ? await reranker.rerank(question, relevant, k, {
+          signal: req.signal,
+          bill: { workspaceId, principal: principalToken(principal) },
+          quota: principal,
+        })
+      : relevant;
+
+    // 2c) EXPAND (optional): pull in the chunks around each hit so the model
+    // reads them in context; runs of chunks become one cited passage
+    const expanded = await expandNeighbours(workspaceId, matches, neighbours);
+
+    // 3) PREPARE THE PROMPT AROUND THE CONTEXT: System prompt + history + question
+    const provider = getChatProvider();
+    const model = provider.model;
     const system = [
       "You are a helpful assistant that answers ONLY from the provided context.",
       'If the answer is not in the context, say: "I don\'t have enough information in the uploaded documents to answer that."',
       "Keep answers concise. Include inline citations like [1], [2] that refer to the sources list.",
     ].join(" ");
 
-    const user = [
-      `Question:\n${question}\n`,
-      `Context (excerpts):\n${context || "(no context)"}`,
-      "\nInstructions:",
-      "- Answer using only the context excerpts above.",
-      "- When a sentence comes from an excerpt, add [n] with the correct number.",
-      "- If the context is insufficient, say so plainly.",
-    ].join("\n");
+    const userPrompt = (context: string) =>
+      [
+        `Question:\n${question}\n`,
+        `Context (excerpts):\n${context || "(no context)"}`,
+        "\nInstructions:",
+        "- Answer using only the context excerpts above.",
+        "- When a sentence comes from an excerpt, add [n] with the correct number.",
+        "- If the context is insufficient, say so plainly.",
+      ].join("\n");
+
+    // Recent conversation history (last 4 messages), dropping the oldest
+    // turns while they leave no room for context in the model's window
+    const history = turns.slice(-4);
+    const promptTokens = () =>
+      countMessageTokens(
+        [{ content: system }, ...history, { content: userPrompt("") }],
+        model
+      );
+    while (history.length && contextBudget(model, promptTokens()) === 0) {
+      history.shift();
+    }
+
+    // 4) BUILD CONTEXT: whole chunks (neighbours merged, overlap removed),
+    // best first, within the model's token budget
+    const budget = contextBudget(model, promptTokens());
+    const { packed, context, tokens: contextTokens } = packPassages(
+      toPassages(expanded),
+      budget,
+      model
+    );
+    const citations: Source[] = packed.map((p) => ({
+      idx: p.idx,
+      documentId: p.documentId,
+      filename: p.filename,
+      chunkIndex: p.chunkIndexes[0],
+      chunkIndexes: p.chunkIndexes,
+      pageStart: p.pageStart,
+      pageEnd: p.pageEnd,
+      snippet: makeSnippet(p.text, question),
+      score: p.score,
+      rerankScore: p.rerankScore,
+    }));
 
-    // Build message history (last 4 messages for context)
     const messages = [
       { role: "system" as const, content: system }, // System instructions
-      ...(body.history?.slice(-4) || []), // Recent conversation history
-      { role: "user" as const, content: user }, // Current question with context
+      ...history, // Recent conversation history
+      { role: "user" as const, content: userPrompt(context) }, // Current question with context
     ];
+    const tokens: TokenReport = {
+      budget,
+      context: contextTokens,
+      history: history.length ? countMessageTokens(history, model) - 3 : 0,
+      question: countTokens(question, model),
+      prompt: countMessageTokens(messages, model),
+    };
 
     // 5) CALL AI MODEL: Generate answer based on retrieved context
-    const chat = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // Efficient yet capable model
-      temperature: 0.2, // Low temperature for more focused, deterministic responses
-      messages, // The prepared message history
-    });
+    // Low temperature for more focused, deterministic responses
+    // Tokens count against the caller's daily quota and are costed in the
+    // usage rollups; servers that report no usage, and answers cut off by the
+    // client, count the prompt
+    const account = async (usage?: TokenUsage) => {
+      const spent = usage?.totalTokens
+        ? usage
+        : { promptTokens: tokens.prompt, completionTokens: 0, totalTokens: tokens.prompt };
+      await recordChatTokens(principal, spent.totalTokens);
+      return recordUsage({
+        kind: "chat",
+        model,
+        usage: spent,
+        workspaceId,
+        principal: principalToken(principal),
+      });
+    };
+    if (wantsStream) {
+      return streamAnswer(req, { sources: citations, tokens }, (onDelta, signal) =>
+        provider
+          .stream(messages, onDelta, { temperature: 0.2, signal })
+          .then(
+            async (result) => {
+              await account(result.usage);
+              return result;
+            },
+            async (e: unknown) => {
+              await account();
+              throw e;
+            }
+          )
+      );
+    }
 
-    const answer = chat.choices?.[0]?.message?.content || "";
+    const chat = await provider.complete(messages, {
+      temperature: 0.2,
+      signal: req.signal,
+    });
+    const cost = await account(chat.usage);
 
     // Return the AI's answer with source information for verification
     return NextResponse.json({
-      answer,
-      sources: sources.map((s) => ({
-        documentId: s.documentId,
-        filename: s.filename,
-        chunkIndex: s.chunkIndex,
-        snippet: s.snippet,
-        score: s.score,
-      })),
+      answer: chat.content,
+      sources: citations,
+      tokens,
+      finishReason: chat.finishReason,
+      usage: chat.usage,
+      cost, // USD, priced by lib/usage.ts
     });
   } catch (e: any) {
+    // Out of chat tokens for today: retry once the quota resets
+    if (e instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: e.message, quota: e.quota },
+        { status: 429, headers: quotaHeaders(e) }
+      );
+    }
     // Handle any unexpected errors
     return NextResponse.json(
       { error: e?.message || "chat route error" },
@@ -0,0 +1,122 @@
+// app/api/documents/[id]/file/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getStore } from "../../../../../lib/store";
+import { workspaceOf } from "../../../../../lib/workspace";
+import { principalOf } from "../../../../../lib/auth";
+import { canRead } from "../../../../../lib/acl";
+import { getBlobStore } from "../../../../../lib/blobs";
+import type { ByteRange } from "../../../../../lib/blobs";
+
+/**
+ * Parses a single-range "bytes=" header against a file of `size` bytes.
+ * Returns null for no/unsupported Range (serve the whole file) and "invalid"
+ * for a range that can't be satisfied.
+ */
+function parseRange(
+  header: string | null,
+  size: number
+): ByteRange | "invalid" | null {
+  if (!header) return null;
+  const m = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!m) return null; // multi-range or other units: fall back to 200
+
+  const [, from, to] = m;
+  if (!from && !to) return "invalid";
+
+  let start: number;
+  let end: number;
+  if (!from) {
+    // suffix range: last N bytes
+    start = Math.max(0, size - Number(to));
+    end = size - 1;
+  } else {
+    start = Number(from);
+    end = to ? Math.min(Number(to), size - 1) : size - 1;
+  }
+  if (start > end || start >= size) return "invalid";
+  return { start, end };
+}
+
+// RFC 6266 / 5987: plain ASCII fallback plus the UTF-8 name
+function contentDisposition(type: "inline" | "attachment", filename: string) {
+  const ascii = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// GET /api/documents/:id/file — the original upload. Inline by default for
+// previews; ?download=1 forces a download. Supports single byte ranges.
+export async function GET(
+  req: NextRequest,
+  ctx: RouteContext<"/api/documents/[id]/file">
+) {
+  const { id } = await ctx.params;
+
+  // Documents the caller may not read are "not found" too
+  const doc = await getStore(workspaceOf(req)).get(id);
+  if (!doc || !canRead(principalOf(req), doc)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!doc.blobKey) {
+    return NextResponse.json(
+      { error: "Original file was not retained for this document" },
+      { status: 404 }
+    );
+  }
+
+  const blobs = getBlobStore();
+  const head = await blobs.head(doc.blobKey);
+  if (!head) {
+    return NextResponse.json(
+      { error: "Original file is missing from storage" },
+      { status: 404 }
+    );
+  }
+
+  const download = req.nextUrl.searchParams.get("download") === "1";
+  const headers = new Headers({
+    "Content-Type": doc.fileType || "application/octet-stream",
+    "Content-Disposition": contentDisposition(
+      download ? "attachment" : "inline",
+      doc.filename
+    ),
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, max-age=0, must-revalidate",
+    "X-Content-Type-Options": "nosniff",
+  });
+  // Uploaded SVG/HTML must not run script on our origin. PDFs are exempt
+  // because browsers refuse to render them in a sandboxed document.
+  if (doc.fileType !== "application/pdf") {
+    headers.set(
+      "Content-Security-Policy",
+      "default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; sandbox"
+    );
+  }
+  if (doc.contentHash) headers.set("ETag", `"${doc.contentHash}"`);
+
+  if (doc.contentHash && req.headers.get("if-none-match") === `"${doc.contentHash}"`) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const range = parseRange(req.headers.get("range"), head.size);
+  if (range === "invalid") {
+    headers.set("Content-Range", `bytes */${head.size}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  const body = await blobs.get(doc.blobKey, range ?? undefined);
+  if (!body) {
+    return NextResponse.json(
+      { error: "Original file is missing from storage" },
+      { status: 404 }
+    );
+  }
+
+  headers.set("Content-Length", String(body.length));
+  if (range) {
+    headers.set("Content-Range", `bytes ${range.start}-${range.end}/${head.size}`);
+    return new Response(new Uint8Array(body), { status: 206, headers });
+  }
+  return new Response(new Uint8Array(body), { status: 200, headers });
+}
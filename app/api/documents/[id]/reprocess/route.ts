@@ -0,0 +1,45 @@
+// app/api/documents/[id]/reprocess/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse, after } from "next/server";
+import { getStore } from "../../../../../lib/store";
+import { workspaceOf } from "../../../../../lib/workspace";
+import { principalOf } from "../../../../../lib/auth";
+import { canRead } from "../../../../../lib/acl";
+import { planReprocess, queueReprocess } from "../../../../../lib/pipeline";
+import { drainQueue } from "../../../../../lib/worker";
+
+type Body = {
+  reextract?: boolean; // re-run extraction from the retained original first
+};
+
+// POST /api/documents/:id/reprocess
+// Rebuilds a document's chunks and vectors under the same id. The new vectors
+// are all embedded before any are written, so a failed run leaves the old
+// ones in place.
+export async function POST(
+  req: NextRequest,
+  ctx: RouteContext<"/api/documents/[id]/reprocess">
+) {
+  const { id } = await ctx.params;
+  const body = (await req.json().catch(() => ({}))) as Body;
+
+  // Documents the caller may not read are "not found" too
+  const doc = await getStore(workspaceOf(req)).get(id);
+  if (!doc || !canRead(principalOf(req), doc)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const plan = await planReprocess(doc, { reextract: body.reextract });
+  if (!plan.job) {
+    return NextResponse.json({ error: plan.reason }, { status: 409 });
+  }
+
+  const job = await queueReprocess(doc, plan.job);
+  if (process.env.JOB_WORKER !== "external") {
+    after(() =>
+      drainQueue().catch((e) => console.error("❌ Job drain failed:", e))
+    );
+  }
+  return NextResponse.json({ id, job }, { status: 202 });
+}
@@ -2,18 +2,38 @@
 export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
-import { store } from "../../../../lib/store";
+import { getStore } from "../../../../lib/store";
+import { workspaceOf } from "../../../../lib/workspace";
+import { removeDocument } from "../../../../lib/pipeline";
+import { principalOf } from "../../../../lib/auth";
+import {
+  InvalidAclError,
+  aclOf,
+  applyAclToVectors,
+  canManage,
+  canRead,
+  parseGroups,
+  parseOwner,
+} from "../../../../lib/acl";
 
 type Params = { params: { id: string } };
 
+// The document, if it is in the caller's workspace and they may read it.
+// Documents of other workspaces, or ones the caller may not read, are
+// "not found", never "forbidden"
+async function readable(req: NextRequest, id: string) {
+  const doc = await getStore(workspaceOf(req)).get(id);
+  return doc && canRead(principalOf(req), doc) ? doc : undefined;
+}
+
 // GET /api/documents/:id
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   ctx: RouteContext<"/api/documents/[id]">
 ) {
   const { id } = await ctx.params;
 
-  const doc = await store.get(id);
+  const doc = await readable(req, id);
   if (!doc) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
@@ -21,17 +41,89 @@ export async function GET(
   return NextResponse.json(rest, { status: 200 });
 }
 
+// PATCH /api/documents/:id { groups?, owner? } — changes who may read the
+// document (owner or admin only). The new ACL is written onto the document's
+// vectors straight away, without re-embedding.
+export async function PATCH(
+  req: NextRequest,
+  ctx: RouteContext<"/api/documents/[id]">
+) {
+  const { id } = await ctx.params;
+
+  const doc = await readable(req, id);
+  if (!doc) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!canManage(principalOf(req), doc)) {
+    return NextResponse.json(
+      { error: "Only the document's owner or an admin can change its access" },
+      { status: 403 }
+    );
+  }
+
+  const body = (await req.json().catch(() => ({}))) as {
+    groups?: unknown;
+    owner?: unknown;
+  };
+  if (body.groups === undefined && body.owner === undefined) {
+    return NextResponse.json(
+      { error: "Nothing to change (pass groups and/or owner)" },
+      { status: 400 }
+    );
+  }
+
+  const acl = aclOf(doc);
+  try {
+    if (body.groups !== undefined) acl.groups = parseGroups(body.groups);
+    if (body.owner !== undefined) acl.owner = parseOwner(body.owner);
+  } catch (e: unknown) {
+    if (e instanceof InvalidAclError) {
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+    throw e;
+  }
+
+  const updated = await getStore(doc.workspaceId).update(id, { acl });
+  if (!updated) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  // Vectors that kept the old ACL are reported, like a partial delete; PATCH
+  // again with the same ACL to retry them
+  const vectors = await applyAclToVectors(updated);
+  return NextResponse.json(
+    { ...updated, extractedContent: undefined, vectors }, // hide large text payload
+    { status: vectors.failures.length ? 207 : 200 }
+  );
+}
+
 // DELETE /api/documents/:id
 export async function DELETE(
-  _req: NextRequest,
+  req: NextRequest,
   ctx: RouteContext<"/api/documents/[id]">
 ) {
   const { id } = await ctx.params;
 
-  const doc = await store.get(id);
+  const doc = await readable(req, id);
   if (!doc) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
   }
-  await store.delete(id); // ← store is async now
+  if (!canManage(principalOf(req), doc)) {
+    return NextResponse.json(
+      { error: "Only the document's owner or an admin can delete it" },
+      { status: 403 }
+    );
+  }
+
+  // Vectors, record and stored original. Vector batches that failed to
+  // delete are reported back and can be cleaned up via /api/vectors/reconcile.
+  const vectors = await removeDocument(doc);
+
+  if (vectors.failures.length) {
+    return NextResponse.json(
+      { id, deleted: true, vectors },
+      { status: 207 } // Multi-Status: record gone, some vectors remain
+    );
+  }
   return new Response(null, { status: 204 });
 }
@@ -0,0 +1,61 @@
+// app/api/documents/reprocess/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse, after } from "next/server";
+import { getStore } from "../../../../lib/store";
+import { workspaceOf } from "../../../../lib/workspace";
+import { planReprocess, queueReprocess } from "../../../../lib/pipeline";
+import { drainQueue } from "../../../../lib/worker";
+import type { ProcessingStatus } from "../../../../lib/types";
+
+type Body = {
+  all?: boolean; // required, to make "reindex everything" explicit
+  statuses?: ProcessingStatus[]; // only documents in these states (default: completed + error)
+  reextract?: boolean;
+};
+
+// POST /api/documents/reprocess — bulk "reindex all" of the caller's
+// workspace, e.g. after changing chunking or embedding settings. Queues one job per document; the worker
+// works through them in the background.
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Body;
+    if (!body.all) {
+      return NextResponse.json(
+        { error: 'Pass { "all": true } to reprocess every document' },
+        { status: 400 }
+      );
+    }
+
+    const statuses = new Set<ProcessingStatus>(
+      body.statuses?.length ? body.statuses : ["completed", "error"]
+    );
+    const docs = (await getStore(workspaceOf(req)).list()).filter((d) =>
+      statuses.has(d.processingStatus)
+    );
+
+    const queued: Array<{ id: string; job: string }> = [];
+    const skipped: Array<{ id: string; reason: string }> = [];
+    for (const doc of docs) {
+      const plan = await planReprocess(doc, { reextract: body.reextract });
+      if (!plan.job) {
+        skipped.push({ id: doc.id, reason: plan.reason });
+        continue;
+      }
+      const job = await queueReprocess(doc, plan.job);
+      queued.push({ id: doc.id, job: job.type });
+    }
+
+    if (queued.length && process.env.JOB_WORKER !== "external") {
+      after(() =>
+        drainQueue().catch((e) => console.error("❌ Job drain failed:", e))
+      );
+    }
+    return NextResponse.json({ queued, skipped }, { status: 202 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "reprocess error" },
+      { status: 500 }
+    );
+  }
+}
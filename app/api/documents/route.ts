@@ -1,9 +1,17 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import { store } from "../../../lib/store";
+import { getStore } from "../../../lib/store";
+import { workspaceOf } from "../../../lib/workspace";
+import { principalOf } from "../../../lib/auth";
+import { canRead } from "../../../lib/acl";
 
-export async function GET() {
-  const documents = await store.list();
+// GET /api/documents — the documents of the caller's workspace that they may
+// read
+export async function GET(req: Request) {
+  const principal = principalOf(req);
+  const documents = (await getStore(workspaceOf(req)).list()).filter((d) =>
+    canRead(principal, d)
+  );
   return NextResponse.json({ documents }, { status: 200 });
 }
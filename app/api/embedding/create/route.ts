@@ -5,10 +5,12 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import { store } from "../../../../lib/store"; // In-memory or persistent document store
-import { chunkText } from "../../../../chunk"; // Text chunking utility
-import { openai } from "../../../../lib/openai"; // OpenAI client configuration
-import { getPinecone } from "../../../../lib/pinecone"; // Pinecone vector database client
+import { getStore } from "../../../../lib/store"; // In-memory or persistent document store
+import { workspaceOf } from "../../../../lib/workspace"; // Caller's workspace
+import { hasScope, principalOf } from "../../../../lib/auth"; // Caller's scopes
+import { canRead } from "../../../../lib/acl"; // Document ACLs
+import { QuotaExceededError, quotaHeaders } from "../../../../lib/quota"; // Monthly token quota
+import { embedDocument } from "../../../../lib/pipeline"; // Chunk → embed → upsert
 import type { DocumentRecord } from "../../../../lib/types"; // Type definitions
 
 // Define the expected request body structure
@@ -23,8 +25,8 @@ type ReqBody = {
  * This endpoint:
  * 1. Accepts documents either by specific ID or finds all documents ready for embedding
  * 2. Chunks the document text into manageable pieces
- * 3. Creates embeddings for each chunk using OpenAI's API
- * 4. Stores the embeddings in Pinecone vector database
+ * 3. Creates embeddings for each chunk using the configured embedding provider
+ * 4. Stores the embeddings in the vector store (Pinecone or local)
  * 5. Updates document status in the store
  *
  * Embeddings are numerical representations of text that capture semantic meaning,
@@ -36,14 +38,25 @@ export async function POST(req: Request) {
     const body = (await req.json().catch(() => ({}))) as ReqBody;
     const { documentId, batchSize = 64 } = body; // Default to 64 chunks per batch
 
+    // Only documents of the caller's workspace can be embedded
+    const store = getStore(workspaceOf(req));
+
     // Determine which documents to process:
     // - If documentId provided: process only that document
     // - Otherwise: process all documents with 'embedding' status
     let targets: DocumentRecord[] = [];
     if (documentId) {
       const one = await store.get(documentId);
-      if (one) targets = [one];
+      if (one && canRead(principalOf(req), one)) targets = [one];
     } else {
+      // Embedding everything that's waiting is an admin operation; middleware
+      // only checked for "write"
+      if (!hasScope(principalOf(req), "admin")) {
+        return NextResponse.json(
+          { error: 'Embedding all waiting documents needs the "admin" scope' },
+          { status: 403 }
+        );
+      }
       const all = await store.list();
       targets = all.filter((d) => d.processingStatus === "embedding");
     }
@@ -69,9 +82,6 @@ export async function POST(req: Request) {
       );
     }
 
-    // Initialize Pinecone index connection
-    const { index } = getPinecone();
-
     // Track processing results
     const processed: Array<{ id: string; chunks: number }> = []; // Successfully processed docs
     const failures: Array<{ id: string; reason: string }> = []; // Failed documents with reasons
@@ -79,77 +89,28 @@ export async function POST(req: Request) {
     // Process each document sequentially
     for (const doc of targets) {
       try {
-        // Validate document has extractable content
-        if (!doc.extractedContent?.trim()) {
-          throw new Error("Document has no extractedContent");
-        }
-
-        // 1) CHUNKING PHASE: Split content into manageable pieces
-        // - 1000 tokens target per chunk (~4000 characters)
-        // - 100 token overlap between chunks maintains context continuity
-        const chunks = chunkText(doc.extractedContent, 1000, 100);
-        if (!chunks.length) {
-          throw new Error("No chunks produced");
-        }
-
-        // 2) EMBEDDING PHASE: Convert text chunks to vector embeddings
-        const vectors: Array<{
-          id: string; // Unique identifier for this vector
-          values: number[]; // The actual embedding vector (1536 dimensions for text-embedding-3-small)
-          metadata: Record<string, any>; // Contextual information for retrieval
-        }> = [];
-
-        // Process chunks in batches to optimize API calls and avoid rate limiting
-        for (let i = 0; i < chunks.length; i += batchSize) {
-          // Get next batch of chunks
-          const batch = chunks.slice(i, i + batchSize);
+        // Chunk the content, embed the chunks, store the vectors and mark the
+        // document completed (see lib/pipeline.ts)
+        const { chunks } = await embedDocument(doc, { batchSize });
 
-          // Extract just the text content for embedding
-          const input = batch.map((b) => b.content);
-
-          // Call OpenAI Embeddings API to convert text to vectors
-          const resp = await openai.embeddings.create({
-            model: "text-embedding-3-small", // Cost-effective embedding model
-            input, // Array of text strings to embed
-          });
-
-          // Map embeddings response to vector objects with metadata
-          resp.data.forEach((e, j) => {
-            const chunk = batch[j];
-            vectors.push({
-              // Create unique ID combining document ID and chunk index
-              id: `${doc.id}-${chunk.chunkIndex}`,
-              values: e.embedding, // The numerical vector representation
-              metadata: {
-                documentId: doc.id, // Reference back to source document
-                filename: doc.filename, // Original filename
-                fileType: doc.fileType, // PDF, DOCX, etc.
-                uploadDate: doc.uploadDate, // When document was uploaded
-                chunkIndex: chunk.chunkIndex, // Position in original document
-                content: chunk.content, // Original text for display/highlighting
-              },
-            });
-          });
+        // Record successful processing
+        processed.push({ id: doc.id, chunks });
+      } catch (e: unknown) {
+        // Out of embedding tokens: the rest would fail the same way. The
+        // document keeps its status so it can be embedded once the quota resets
+        if (e instanceof QuotaExceededError) {
+          return NextResponse.json(
+            { error: e.message, quota: e.quota, processed, failures },
+            { status: 429, headers: quotaHeaders(e) }
+          );
         }
 
-        // 3) STORAGE PHASE: Save vectors to Pinecone vector database
-        // Pinecone automatically handles vector indexing for efficient similarity search
-        await index.upsert(vectors);
-
-        // 4) UPDATE PHASE: Mark document as successfully processed
-        store.update(doc.id, {
-          chunkCount: chunks.length, // Record how many chunks were created
-          processingStatus: "completed", // Update status to completed
-        });
-
-        // Record successful processing
-        processed.push({ id: doc.id, chunks: chunks.length });
-      } catch (e: any) {
         // Handle any errors during document processing
-        const reason = e?.message || "Embedding/indexing failed";
+        const reason =
+          e instanceof Error ? e.message : "Embedding/indexing failed";
 
         // Update document status to error
-        store.update(doc.id, {
+        await store.update(doc.id, {
           processingStatus: "error",
           errorMessage: reason,
         });
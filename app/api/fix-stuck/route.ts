@@ -1,36 +1,20 @@
 import { NextResponse } from "next/server";
-import { store } from "../../../lib/store";
+import { runWatchdog } from "../../../lib/watchdog";
+import { workspaceOf } from "../../../lib/workspace";
 
-export async function POST() {
+// POST /api/fix-stuck — runs the stuck-document watchdog now instead of
+// waiting for the worker's next pass. Stalled documents are re-queued from
+// their stored content; they are only marked as errors once retries run out.
+// Only the caller's workspace is checked.
+export async function POST(req: Request) {
   try {
-    const docs = await store.list();
-    const stuckDocs = docs.filter(
-      (doc) =>
-        doc.processingStatus === "extracting" &&
-        new Date(doc.uploadDate).getTime() < Date.now() - 2 * 60 * 1000 // 2 minutes ago
-    );
-
-    if (stuckDocs.length === 0) {
-      return NextResponse.json({ message: "No stuck documents found" });
-    }
-
-    // Fix all stuck documents
-    const fixed = [];
-    for (const doc of stuckDocs) {
-      const updated = store.update(doc.id, {
-        processingStatus: "error",
-        errorMessage: "Manual intervention - processing was stuck",
-      });
-      if (updated) {
-        fixed.push(updated);
-      }
-    }
-
+    const result = await runWatchdog(Date.now(), workspaceOf(req));
     return NextResponse.json({
-      message: `Fixed ${fixed.length} stuck documents`,
-      fixed: fixed.map((d) => ({ id: d.id, filename: d.filename })),
+      message: `Requeued ${result.requeued.length}, gave up on ${result.gaveUp.length} stuck documents`,
+      ...result,
     });
   } catch (error) {
+    console.error("❌ Watchdog failed:", error);
     return NextResponse.json(
       { error: "Failed to fix stuck documents" },
       { status: 500 }
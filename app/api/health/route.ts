@@ -1,9 +1,30 @@
 import { NextResponse } from "next/server";
+import { PRINCIPAL_HEADER } from "../../../lib/auth";
+import { getVectorStore } from "../../../lib/vectorstore";
+import { workspaceOf } from "../../../lib/workspace";
+
+export async function GET(req: Request) {
+  // The check itself is public; vector store stats (of the caller's
+  // workspace) are only for signed-in callers
+  if (!req.headers.get(PRINCIPAL_HEADER)) {
+    return NextResponse.json({
+      ok: true,
+      service: "document-rag-system",
+      time: new Date().toISOString(),
+    });
+  }
+
+  // Stats are informational; a failing backend shouldn't fail the check
+  const vectors = await getVectorStore(workspaceOf(req))
+    .stats()
+    .catch((e: unknown) => ({
+      error: e instanceof Error ? e.message : "vector store unavailable",
+    }));
 
-export function GET() {
   return NextResponse.json({
     ok: true,
     service: "document-rag-system",
     time: new Date().toISOString(),
+    vectors,
   });
 }
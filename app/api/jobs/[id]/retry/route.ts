@@ -0,0 +1,41 @@
+// app/api/jobs/[id]/retry/route.ts
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, jobDocument, requeueDead } from "../../../../../lib/jobs";
+import { getStore } from "../../../../../lib/store";
+import { workspaceOf } from "../../../../../lib/workspace";
+
+// POST /api/jobs/:id/retry — moves a dead-lettered job back to the queue
+export async function POST(
+  req: NextRequest,
+  ctx: RouteContext<"/api/jobs/[id]/retry">
+) {
+  const { id } = await ctx.params;
+  const workspaceId = workspaceOf(req);
+
+  // The document is flagged before the job is back in the queue, so a worker
+  // that claims it at once can't have its status overwritten. The watchdog's
+  // retry count starts over.
+  const dead = await getJob(id);
+  if (!dead || dead.status !== "dead" || jobDocument(dead).workspaceId !== workspaceId) {
+    return NextResponse.json(
+      { error: "No dead job with that id" },
+      { status: 404 }
+    );
+  }
+  await getStore(workspaceId).update(dead.documentId, {
+    processingStatus: dead.type === "extract" ? "extracting" : "embedding",
+    errorMessage: undefined,
+    retryHistory: undefined,
+  });
+
+  const job = await requeueDead(id, workspaceId);
+  if (!job) {
+    return NextResponse.json(
+      { error: "No dead job with that id" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ job }, { status: 200 });
+}
@@ -0,0 +1,19 @@
+// app/api/jobs/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { listJobs } from "../../../lib/jobs";
+import { workspaceOf } from "../../../lib/workspace";
+
+// GET /api/jobs — queued/running jobs and the dead-letter set of the caller's workspace
+export async function GET(req: Request) {
+  try {
+    const { queued, dead } = await listJobs(workspaceOf(req));
+    return NextResponse.json({ queued, dead }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "jobs error" },
+      { status: 500 }
+    );
+  }
+}
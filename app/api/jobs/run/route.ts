@@ -0,0 +1,40 @@
+// app/api/jobs/run/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { drainQueue } from "../../../../lib/worker";
+import { runWatchdog } from "../../../../lib/watchdog";
+import { workspaceOf } from "../../../../lib/workspace";
+
+type Body = { max?: number };
+
+// POST /api/jobs/run — recovers stalled documents, then runs due jobs. Point a
+// cron at this on serverless hosts where no long-lived worker loop can run.
+// Works through every workspace, but only reports on the caller's.
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const workspaceId = workspaceOf(req);
+    const mine = <T extends { workspaceId: string }>(items: T[]) =>
+      items.filter((i) => i.workspaceId === workspaceId);
+
+    const watchdog = await runWatchdog();
+    const ran = await drainQueue(body.max ?? 25);
+    return NextResponse.json(
+      {
+        watchdog: {
+          checked: watchdog.checked,
+          requeued: mine(watchdog.requeued),
+          gaveUp: mine(watchdog.gaveUp),
+        },
+        ran: mine(ran),
+      },
+      { status: 200 }
+    );
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "job run error" },
+      { status: 500 }
+    );
+  }
+}
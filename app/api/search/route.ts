@@ -2,14 +2,37 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import { openai } from "../../../lib/openai";
-import { getPinecone } from "../../../lib/pinecone";
+import {
+  MAX_NEIGHBOURS,
+  RETRIEVAL_MODES,
+  defaultMode,
+  defaultNeighbours,
+  expandNeighbours,
+  retrieve,
+} from "../../../lib/retrieve";
+import { toPassages } from "../../../lib/context";
+import { workspaceOf } from "../../../lib/workspace";
+import { principalOf, principalToken } from "../../../lib/auth";
+import { readerTokensOf } from "../../../lib/acl";
+import type { RetrievalMode } from "../../../lib/retrieve";
+import {
+  RERANKERS,
+  defaultReranker,
+  getReranker,
+  rerankCandidates,
+} from "../../../lib/rerank";
+import type { RerankerName } from "../../../lib/rerank";
+import { QuotaExceededError, quotaHeaders } from "../../../lib/quota";
 
 type Body = {
   q: string;
   k?: number;
   documentIds?: string[];
   fileTypes?: string[];
+  mode?: RetrievalMode; // vector | keyword | hybrid (default hybrid)
+  alpha?: number; // vector weight in hybrid mode, 0..1
+  rerank?: RerankerName; // none | llm | lexical (default RERANKER)
+  neighbours?: number; // chunks to merge in on each side of every hit, 0-3
 };
 
 function makeSnippet(text: string, query: string, radius = 180) {
@@ -47,50 +70,104 @@ export async function POST(req: Request) {
       );
 
     const k = body?.k ?? 5;
-    const { documentIds, fileTypes } = body;
-
-    // 1) embed the query
-    const emb = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: q,
-    });
-    const vector = emb.data[0].embedding;
+    const { documentIds, fileTypes, alpha } = body;
+    const mode = body.mode ?? defaultMode();
+    if (!RETRIEVAL_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of ${RETRIEVAL_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
 
-    // 2) optional metadata filters
-    let filter: Record<string, any> | undefined;
-    if (
-      (documentIds && documentIds.length) ||
-      (fileTypes && fileTypes.length)
-    ) {
-      filter = {};
-      if (documentIds?.length) filter.documentId = { $in: documentIds };
-      if (fileTypes?.length) filter.fileType = { $in: fileTypes };
+    const rerank = body.rerank ?? defaultReranker();
+    if (!RERANKERS.includes(rerank)) {
+      return NextResponse.json(
+        { error: `rerank must be one of ${RERANKERS.join(", ")}` },
+        { status: 400 }
+      );
     }
+    const reranker = getReranker(rerank);
+    const neighbours = Math.min(
+      MAX_NEIGHBOURS,
+      Math.max(0, Math.floor(body.neighbours ?? defaultNeighbours()))
+    );
 
-    // 3) query pinecone
-    const { index } = getPinecone();
-    const res = await index.query({
-      vector,
-      topK: k,
-      includeMetadata: true,
-      filter,
-    } as any);
+    // 1) vector and/or keyword search with optional filters, fused by rank;
+    // over-fetch when a reranker picks the final k
+    const workspaceId = workspaceOf(req);
+    const principal = principalOf(req);
+    const caller = principalToken(principal); // model calls are billed to them
+    // ...and an LLM reranker's tokens come out of their daily chat quota
+    const candidates = await retrieve({
+      workspaceId, // never search another workspace's chunks
+      query: q,
+      topK: reranker ? Math.max(k, rerankCandidates()) : k,
+      documentIds,
+      fileTypes,
+      readers: readerTokensOf(principal), // only documents the caller may read
+      caller,
+      mode,
+      alpha,
+    });
+    const matches = reranker
+      ? await reranker.rerank(q, candidates, k, {
+          signal: req.signal,
+          bill: { workspaceId, principal: caller },
+          quota: principal,
+        })
+      : candidates;
 
-    // 4) normalize results
-    const results = (res.matches || []).map((m: any) => ({
-      id: m.id as string,
-      score: m.score ?? 0,
-      documentId: m.metadata?.documentId as string,
-      filename: m.metadata?.filename as string,
-      fileType: m.metadata?.fileType as string,
-      snippet: makeSnippet(m.metadata?.content as string, q),
-      chunkIndex: m.metadata?.chunkIndex as number,
-      chunkContent: m.metadata?.content as string,
-      uploadDate: m.metadata?.uploadDate as string,
-    }));
+    // 2) normalize results. With neighbours, each hit is widened to the
+    // chunks around it and contiguous chunks come back as one passage
+    // (chunkIndexes lists them; chunkContent is the merged text)
+    const results = neighbours
+      ? toPassages(await expandNeighbours(workspaceId, matches, neighbours)).map((p) => ({
+          id: p.hit.id,
+          score: p.hit.score,
+          vectorScore: p.hit.vectorScore,
+          keywordScore: p.hit.keywordScore,
+          rerankScore: p.rerankScore,
+          documentId: p.documentId,
+          filename: p.filename,
+          fileType: p.hit.metadata.fileType,
+          snippet: makeSnippet(p.text, q),
+          chunkIndex: p.chunkIndexes[0],
+          chunkIndexes: p.chunkIndexes,
+          pageStart: p.pageStart,
+          pageEnd: p.pageEnd,
+          chunkContent: p.text,
+          uploadDate: p.hit.metadata.uploadDate,
+        }))
+      : matches.map((m) => ({
+          id: m.id,
+          score: m.score,
+          vectorScore: m.vectorScore,
+          keywordScore: m.keywordScore,
+          rerankScore: m.rerankScore,
+          documentId: m.metadata.documentId,
+          filename: m.metadata.filename,
+          fileType: m.metadata.fileType,
+          snippet: makeSnippet(m.metadata.content, q),
+          chunkIndex: m.metadata.chunkIndex,
+          chunkIndexes: [m.metadata.chunkIndex],
+          pageStart: m.metadata.pageStart,
+          pageEnd: m.metadata.pageEnd,
+          chunkContent: m.metadata.content,
+          uploadDate: m.metadata.uploadDate,
+        }));
 
-    return NextResponse.json({ q, k, results }, { status: 200 });
+    return NextResponse.json(
+      { q, k, mode, rerank, neighbours, results },
+      { status: 200 }
+    );
   } catch (e: any) {
+    // The LLM reranker ran out of chat tokens for today
+    if (e instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: e.message, quota: e.quota },
+        { status: 429, headers: quotaHeaders(e) }
+      );
+    }
     return NextResponse.json(
       { error: e?.message || "search error" },
       { status: 500 }
@@ -5,16 +5,36 @@
 export const runtime = "nodejs"; // Forces this API route to run on Node.js runtime
 
 // IMPORTS
-import { NextResponse } from "next/server"; // Next.js response utilities
-import { store } from "../../../lib/store"; // Database/storage abstraction layer
+import { NextResponse, after } from "next/server"; // Next.js response utilities
+import { getStore } from "../../../lib/store"; // Database/storage abstraction layer
+import { workspaceOf } from "../../../lib/workspace"; // Caller's workspace
 import { newDocId } from "../../../lib/id"; // Unique ID generator for documents
-import { MAX_FILE_BYTES, isAllowedType } from "../../../lib/validate"; // File validation
-import type { DocumentRecord } from "../../../lib/types"; // TypeScript types
 import {
-  detectKind,
-  extractFromBuffer,
-  fileToBuffer,
-} from "../../../lib/extract"; // File processing
+  MAX_FILES_PER_UPLOAD,
+  MAX_FILE_BYTES,
+  isAllowedType,
+  validateContent,
+} from "../../../lib/validate"; // File validation
+import type { UploadRejection } from "../../../lib/validate";
+import type { DocumentRecord } from "../../../lib/types"; // TypeScript types
+import { fileToBuffer } from "../../../lib/extract"; // File processing
+import { enqueue } from "../../../lib/jobs"; // Persisted background job queue
+import { removeDocument, storeOriginal } from "../../../lib/pipeline"; // Processing stages
+import { sha256 } from "../../../lib/blobs"; // Content hashing for dedup
+import { drainQueue } from "../../../lib/worker"; // Job runner
+import { missingLanguages, parseLanguages } from "../../../lib/ocr"; // OCR languages
+import { principalOf } from "../../../lib/auth"; // Authenticated caller
+import { canManage, canRead, defaultAcl, parseGroups } from "../../../lib/acl"; // Document ACLs
+import { QuotaExceededError, assertStorageQuota } from "../../../lib/quota"; // Storage quotas
+
+/**
+ * What to do when an upload's bytes match a document we already have:
+ * - skip:    don't create anything, report the existing document (default)
+ * - replace: create the new document, then delete the old one and its vectors
+ * - keep:    create the new document and keep both
+ */
+type DuplicatePolicy = "skip" | "replace" | "keep";
+const DUPLICATE_POLICIES: DuplicatePolicy[] = ["skip", "replace", "keep"];
 
 /**
  * HTTP POST handler for file upload endpoint
@@ -25,7 +45,8 @@ import {
  * - Next.js automatically handles routing and request parsing
  *
  * ENDPOINT: POST /api/upload (or similar based on file location)
- * PURPOSE: Accept multiple files, validate them, extract text, store records
+ * PURPOSE: Accept multiple files, validate them, store records and queue
+ * extraction + embedding as background jobs
  */
 export async function POST(req: Request) {
   // FORM DATA PARSING
@@ -33,6 +54,12 @@ export async function POST(req: Request) {
   // FormData is the web standard for handling file uploads
   const form = await req.formData();
 
+  // WORKSPACE: documents are created in (and deduplicated against) the
+  // caller's workspace only
+  const workspaceId = workspaceOf(req);
+  const store = getStore(workspaceId);
+  const principal = principalOf(req);
+
   // Extract all files from the 'files' field
   // getAll() returns an array because HTML allows multiple files: <input type="file" multiple>
   // Type assertion needed because FormData.getAll() returns FormDataEntryValue[]
@@ -50,11 +77,73 @@ export async function POST(req: Request) {
     );
   }
 
+  // FILES PER REQUEST
+  // WHY: Each file is read into memory and validated in this request
+  if (files.length > MAX_FILES_PER_UPLOAD()) {
+    return NextResponse.json(
+      { error: `Too many files (at most ${MAX_FILES_PER_UPLOAD()} per upload)` },
+      { status: 400 }
+    );
+  }
+
+  // DUPLICATE POLICY (form field "onDuplicate", applies to every file)
+  const policy = ((form.get("onDuplicate") as string | null) ||
+    "skip") as DuplicatePolicy;
+  if (!DUPLICATE_POLICIES.includes(policy)) {
+    return NextResponse.json(
+      {
+        error: `Invalid onDuplicate "${policy}" (use ${DUPLICATE_POLICIES.join(", ")})`,
+      },
+      { status: 400 }
+    );
+  }
+
+  // OCR LANGUAGES (form field "ocrLanguages", e.g. "eng+deu"; used for images)
+  // Checked up front so a typo fails the request instead of every OCR job
+  let ocrLanguages: string[] | undefined;
+  const ocrField = (form.get("ocrLanguages") as string | null)?.trim();
+  if (ocrField) {
+    try {
+      ocrLanguages = parseLanguages(ocrField);
+    } catch (e: unknown) {
+      const error = e instanceof Error ? e.message : "Invalid ocrLanguages";
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const missing = await missingLanguages(ocrLanguages);
+    if (missing.length) {
+      return NextResponse.json(
+        { error: `No OCR language data for: ${missing.join(", ")}` },
+        { status: 400 }
+      );
+    }
+  }
+
+  // READERS (form field "groups", e.g. "hr,legal"; applies to every file)
+  // Without it the whole workspace may read the documents. The uploader owns
+  // them either way and can change this later with PATCH /api/documents/:id.
+  let acl: DocumentRecord["acl"];
+  try {
+    const groups = parseGroups(form.get("groups") ?? "");
+    acl = defaultAcl(principal, groups.length ? groups : undefined);
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : "Invalid groups";
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
   // RESULT TRACKING ARRAYS
   // WHY: Process multiple files independently - some may succeed, others fail
   // Return detailed results so client knows exactly what happened
   const created: DocumentRecord[] = []; // Successfully processed files
-  const errors: Array<{ filename: string; reason: string }> = []; // Failed files with reasons
+  // Failed files with a reason and a machine-readable code (UploadErrorCode)
+  const errors: Array<{ filename: string } & UploadRejection> = [];
+  const duplicates: Array<{
+    filename: string;
+    contentHash: string;
+    action: "skipped" | "replaced" | "kept";
+    id?: string; // the new document (replaced / kept)
+    existing: Array<Pick<DocumentRecord, "id" | "filename" | "processingStatus">>;
+    retained?: string[]; // (replace) existing documents the caller may not delete
+  }> = []; // Files whose content matched documents we already had
 
   // PROCESS EACH FILE INDIVIDUALLY
   // WHY: Independent processing allows partial success
@@ -74,6 +163,7 @@ export async function POST(req: Request) {
     if (!isAllowedType(fileType, filename)) {
       errors.push({
         filename,
+        code: "unsupported_type",
         reason: `Unsupported type: ${fileType || "unknown"}`,
       });
       continue; // Skip to next file
@@ -86,11 +176,77 @@ export async function POST(req: Request) {
     if (fileSize > MAX_FILE_BYTES) {
       errors.push({
         filename,
+        code: "file_too_large",
         reason: `File too large (> 10MB)`,
       });
       continue; // Skip to next file
     }
 
+    let buf: Buffer;
+    try {
+      buf = await fileToBuffer(f);
+    } catch (e: unknown) {
+      const reason = e instanceof Error ? e.message : "Failed to read file";
+      errors.push({ filename, code: "read_failed", reason });
+      continue;
+    }
+
+    // CONTENT VALIDATION
+    // WHY: The name and MIME type come from the client. The bytes must be
+    // what they claim (magic bytes), archives must not be decompression
+    // bombs and SVGs must not declare entities, or a renamed binary ends
+    // up indexed as garbage text
+    const rejection = await validateContent(buf, fileType, filename);
+    if (rejection) {
+      console.warn(`🚫 Rejected ${filename}: ${rejection.reason}`);
+      errors.push({ filename, ...rejection });
+      continue;
+    }
+
+    // CONTENT HASH + DUPLICATE CHECK
+    // WHY: The same file uploaded twice would otherwise be embedded twice and
+    // show up as duplicate citations in chat
+    let contentHash: string;
+    let existing: DocumentRecord[];
+    try {
+      contentHash = sha256(buf);
+      // Documents the caller can't read neither count nor get reported
+      existing = (await store.findByHash(contentHash)).filter((d) =>
+        canRead(principal, d)
+      );
+    } catch (e: unknown) {
+      const reason = e instanceof Error ? e.message : "Failed to check for duplicates";
+      errors.push({ filename, code: "store_failed", reason });
+      continue;
+    }
+    const existingSummary = existing.map((d) => ({
+      id: d.id,
+      filename: d.filename,
+      processingStatus: d.processingStatus,
+    }));
+
+    if (existing.length && policy === "skip") {
+      console.log(`⏭️ Skipping ${filename}: same content as ${existing[0].id}`);
+      duplicates.push({
+        filename,
+        contentHash,
+        action: "skipped",
+        existing: existingSummary,
+      });
+      continue;
+    }
+
+    // STORAGE QUOTA (QUOTA_MAX_DOCUMENTS / QUOTA_MAX_BYTES per workspace)
+    // WHY: Checked per file, so earlier files of the same upload count
+    try {
+      await assertStorageQuota(workspaceId, fileSize);
+    } catch (e: unknown) {
+      const reason = e instanceof Error ? e.message : "Failed to check quota";
+      const code = e instanceof QuotaExceededError ? "quota_exceeded" : "store_failed";
+      errors.push({ filename, code, reason });
+      continue;
+    }
+
     // GENERATE UNIQUE DOCUMENT ID
     // WHY: Need consistent way to reference documents across system
     // Database primary key, file storage key, etc.
@@ -101,25 +257,18 @@ export async function POST(req: Request) {
     // Allows tracking of processing status, handles crashes gracefully
     const base: DocumentRecord = {
       id, // Unique identifier
+      workspaceId, // Owning workspace, fixed for the document's lifetime
       filename, // Original filename from upload
       fileType, // MIME type for processing decisions
       fileSize, // Size for storage management
       uploadDate: new Date().toISOString(), // When upload occurred (ISO 8601 format)
-      processingStatus: "extracting", // Current processing stage
-      metadata: JSON.stringify({}), // FIXED: Explicitly stringify empty object
+      processingStatus: "uploading", // Current processing stage
+      contentHash, // SHA-256 of the bytes, indexed for duplicate detection
+      // FIXED: Explicitly stringify (OCR languages are read by the extract job)
+      metadata: JSON.stringify(ocrLanguages ? { ocrLanguages } : {}),
+      acl, // Owner (the caller) and the groups that may read it
     };
 
-    // Debug log to verify the payload structure
-    console.log("Payload being stored:", {
-      id: base.id,
-      filename: base.filename,
-      fileType: base.fileType,
-      fileSize: base.fileSize.toString(),
-      uploadDate: base.uploadDate,
-      processingStatus: base.processingStatus,
-      metadata: base.metadata, // Should be '{}' not '[object Object]'
-    });
-
     // PERSIST TO DATABASE/STORE
     // WHY: Create record immediately so we can update status during processing
     // If processing fails, we still have record of the attempt
@@ -130,60 +279,73 @@ export async function POST(req: Request) {
       const reason =
         e instanceof Error ? e.message : "Failed to create document record";
       console.error(`❌ Failed to create record for ${filename}:`, reason);
-      errors.push({ filename, reason });
+      errors.push({ filename, code: "store_failed", reason });
       continue; // Skip to next file
     }
 
-    // TEXT EXTRACTION PROCESS (wrapped in try-catch for error handling)
+    // QUEUE EXTRACTION (the extract job queues embedding when it's done)
+    // WHY: Extraction and embedding can be slow or fail transiently (OCR,
+    // model rate limits). Jobs are persisted and retried with backoff, so a
+    // crash or failed call no longer leaves the document stuck.
     try {
-      console.log("📦 Converting to buffer...");
-      const buf = await fileToBuffer(f);
-
-      console.log("🔍 Detecting file kind...");
-      const kind = detectKind(fileType, filename);
-      console.log(`📋 Detected kind: ${kind}`);
-
-      console.log("⚡ Extracting text...");
-      const { text } = await extractFromBuffer(buf, kind);
-      console.log(`✅ Extracted ${text.length} characters`);
-
-      console.log("💾 Updating database...");
-      // CRITICAL FIX: Added missing await
-      await store.update(id, {
-        extractedContent: text, // The extracted text content
-        processingStatus: "embedding", // Ready for next stage (vector embeddings)
+      // Keep the original bytes (blob store) for extraction, re-extraction
+      // with a better parser later, and download/preview
+      console.log("📦 Storing original...");
+      const { blobKey } = await storeOriginal(base, buf);
+
+      // The record must point at the original before the job exists: an
+      // external worker may claim it straight away
+      const queued = await store.update(id, {
+        blobKey,
+        processingStatus: "extracting",
       });
-      console.log("✅ Database updated successfully");
 
-      // Auto-embed: Fire-and-forget call to embedding route
-      // This reduces the window where documents can be lost due to server restarts
-      try {
-        const appUrl =
-          process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
-        console.log("🚀 Auto-starting embedding process...");
-        fetch(`${appUrl}/api/embedding/create`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ documentId: id }),
-        }).catch((err) => {
-          console.warn("⚠️ Auto-embedding failed (non-blocking):", err.message);
+      const job = await enqueue("extract", base);
+      console.log(`🧾 Queued ${job.type} job ${job.id}`);
+      if (queued) created.push(queued);
+
+      if (existing.length) {
+        // REPLACE: the old copies go away entirely, vectors included. Only
+        // those the caller owns (or any, for admins): others' copies stay
+        const retained: string[] = [];
+        if (policy === "replace") {
+          // The new document is already queued, so a failure here only
+          // leaves the old copy behind; it doesn't fail the upload
+          for (const old of existing) {
+            if (!canManage(principal, old)) {
+              retained.push(old.id);
+              continue;
+            }
+            try {
+              const vectors = await removeDocument(old);
+              console.log(
+                `♻️ Replaced ${old.id} with ${id} (${vectors.deleted} vectors removed)`
+              );
+              if (vectors.failures.length) {
+                console.warn(
+                  `⚠️ ${vectors.failures.length} vector batch(es) of ${old.id} left behind`
+                );
+              }
+            } catch (e) {
+              console.warn(`⚠️ Failed to remove replaced document ${old.id}:`, e);
+            }
+          }
+        }
+        duplicates.push({
+          filename,
+          contentHash,
+          action: policy === "replace" ? "replaced" : "kept",
+          id,
+          existing: existingSummary,
+          ...(retained.length && { retained }),
         });
-      } catch (err) {
-        console.warn("⚠️ Auto-embedding setup failed (non-blocking):", err);
       }
     } catch (e: unknown) {
-      // ERROR HANDLING
-      // WHY: File processing can fail for many reasons:
-      // - Corrupted files, unsupported formats, memory issues, etc.
-      // Capture error details for debugging and user feedback
-
-      // Extract error message safely (e could be anything)
-      const reason = e instanceof Error ? e.message : "Extraction error";
-      console.error(`❌ Extraction failed for ${filename}:`, reason);
+      const reason = e instanceof Error ? e.message : "Failed to queue processing";
+      console.error(`❌ Failed to queue ${filename}:`, reason);
 
       // Update database record with error status
       try {
-        // CRITICAL FIX: Added missing await
         await store.update(id, {
           processingStatus: "error",
           errorMessage: reason,
@@ -195,58 +357,44 @@ export async function POST(req: Request) {
         );
       }
 
-      // Add to errors array for response
-      errors.push({ filename, reason });
-      continue; // Skip to next file
+      errors.push({ filename, code: "queue_failed", reason });
     }
+  }
 
-    // SUCCESS: Add to created array
-    // Get updated record from store (includes extractedContent, etc.)
-    try {
-      // CRITICAL FIX: Proper error handling instead of non-null assertion
-      const updatedDoc = await store.get(id);
-      if (updatedDoc) {
-        created.push(updatedDoc);
-      } else {
-        console.error(`❌ Could not retrieve updated document ${id}`);
-        errors.push({
-          filename,
-          reason: "Failed to retrieve updated document",
-        });
-      }
-    } catch (e) {
-      const reason =
-        e instanceof Error ? e.message : "Failed to retrieve document";
-      console.error(
-        `❌ Failed to get updated document for ${filename}:`,
-        reason
-      );
-      errors.push({ filename, reason });
-    }
+  // Run the queued jobs once the response has been sent. A separate worker
+  // (JOB_WORKER=external, `npm run worker`) picks them up otherwise.
+  if (created.length && process.env.JOB_WORKER !== "external") {
+    after(() =>
+      drainQueue().catch((e) => console.error("❌ Job drain failed:", e))
+    );
   }
 
   // RESPONSE GENERATION
   // WHY: Client needs to know what succeeded and what failed
 
-  // TOTAL FAILURE: All files failed processing
-  if (created.length === 0) {
+  // TOTAL FAILURE: All files failed processing (429 when only quotas stood
+  // in the way; no Retry-After, as storage quotas free up only on delete)
+  if (created.length === 0 && duplicates.length === 0) {
+    const overQuota = errors.every((e) => e.code === "quota_exceeded");
     return NextResponse.json(
       {
-        error: "All files failed",
+        error: overQuota ? "Workspace quota reached" : "All files failed",
         errors,
       },
-      { status: 400 }
+      { status: overQuota ? 429 : 400 }
     );
   }
 
   // PARTIAL OR COMPLETE SUCCESS
-  // Return 201 Created with details of what was processed
-  // Include both successes and failures for transparency
+  // Return 201 Created with details of what was processed (200 when every
+  // file was a skipped duplicate). Include both successes and failures for
+  // transparency
   return NextResponse.json(
     {
-      created, // Array of successfully processed DocumentRecord objects
-      errors, // Array of failed files with reasons (may be empty)
+      created, // Array of accepted DocumentRecord objects (processing continues in the background)
+      duplicates, // Files matching existing documents and what was done about it
+      errors, // Array of failed files with reasons and codes (may be empty)
     },
-    { status: 201 }
+    { status: created.length ? 201 : 200 }
   );
 }
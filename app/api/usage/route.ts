@@ -0,0 +1,50 @@
+// app/api/usage/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { hasScope, principalOf, principalToken } from "../../../lib/auth";
+import { workspaceOf } from "../../../lib/workspace";
+import { quotaReport } from "../../../lib/quota";
+import { allRateLimits, peekRateLimit } from "../../../lib/ratelimit";
+import { modelPrices, usageRollups } from "../../../lib/usage";
+
+// GET /api/usage?days=30&months=12 — the caller's rate limits (requests left
+// in each bucket), where the workspace's and caller's quotas stand, and what
+// the workspace's model calls cost per day and per month. Only admins see
+// every user's and key's spend; others see their own.
+export async function GET(req: Request) {
+  try {
+    const principal = principalOf(req);
+    const workspaceId = workspaceOf(req);
+    const who = principalToken(principal);
+    const { searchParams } = new URL(req.url);
+
+    const rateLimits = await Promise.all(
+      allRateLimits().map(async (limit) => ({
+        ...limit,
+        remaining: await peekRateLimit(limit, who),
+      }))
+    );
+    const quotas = await quotaReport(workspaceId, principal);
+    const { daily, monthly } = await usageRollups(workspaceId, {
+      days: Number(searchParams.get("days")) || undefined,
+      months: Number(searchParams.get("months")) || undefined,
+      principal: hasScope(principal, "admin") ? undefined : who,
+    });
+
+    return NextResponse.json(
+      {
+        workspaceId,
+        rateLimits,
+        quotas,
+        costs: { currency: "USD", prices: modelPrices(), daily, monthly },
+      },
+      { status: 200 }
+    );
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "usage error" },
+      { status: 500 }
+    );
+  }
+}
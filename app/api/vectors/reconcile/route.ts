@@ -0,0 +1,71 @@
+// app/api/vectors/reconcile/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getStore } from "../../../../lib/store";
+import { getVectorStore } from "../../../../lib/vectorstore";
+import { documentIdOfVector } from "../../../../lib/id";
+import { workspaceOf } from "../../../../lib/workspace";
+
+/**
+ * Finds vectors whose document no longer exists in the workspace's store.
+ * Documents deleted before deletes cascaded to the index left these behind.
+ */
+async function findOrphans(workspaceId: string) {
+  const [vectorIds, docs] = await Promise.all([
+    getVectorStore(workspaceId).listIds("doc_"),
+    getStore(workspaceId).list(),
+  ]);
+  const known = new Set(docs.map((d) => d.id));
+
+  const orphans = new Map<string, number>(); // documentId -> vector count
+  for (const vid of vectorIds) {
+    const documentId = documentIdOfVector(vid);
+    if (known.has(documentId)) continue;
+    orphans.set(documentId, (orphans.get(documentId) ?? 0) + 1);
+  }
+  return {
+    scanned: vectorIds.length,
+    orphans: [...orphans].map(([documentId, vectors]) => ({
+      documentId,
+      vectors,
+    })),
+  };
+}
+
+// GET /api/vectors/reconcile — report orphaned vectors without deleting
+export async function GET(req: Request) {
+  try {
+    return NextResponse.json(await findOrphans(workspaceOf(req)), { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "reconcile error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/vectors/reconcile — delete orphaned vectors
+export async function POST(req: Request) {
+  try {
+    const workspaceId = workspaceOf(req);
+    const { scanned, orphans } = await findOrphans(workspaceId);
+
+    const removed: Array<{ documentId: string; deleted: number }> = [];
+    const failures: Array<{ documentId: string; reason: string }> = [];
+    for (const o of orphans) {
+      const res = await getVectorStore(workspaceId).deleteByDocument(o.documentId);
+      removed.push({ documentId: o.documentId, deleted: res.deleted });
+      for (const f of res.failures) {
+        failures.push({ documentId: o.documentId, reason: f.reason });
+      }
+    }
+
+    return NextResponse.json({ scanned, removed, failures }, { status: 200 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "reconcile error" },
+      { status: 500 }
+    );
+  }
+}
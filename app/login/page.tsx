@@ -0,0 +1,88 @@
+"use client";
+import { useEffect, useState } from "react";
+
+// Only paths on this site; the server checks SSO redirects the same way
+const safeNext = (next: string | null) =>
+  next && next.startsWith("/") && !next.startsWith("//") && !next.startsWith("/\\")
+    ? next
+    : "/";
+
+// Sign-in page: a local account, or the SSO provider when one is configured.
+// middleware.ts sends every signed-out page visit here with ?next=<path>.
+export default function Login() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [sso, setSso] = useState<string | null>(null);
+  const [next, setNext] = useState("/");
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setNext(safeNext(params.get("next")));
+    // The SSO callback comes back here with ?error= when it fails
+    setErr(params.get("error"));
+    fetch("/api/auth/session")
+      .then((r) => r.json())
+      .then((data) => setSso(data?.sso ?? null))
+      .catch(() => setSso(null));
+  }, []);
+
+  async function signIn(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setErr(null);
+    try {
+      const r = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await r.json();
+      if (!r.ok) throw new Error(data?.error || "Sign-in failed");
+      window.location.assign(next);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Sign-in failed");
+      setBusy(false);
+    }
+  }
+
+  return (
+    <main className="max-w-sm mx-auto p-6 mt-16 space-y-4">
+      <h1 className="text-2xl font-bold">Sign in</h1>
+      <form onSubmit={signIn} className="space-y-3">
+        <input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          className="w-full border rounded px-3 py-2"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete="current-password"
+          className="w-full border rounded px-3 py-2"
+        />
+        <button
+          type="submit"
+          disabled={busy || !username || !password}
+          className="w-full px-4 py-2 rounded bg-black text-white disabled:opacity-50"
+        >
+          {busy ? "Signing in…" : "Sign in"}
+        </button>
+      </form>
+      {sso && (
+        <a
+          href={`/api/auth/sso/login?next=${encodeURIComponent(next)}`}
+          className="block text-center w-full px-4 py-2 rounded border"
+        >
+          Sign in with SSO{sso === "mock" ? " (mock)" : ""}
+        </a>
+      )}
+      {err && <div className="text-sm text-red-600">{err}</div>}
+    </main>
+  );
+}
@@ -3,6 +3,8 @@ import UploadDropzone from "../components/UploadDropZone";
 import DocumentsList from "../components/DocumentsList";
 import SearchBox from "../components/SearchBox";
 import ChatBox from "../components/ChatBox";
+import WorkspacePicker from "../components/WorkspacePicker";
+import AccountBar from "../components/AccountBar";
 
 /**
  *This page mixes a client-side uploader (mutates data) and a server-rendered list (reads data).
@@ -23,7 +25,13 @@ export const dynamic = "force-dynamic";
 export default function Home() {
   return (
     <main className="max-w-3xl mx-auto p-6 space-y-6">
-      <h1 className="text-2xl font-bold">Document RAG System</h1>
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold">Document RAG System</h1>
+        <div className="flex items-center gap-4">
+          <WorkspacePicker />
+          <AccountBar />
+        </div>
+      </div>
       <SearchBox />
       <ChatBox />
       <UploadDropzone
@@ -1,20 +1,126 @@
-// lib/chunk.ts
+// chunk.ts
+import { PAGE_BREAK, getExtractor } from "./lib/extract";
+import type { ExtractKind, TextLayout } from "./lib/extract";
+
+// Structural information a chunking strategy knows about a chunk. It is
+// copied into the chunk's vector metadata.
+export type ChunkStructure = {
+  headingPath?: string; // "Installation > Linux" for Markdown/DOCX sections
+  pageStart?: number; // 1-based PDF pages the chunk spans
+  pageEnd?: number;
+  rowStart?: number; // 1-based CSV data rows (header not counted)
+  rowEnd?: number;
+};
 
 // Define what a text chunk looks like
 export type TextChunk = {
   chunkIndex: number; // Which chunk this is (0, 1, 2, ...)
   content: string; // The actual text content of this chunk
+  structure?: ChunkStructure;
+};
+
+export type ChunkOptions = {
+  maxTokens?: number; // target size (default 1000 tokens, ~4000 characters)
+  overlapTokens?: number; // shared with the previous chunk (default 100)
+  // Page count the extractor recorded ("pages" layout); unset for text
+  // extracted before pages were kept
+  pages?: number;
 };
 
+/** Splits extracted text into chunks; strategies differ by document kind */
+export type ChunkStrategy = (text: string, opts: ChunkOptions) => TextChunk[];
+
 // Approximate number of characters per token (used by AI models)
 // AI models process text in "tokens" rather than characters
 const APPROX_CHARS_PER_TOKEN = 4;
 
-// Estimate how many tokens are in a string based on character count
-function estTokens(s: string) {
-  return Math.ceil(s.length / APPROX_CHARS_PER_TOKEN);
+const limits = (opts: ChunkOptions) => ({
+  maxChars: (opts.maxTokens ?? 1000) * APPROX_CHARS_PER_TOKEN,
+  overlapChars: (opts.overlapTokens ?? 100) * APPROX_CHARS_PER_TOKEN,
+});
+
+// Clean up the text:
+// 1. Remove carriage returns (Windows line endings → Unix line endings)
+// 2. Clean up spaces/tabs before newlines
+// 3. Trim whitespace from start and end
+const normalize = (text: string) =>
+  text
+    .replace(/\r/g, "")
+    .replace(/[ \t]+\n/g, "\n")
+    .trim();
+
+// Natural boundaries, best first: paragraphs, lines, sentences, words
+const SEPARATORS = [/\n\n+/g, /\n/g, /(?<=[.!?])\s+/g, /\s+/g];
+
+/**
+ * Cuts `text` into pieces no longer than `maxChars`, trying each separator in
+ * turn on pieces that are still too long. Separators stay attached to the
+ * piece before them, so the pieces concatenate back to exactly `text`.
+ */
+function splitPieces(text: string, maxChars: number, level = 0): string[] {
+  if (text.length <= maxChars) return [text];
+  if (level >= SEPARATORS.length) {
+    // No boundary left (e.g. one enormous word): hard cut
+    const out: string[] = [];
+    for (let i = 0; i < text.length; i += maxChars) {
+      out.push(text.slice(i, i + maxChars));
+    }
+    return out;
+  }
+
+  const pieces: string[] = [];
+  let last = 0;
+  for (const m of text.matchAll(SEPARATORS[level])) {
+    const end = (m.index ?? 0) + m[0].length;
+    if (end > last && end < text.length) {
+      pieces.push(text.slice(last, end));
+      last = end;
+    }
+  }
+  pieces.push(text.slice(last));
+  return pieces.flatMap((p) => splitPieces(p, maxChars, level + 1));
 }
 
+/**
+ * Sentence-aware recursive splitter: packs the pieces from splitPieces into
+ * chunks of up to `maxChars`, starting each chunk with the trailing pieces of
+ * the previous one (up to `overlapChars`) so context carries across the cut.
+ * Returns chunk contents only; callers assign indexes.
+ */
+function splitText(text: string, opts: ChunkOptions): string[] {
+  const { maxChars, overlapChars } = limits(opts);
+  const pieces = splitPieces(text, maxChars);
+  const chunks: string[] = [];
+
+  let current: string[] = [];
+  let size = 0;
+  for (const piece of pieces) {
+    if (size + piece.length > maxChars && current.length) {
+      chunks.push(current.join(""));
+      // Carry over the tail of this chunk, leaving room for the new piece
+      const carried: string[] = [];
+      let carriedSize = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const p = current[i];
+        if (carriedSize + p.length > overlapChars) break;
+        if (carriedSize + p.length + piece.length > maxChars) break;
+        carried.unshift(p);
+        carriedSize += p.length;
+      }
+      current = carried;
+      size = carriedSize;
+    }
+    current.push(piece);
+    size += piece.length;
+  }
+  if (current.length) chunks.push(current.join(""));
+
+  return chunks.map((c) => c.trim()).filter(Boolean);
+}
+
+const numbered = (contents: string[]): TextChunk[] =>
+  contents.map((content, chunkIndex) => ({ chunkIndex, content }));
+
 /**
  * Splits a long text into smaller chunks with overlap between them
  *
@@ -35,65 +141,161 @@ export function chunkText(
 ): TextChunk[] {
   // Handle edge cases: empty or missing text
   if (!text?.trim()) return [];
+  return numbered(splitText(normalize(text), { maxTokens, overlapTokens }));
+}
 
-  // Convert token limits to character limits for easier processing
-  const maxChars = maxTokens * APPROX_CHARS_PER_TOKEN;
-  const overlapChars = overlapTokens * APPROX_CHARS_PER_TOKEN;
-
-  // Clean up the text:
-  // 1. Remove carriage returns (Windows line endings → Unix line endings)
-  // 2. Clean up spaces/tabs before newlines
-  // 3. Trim whitespace from start and end
-  const clean = text
-    .replace(/\r/g, "")
-    .replace(/[ \t]+\n/g, "\n")
-    .trim();
-
-  // Array to store our resulting chunks
-  const chunks: TextChunk[] = [];
-
-  // Track our position in the text and assign chunk numbers
-  let start = 0; // Where we're starting the current chunk
-  let idx = 0; // Current chunk index number
+/**
+ * "headings" layout (Markdown, and DOCX/HTML/EPUB/XLSX/PPTX, which the
+ * extractors render as Markdown-style text): one section per heading. Small
+ * neighbouring sections share a chunk; long ones are split like plain text.
+ * Each chunk records the heading path of the section it starts in.
+ */
+const chunkByHeadings: ChunkStrategy = (text, opts) => {
+  const { maxChars } = limits(opts);
+  const sections: Array<{ path: string[]; body: string }> = [];
+  const stack: string[] = [];
+  let body: string[] = [];
+  let path: string[] = [];
 
-  // Process the text until we've covered all of it
-  while (start < clean.length) {
-    // Calculate where this chunk should end (without considering boundaries)
-    let end = Math.min(start + maxChars, clean.length);
+  const flush = () => {
+    const joined = body.join("\n").trim();
+    if (joined) sections.push({ path, body: joined });
+    body = [];
+  };
 
-    // Look at the potential chunk and find the best place to end it
-    const slice = clean.slice(start, end);
+  let inFence = false;
+  for (const line of normalize(text).split("\n")) {
+    if (/^(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      stack.length = level - 1;
+      stack[level - 1] = heading[2];
+      path = stack.filter(Boolean);
+    }
+    body.push(line);
+  }
+  flush();
 
-    // Try to find good breaking points in order of preference:
+  const out: Array<{ content: string; headingPath: string }> = [];
+  let pending: { content: string; headingPath: string } | null = null;
+  for (const s of sections) {
+    const headingPath = s.path.join(" > ");
+    if (s.body.length > maxChars) {
+      if (pending) out.push(pending);
+      pending = null;
+      for (const content of splitText(s.body, opts)) out.push({ content, headingPath });
+      continue;
+    }
+    if (pending && pending.content.length + s.body.length + 2 <= maxChars) {
+      pending.content += "\n\n" + s.body;
+    } else {
+      if (pending) out.push(pending);
+      pending = { content: s.body, headingPath };
+    }
+  }
+  if (pending) out.push(pending);
 
-    // 1. First preference: break at paragraph boundary (double newline)
-    let cut = slice.lastIndexOf("\n\n");
+  return out.map(({ content, headingPath }, chunkIndex) => ({
+    chunkIndex,
+    content,
+    structure: headingPath ? { headingPath } : undefined,
+  }));
+};
 
-    // 2. If no good paragraph break or it's too early in the chunk,
-    //    try to break at a sentence boundary (period followed by space)
-    if (cut < end * 0.6) cut = slice.lastIndexOf(". ");
+/**
+ * "pages" layout (PDF): pages (separated by PAGE_BREAK) are chunked on their
+ * own, so every chunk knows its page. Text extracted before pages were kept
+ * has no breaks and no page count, and is chunked as plain text without page
+ * numbers; a one-page PDF has no break either, but does have its count.
+ */
+const chunkByPages: ChunkStrategy = (text, opts) => {
+  if (!text.includes(PAGE_BREAK) && !opts.pages) {
+    return chunkText(text, opts.maxTokens, opts.overlapTokens);
+  }
+  const chunks: TextChunk[] = [];
+  text.split(PAGE_BREAK).forEach((page, i) => {
+    for (const content of splitText(normalize(page), opts)) {
+      chunks.push({
+        chunkIndex: chunks.length,
+        content,
+        structure: { pageStart: i + 1, pageEnd: i + 1 },
+      });
+    }
+  });
+  return chunks;
+};
 
-    // 3. If no good sentence break, try to break at least at a word boundary (space)
-    if (cut < end * 0.6) cut = slice.lastIndexOf(" ");
+/**
+ * "rows" layout (CSV: one row per line, header first): groups of
+ * rows, each chunk starting with the header line so the columns stay labelled.
+ * A row too long for a chunk of its own is split like plain text, the header
+ * repeated on every part.
+ */
+const chunkByRows: ChunkStrategy = (text, opts) => {
+  const { maxChars } = limits(opts);
+  const [header, ...rows] = normalize(text).split("\n");
+  if (!rows.length) return chunkText(text, opts.maxTokens, opts.overlapTokens);
 
-    // 4. If no good breaking point found at all, just use the full slice length
-    if (cut <= 0) cut = slice.length;
+  const chunks: TextChunk[] = [];
+  let group: string[] = [];
+  let first = 1;
+  let size = header.length;
+  const flush = (last: number) => {
+    if (!group.length) return;
+    chunks.push({
+      chunkIndex: chunks.length,
+      content: [header, ...group].join("\n"),
+      structure: { rowStart: first, rowEnd: last },
+    });
+    group = [];
+    size = header.length;
+    first = last + 1;
+  };
 
-    // Extract the actual chunk content and clean it up
-    const piece = slice.slice(0, cut).trim();
+  // What is left of a chunk beside the header
+  const room = Math.max(maxChars - header.length - 1, APPROX_CHARS_PER_TOKEN);
 
-    // Only add non-empty chunks to our results
-    if (piece) chunks.push({ chunkIndex: idx++, content: piece });
+  rows.forEach((row, i) => {
+    if (row.length > room) {
+      flush(i);
+      const parts = splitText(row, { ...opts, maxTokens: room / APPROX_CHARS_PER_TOKEN });
+      for (const part of parts) {
+        chunks.push({
+          chunkIndex: chunks.length,
+          content: `${header}\n${part}`,
+          structure: { rowStart: i + 1, rowEnd: i + 1 },
+        });
+      }
+      first = i + 2;
+      return;
+    }
+    if (size + row.length + 1 > maxChars) flush(i);
+    group.push(row);
+    size += row.length + 1;
+  });
+  flush(rows.length);
+  return chunks;
+};
 
-    // Check if we've reached the end of the text
-    if (end >= clean.length) break;
+const plainText: ChunkStrategy = (text, opts) =>
+  chunkText(text, opts.maxTokens, opts.overlapTokens);
 
-    // Calculate where the next chunk should start
-    // We subtract the overlap to create continuity between chunks
-    const nextStart = start + piece.length;
-    start = Math.max(0, nextStart - overlapChars);
-  }
+// Which strategy each layout of extracted text is chunked with
+const STRATEGIES: Record<TextLayout, ChunkStrategy> = {
+  pages: chunkByPages,
+  headings: chunkByHeadings,
+  rows: chunkByRows,
+  plain: plainText,
+};
 
-  // Return all the chunks we created
-  return chunks;
+/** Chunks extracted text with the strategy for its extractor's layout */
+export function chunkDocument(
+  kind: ExtractKind,
+  text: string,
+  opts: ChunkOptions = {}
+): TextChunk[] {
+  if (!text?.trim()) return [];
+  return (STRATEGIES[getExtractor(kind).layout] ?? plainText)(text, opts);
 }
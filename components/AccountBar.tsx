@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Who is signed in, and a way out
+export default function AccountBar() {
+  const [name, setName] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((r) => r.json())
+      .then((data) => setName(data?.authenticated ? data.user.name : null))
+      .catch(() => setName(null));
+  }, []);
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    window.location.assign("/login");
+  };
+
+  if (!name) return null;
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-600">
+      {name}
+      <button onClick={signOut} className="border rounded px-2 py-0.5">
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -7,7 +7,10 @@ import { useState, useRef, useEffect } from "react";
 type Source = {
   documentId: string; // Unique identifier for the document
   filename: string; // Name of the source file
-  chunkIndex: number; // Which chunk of the document was used
+  chunkIndex: number; // Which chunk of the document was used (the first, if several)
+  chunkIndexes?: number[]; // All chunks merged into this passage
+  pageStart?: number; // PDF pages the passage spans, when known
+  pageEnd?: number;
   snippet: string; // Relevant text excerpt from the document
   score: number; // Similarity score (0-1) indicating relevance
 };
@@ -18,8 +21,56 @@ type Msg = {
   role: "user" | "assistant"; // Who sent the message
   content: string; // The message text
   sources?: Source[]; // Optional sources for assistant messages
+  streaming?: boolean; // Answer is still arriving
+  stopped?: boolean; // User pressed Stop before the answer finished
 };
 
+// "p. 41–42" for PDF passages, otherwise the chunk number(s) "#3–5"
+function sourceLocation(s: Source) {
+  if (s.pageStart !== undefined) {
+    return s.pageEnd !== undefined && s.pageEnd !== s.pageStart
+      ? `p. ${s.pageStart}–${s.pageEnd}`
+      : `p. ${s.pageStart}`;
+  }
+  return s.chunkIndexes && s.chunkIndexes.length > 1
+    ? `#${s.chunkIndexes[0]}–${s.chunkIndexes[s.chunkIndexes.length - 1]}`
+    : `#${s.chunkIndex}`;
+}
+
+// Payloads of the /api/chat stream events we read (sources, delta, error)
+type EventData = { sources?: Source[]; content?: string; error?: string };
+
+/**
+ * Reads a text/event-stream body and calls onEvent for each complete event.
+ * Events are separated by a blank line; we only use the event and data fields.
+ */
+async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: EventData) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let sep;
+    while ((sep = buffer.indexOf("\n\n")) >= 0) {
+      const raw = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+      let event = "message";
+      let data = "";
+      for (const line of raw.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
 /**
  * ChatBox Component - RAG-Powered Document Q&A Interface
  *
@@ -38,11 +89,18 @@ export default function ChatBox() {
   const [messages, setMessages] = useState<Msg[]>([]);
   // Reference to the message container for auto-scrolling
   const scrollerRef = useRef<HTMLDivElement>(null);
+  // Aborts the in-flight request when the user presses Stop
+  const abortRef = useRef<AbortController | null>(null);
 
-  // Effect to automatically scroll to the bottom when new messages are added
+  // Effect to automatically scroll to the bottom as messages and tokens arrive
+  const lastLength = messages[messages.length - 1]?.content.length ?? 0;
   useEffect(() => {
     scrollerRef.current?.scrollTo({ top: 1e9, behavior: "smooth" });
-  }, [messages.length]);
+  }, [messages.length, lastLength]);
+
+  // Applies a change to one message (the streaming answer) by id
+  const patchMessage = (id: string, fn: (m: Msg) => Msg) =>
+    setMessages((prev) => prev.map((m) => (m.id === id ? fn(m) : m)));
 
   /**
    * Handles sending a question to the RAG API and processing the response
@@ -51,8 +109,8 @@ export default function ChatBox() {
    * 1. Validates the question
    * 2. Adds the user's question to the chat history
    * 3. Sends the question and recent history to the API
-   * 4. Processes the AI's response with sources
-   * 5. Handles any errors that occur
+   * 4. Streams the AI's response: sources first, then tokens as they arrive
+   * 5. Handles any errors that occur (and the user stopping the answer)
    */
   async function ask() {
     const question = q.trim();
@@ -73,40 +131,66 @@ export default function ChatBox() {
     setMessages((prev) => [...prev, userMsg]);
     setQ(""); // Clear the input field
 
+    const abort = new AbortController();
+    abortRef.current = abort;
+    const asstId = crypto.randomUUID(); // Filled in as the stream arrives
+
     try {
       // Prepare conversation history (last 4 messages for context)
-      const history = messages.slice(-4).map((m) => ({
-        role: m.role,
-        content: m.content,
-      }));
+      const history = messages
+        .filter((m) => m.content)
+        .slice(-4)
+        .map((m) => ({
+          role: m.role,
+          content: m.content,
+        }));
 
-      // Send the question to the RAG API endpoint
+      // Send the question to the RAG API endpoint, asking for a stream
       const res = await fetch("/api/chat", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question, history }),
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body: JSON.stringify({ question, history, stream: true }),
+        signal: abort.signal,
       });
 
-      // Parse the API response
-      const data = await res.json();
-
-      // Throw an error if the API response indicates failure
-      if (!res.ok) throw new Error(data?.error || "Chat failed");
+      // Errors before streaming starts come back as JSON
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || "Chat failed");
+      }
 
-      // Create an assistant message with the answer and sources
-      const asst: Msg = {
-        id: crypto.randomUUID(), // Generate a unique identifier
-        role: "assistant",
-        content: data.answer || "", // The AI-generated answer
-        sources: data.sources || [], // Source documents used for the answer
-      };
+      // Add an empty assistant message that the deltas are appended to
+      setMessages((prev) => [
+        ...prev,
+        { id: asstId, role: "assistant", content: "", streaming: true },
+      ]);
 
-      // Add the assistant's response to the chat history
-      setMessages((prev) => [...prev, asst]);
+      await readEvents(res.body, (event, data) => {
+        if (event === "sources") {
+          patchMessage(asstId, (m) => ({ ...m, sources: data.sources || [] }));
+        } else if (event === "delta") {
+          patchMessage(asstId, (m) => ({
+            ...m,
+            content: m.content + (data.content ?? ""),
+          }));
+        } else if (event === "error") {
+          throw new Error(data.error || "Chat failed");
+        }
+      });
     } catch (e: any) {
-      // Display any errors that occurred during the API call
-      setErr(e?.message || "Chat failed");
+      if (abort.signal.aborted) {
+        // Keep whatever arrived before Stop was pressed
+        patchMessage(asstId, (m) => ({ ...m, stopped: true }));
+      } else {
+        // Display any errors that occurred during the API call
+        setErr(e?.message || "Chat failed");
+      }
     } finally {
+      patchMessage(asstId, (m) => ({ ...m, streaming: false }));
+      abortRef.current = null;
       // Reset the busy state regardless of success or failure
       setBusy(false);
     }
@@ -125,13 +209,23 @@ export default function ChatBox() {
           onKeyDown={(e) => e.key === "Enter" && ask()} // Submit on Enter key
           disabled={busy} // Disable input when busy
         />
-        <button
-          onClick={ask}
-          className="border px-3 rounded"
-          disabled={busy || !q.trim()} // Disable if busy or no question
-        >
-          {busy ? "Asking…" : "Ask"}
-        </button>
+        {busy ? (
+          // Stop aborts the request; the server aborts the model call too
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="border px-3 rounded text-red-600"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={ask}
+            className="border px-3 rounded"
+            disabled={!q.trim()} // Disable if no question
+          >
+            Ask
+          </button>
+        )}
       </div>
 
       {/* Error display */}
@@ -157,19 +251,31 @@ export default function ChatBox() {
               }`}
             >
               {/* Message content */}
-              <div>{m.content}</div>
+              <div>
+                {m.content}
+                {m.streaming && <span className="animate-pulse">▍</span>}
+                {m.stopped && (
+                  <span className="text-xs text-gray-500"> (stopped)</span>
+                )}
+              </div>
 
               {/* Display sources for assistant messages */}
               {m.role === "assistant" && !!m.sources?.length && (
                 <div className="mt-2 flex flex-wrap gap-2">
                   {m.sources.map((s, i) => (
-                    // Source citation badge
-                    <div
+                    // Source citation badge; opens the original document
+                    // (at the cited page, in browsers' PDF viewers)
+                    <a
                       key={i}
-                      className="text-[11px] bg-white border rounded px-2 py-1"
+                      href={`/api/documents/${s.documentId}/file${
+                        s.pageStart !== undefined ? `#page=${s.pageStart}` : ""
+                      }`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-[11px] bg-white border rounded px-2 py-1 hover:underline"
                     >
-                      {s.filename} • #{s.chunkIndex}
-                    </div>
+                      {s.filename} • {sourceLocation(s)}
+                    </a>
                   ))}
                 </div>
               )}
@@ -15,8 +15,31 @@ type Doc = {
     | "error";
   uploadDate: string;
   chunkCount?: number;
+  blobKey?: string; // set when the original file is stored
+  acl?: { owner: string | null; groups: string[] }; // missing = whole workspace
+  errorMessage?: string;
+  retryHistory?: Array<{
+    at: string;
+    stage: string;
+    action: "requeued" | "gave-up";
+    reason: string;
+  }>;
 };
 
+// Compact indicator of watchdog recoveries; full history in the tooltip
+function RetryHistory({ history }: { history: Doc["retryHistory"] }) {
+  if (!history?.length) return null;
+  const retries = history.filter((h) => h.action === "requeued").length;
+  const title = history
+    .map((h) => `${new Date(h.at).toLocaleString()} · ${h.stage}: ${h.reason}`)
+    .join("\n");
+  return (
+    <span className="text-xs text-orange-700 cursor-help" title={title}>
+      ↻ {retries} {retries === 1 ? "retry" : "retries"}
+    </span>
+  );
+}
+
 // Status badge component with colors
 function StatusBadge({ status }: { status: string }) {
   const getStatusColor = (status: string) => {
@@ -37,8 +60,8 @@ function StatusBadge({ status }: { status: string }) {
   };
 
   const getTooltip = (status: string) => {
-    if (status === "embedding") {
-      return "Embedding pending";
+    if (status === "extracting" || status === "embedding") {
+      return "Queued for background processing";
     }
     return null;
   };
@@ -91,21 +114,23 @@ export default function DocumentsList() {
     }
   }, []);
 
-  // Derive whether we should poll (omit "embedding" until Step 5 is implemented)
+  // Derive whether we should poll (background jobs move documents through
+  // uploading → extracting → embedding without further requests)
   const shouldPoll = useMemo(() => {
     const processingDocs = docs.filter((d) => {
       if (
         d.processingStatus !== "uploading" &&
-        d.processingStatus !== "extracting"
+        d.processingStatus !== "extracting" &&
+        d.processingStatus !== "embedding"
       ) {
         return false;
       }
 
-      // Stop polling if stuck for more than 2 minutes
+      // Stop polling if stuck for more than 10 minutes (jobs retry with backoff)
       const uploadTime = new Date(d.uploadDate).getTime();
-      const twoMinutesAgo = Date.now() - 2 * 60 * 1000;
+      const pollCutoff = Date.now() - 10 * 60 * 1000;
 
-      if (uploadTime < twoMinutesAgo) {
+      if (uploadTime < pollCutoff) {
         console.warn(
           "⚠️ Document stuck in processing, stopping poll:",
           d.filename
@@ -155,6 +180,41 @@ export default function DocumentsList() {
     };
   }, [shouldPoll, load]);
 
+  // Re-run chunking/embedding for one document (or everything when id is omitted)
+  const [reprocessing, setReprocessing] = useState<string | null>(null);
+  const [actionMsg, setActionMsg] = useState<string | null>(null);
+
+  const reprocess = useCallback(
+    async (id?: string) => {
+      setReprocessing(id ?? "all");
+      setActionMsg(null);
+      try {
+        const res = await fetch(
+          id ? `/api/documents/${id}/reprocess` : "/api/documents/reprocess",
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(id ? {} : { all: true }),
+          }
+        );
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Reprocess failed");
+        if (!id) {
+          setActionMsg(
+            `Queued ${data.queued?.length ?? 0} document(s)` +
+              (data.skipped?.length ? `, skipped ${data.skipped.length}` : "")
+          );
+        }
+        await load();
+      } catch (e: unknown) {
+        setActionMsg(e instanceof Error ? e.message : "Reprocess failed");
+      } finally {
+        setReprocessing(null);
+      }
+    },
+    [load]
+  );
+
   // Listen for a custom event to reload after upload without reloading the page
   useEffect(() => {
     console.log("📡 Setting up docs:reload event listener");
@@ -176,12 +236,21 @@ export default function DocumentsList() {
         <button onClick={load} className="px-2 py-1 text-sm border rounded">
           Refresh
         </button>
+        <button
+          onClick={() => reprocess()}
+          disabled={!!reprocessing || !docs.length}
+          className="px-2 py-1 text-sm border rounded"
+          title="Re-chunk and re-embed every completed or failed document"
+        >
+          {reprocessing === "all" ? "Queuing…" : "Reindex all"}
+        </button>
         {loading && <span className="text-sm text-gray-500">Loading…</span>}
         {/* Debug info */}
         <span className="text-xs text-gray-400">
           (Polling: {shouldPoll ? "ON" : "OFF"})
         </span>
       </div>
+      {actionMsg && <p className="text-sm text-gray-700">{actionMsg}</p>}
       <ul className="divide-y border rounded">
         {docs.length === 0 && (
           <li className="p-3 text-gray-500">No documents yet.</li>
@@ -190,15 +259,72 @@ export default function DocumentsList() {
           <li key={d.id} className="p-3 flex items-center justify-between">
             <div className="flex-1">
               <div className="flex items-center gap-2 mb-1">
-                <div className="font-medium">{d.filename}</div>
+                {d.blobKey ? (
+                  <a
+                    href={`/api/documents/${d.id}/file`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="font-medium hover:underline"
+                    title="Open original"
+                  >
+                    {d.filename}
+                  </a>
+                ) : (
+                  <div className="font-medium">{d.filename}</div>
+                )}
                 <StatusBadge status={d.processingStatus} />
+                <RetryHistory history={d.retryHistory} />
+                {d.acl && !d.acl.groups.includes("*") && (
+                  <span
+                    className="text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800"
+                    title={`Owner: ${d.acl.owner ?? "none"}`}
+                  >
+                    🔒 {d.acl.groups.join(", ") || "owner only"}
+                  </span>
+                )}
               </div>
               <div className="text-xs text-gray-500">
                 {d.fileType} · {(d.fileSize / 1024).toFixed(1)} KB ·{" "}
                 {new Date(d.uploadDate).toLocaleString()}
+                {d.blobKey && (
+                  <>
+                    {" · "}
+                    <a
+                      href={`/api/documents/${d.id}/file?download=1`}
+                      className="underline"
+                    >
+                      Download
+                    </a>
+                  </>
+                )}
               </div>
+              {d.processingStatus === "error" && d.errorMessage && (
+                <div className="text-xs text-red-600 mt-1">
+                  {d.errorMessage}
+                </div>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-1">
+              {(d.processingStatus === "completed" ||
+                d.processingStatus === "error") && (
+                <button
+                  onClick={() => reprocess(d.id)}
+                  disabled={!!reprocessing}
+                  className={`px-2 py-1 text-xs border rounded ${
+                    d.processingStatus === "error"
+                      ? "border-red-300 text-red-700"
+                      : ""
+                  }`}
+                >
+                  {reprocessing === d.id
+                    ? "Queuing…"
+                    : d.processingStatus === "error"
+                      ? "Retry"
+                      : "Reprocess"}
+                </button>
+              )}
+              <code className="text-xs text-gray-400">{d.id}</code>
             </div>
-            <code className="text-xs text-gray-400">{d.id}</code>
           </li>
         ))}
       </ul>
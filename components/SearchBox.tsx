@@ -40,6 +40,8 @@ export default function SearchBox() {
   const [res, setRes] = useState<any[]>([]);
   const [busy, setBusy] = useState(false);
   const [err, setErr] = useState<string | null>(null);
+  // vector = meaning, keyword = exact terms (BM25), hybrid = both fused
+  const [mode, setMode] = useState<"vector" | "keyword" | "hybrid">("hybrid");
 
   async function run() {
     const query = q.trim();
@@ -50,7 +52,7 @@ export default function SearchBox() {
       const r = await fetch("/api/search", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ q: query, k: 5 }),
+        body: JSON.stringify({ q: query, k: 5, mode }),
       });
       const data = await r.json();
       if (!r.ok) throw new Error(data?.error || "Search failed");
@@ -73,6 +75,16 @@ export default function SearchBox() {
           placeholder="Search your documents…"
           onKeyDown={(e) => e.key === "Enter" && run()}
         />
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as typeof mode)}
+          className="border rounded px-2 text-sm"
+          title="Retrieval mode"
+        >
+          <option value="hybrid">Hybrid</option>
+          <option value="vector">Vector</option>
+          <option value="keyword">Keyword</option>
+        </select>
         <button onClick={run} className="border px-3 rounded">
           {busy ? "Searching…" : "Search"}
         </button>
@@ -84,7 +96,12 @@ export default function SearchBox() {
         {res.map((m, i) => (
           <li key={i} className="border rounded p-3">
             <div className="text-sm text-gray-600">
-              {m.filename} • score {m.score?.toFixed?.(3)}
+              {m.filename}
+              {m.pageStart !== undefined &&
+                ` • p. ${m.pageStart}${
+                  m.pageEnd !== undefined && m.pageEnd !== m.pageStart ? `–${m.pageEnd}` : ""
+                }`}{" "}
+              • score {m.score?.toFixed?.(3)}
             </div>
             <div className="mt-1 text-sm whitespace-pre-line">
               {" "}
@@ -5,9 +5,15 @@ import { useDropzone } from "react-dropzone";
 
 type Props = { onUploaded?: () => void };
 
+// What /api/upload does with a file whose content is already uploaded
+type DuplicatePolicy = "skip" | "replace" | "keep";
+
 export default function UploadDropzone({ onUploaded }: Props) {
   const [busy, setBusy] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
+  const [onDuplicate, setOnDuplicate] = useState<DuplicatePolicy>("skip");
+  // Tesseract language codes for images, e.g. "eng+deu"; blank = server default
+  const [ocrLanguages, setOcrLanguages] = useState("");
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
@@ -17,15 +23,31 @@ export default function UploadDropzone({ onUploaded }: Props) {
       try {
         const fd = new FormData();
         for (const f of acceptedFiles) fd.append("files", f);
+        fd.append("onDuplicate", onDuplicate);
+        if (ocrLanguages.trim()) fd.append("ocrLanguages", ocrLanguages.trim());
         const res = await fetch("/api/upload", { method: "POST", body: fd });
         const data = await res.json();
+        // e.g. "report.pdf: Content is a PNG image, not PDF"
+        const failures = (data.errors ?? [])
+          .map((e: { filename: string; reason: string }) => `${e.filename}: ${e.reason}`)
+          .join("; ");
         if (!res.ok) {
-          setMsg(data.error || "Upload failed");
+          setMsg([data.error || "Upload failed", failures].filter(Boolean).join(" — "));
         } else {
           const count = data.created?.length ?? 0;
+          const skipped =
+            data.duplicates?.filter(
+              (d: { action: string }) => d.action === "skipped"
+            ).length ?? 0;
+          const replaced =
+            data.duplicates?.filter(
+              (d: { action: string }) => d.action === "replaced"
+            ).length ?? 0;
           setMsg(
             `Uploaded ${count} file(s)` +
-              (data.errors?.length ? `, ${data.errors.length} failed` : "")
+              (skipped ? `, ${skipped} already uploaded (skipped)` : "") +
+              (replaced ? `, ${replaced} replaced` : "") +
+              (data.errors?.length ? `, ${data.errors.length} failed (${failures})` : "")
           );
           onUploaded?.();
         }
@@ -35,20 +57,33 @@ export default function UploadDropzone({ onUploaded }: Props) {
         setBusy(false);
       }
     },
-    [onUploaded]
+    [onUploaded, onDuplicate, ocrLanguages]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     multiple: true,
     maxSize: 10 * 1024 * 1024,
+    // Mirrors the extractor registry (lib/extract.ts), which the server checks
     accept: {
       "application/pdf": [".pdf"],
       "image/svg+xml": [".svg"],
+      "image/png": [".png"],
+      "image/jpeg": [".jpg", ".jpeg"],
       "text/plain": [".txt"],
       "text/csv": [".csv"],
+      "text/markdown": [".md", ".markdown"],
+      "text/html": [".html", ".htm", ".xhtml"],
+      "application/json": [".json", ".ndjson", ".jsonl"],
+      "application/rtf": [".rtf"],
+      "application/epub+zip": [".epub"],
       "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
         [".docx"],
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
+        ".xlsx",
+      ],
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+        [".pptx"],
     },
   });
 
@@ -65,12 +100,33 @@ export default function UploadDropzone({ onUploaded }: Props) {
           Drag & drop files here, or click to select
         </p>
         <p className="text-sm text-gray-500">
-          PDF, SVG, TXT, CSV, DOCX · ≤ 10MB each
-        </p>
-        <p className="text-xs text-orange-600 mt-1">
-          Note: Image OCR temporarily disabled
+          PDF, images, Office (DOCX, XLSX, PPTX), HTML, Markdown, CSV, JSON,
+          EPUB, RTF, TXT · ≤ 10MB each
         </p>
       </div>
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        If a file was already uploaded:
+        <select
+          value={onDuplicate}
+          onChange={(e) => setOnDuplicate(e.target.value as DuplicatePolicy)}
+          className="border rounded px-1 py-0.5"
+          disabled={busy}
+        >
+          <option value="skip">Skip it</option>
+          <option value="replace">Replace the old copy</option>
+          <option value="keep">Keep both</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        OCR language(s) for images:
+        <input
+          value={ocrLanguages}
+          onChange={(e) => setOcrLanguages(e.target.value)}
+          placeholder="eng"
+          className="border rounded px-1 py-0.5 w-28"
+          disabled={busy}
+        />
+      </label>
       {msg && <p className="text-sm text-gray-700">{msg}</p>}
     </div>
   );
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Same cookie middleware.ts reads (WORKSPACE_COOKIE in lib/workspace.ts)
+const COOKIE = "workspace";
+
+const readCookie = () =>
+  decodeURIComponent(
+    document.cookie
+      .split("; ")
+      .find((c) => c.startsWith(`${COOKIE}=`))
+      ?.slice(COOKIE.length + 1) ?? ""
+  );
+
+// Switches the workspace every API call from this browser acts in. The server
+// validates the name (400 if invalid) and whether the signed-in user may use
+// it (403 if not).
+export default function WorkspacePicker() {
+  const [current, setCurrent] = useState("");
+  const [draft, setDraft] = useState("");
+
+  useEffect(() => {
+    const ws = readCookie() || "default";
+    setCurrent(ws);
+    setDraft(ws);
+  }, []);
+
+  const switchTo = (e: React.FormEvent) => {
+    e.preventDefault();
+    const ws = draft.trim().toLowerCase() || "default";
+    document.cookie = `${COOKIE}=${encodeURIComponent(ws)}; path=/; max-age=31536000; samesite=lax`;
+    setCurrent(ws);
+    // Everything on the page belongs to the old workspace
+    window.location.reload();
+  };
+
+  return (
+    <form onSubmit={switchTo} className="flex items-center gap-2 text-sm text-gray-600">
+      Workspace:
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        className="border rounded px-1 py-0.5 w-40"
+        pattern="[a-z0-9][a-z0-9_\-]{0,62}"
+        title="Lowercase letters, digits, - and _"
+      />
+      <button
+        type="submit"
+        className="border rounded px-2 py-0.5"
+        disabled={!draft.trim() || draft.trim() === current}
+      >
+        Switch
+      </button>
+    </form>
+  );
+}
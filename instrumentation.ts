@@ -0,0 +1,10 @@
+// instrumentation.ts
+// Next.js calls register() once per server process. Start the in-process job
+// worker here unless jobs are handled elsewhere (JOB_WORKER=external|off).
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if ((process.env.JOB_WORKER || "inline") !== "inline") return;
+
+  const { startWorker } = await import("./lib/worker");
+  startWorker();
+}
@@ -0,0 +1,112 @@
+// lib/acl.ts
+// Per-document read access inside a workspace. A document's ACL names its
+// owner (the uploader) and the groups that may read it; the group "*" means
+// everyone in the workspace, which is the default. Callers with the admin
+// scope read everything in their workspace.
+//
+// The ACL is copied onto every vector of the document as `aclReaders`, a
+// list of reader tokens:
+//
+//   "*"             everyone in the workspace
+//   "user:<id>"     a signed-in user (local, OIDC or mock)
+//   "key:<id>"      an API key
+//   "group:<name>"  members of a group
+//
+// so search and chat can filter in the vector store and never see chunks the
+// caller may not read. Documents (and vectors) from before ACLs have none and
+// are readable by the whole workspace.
+import { hasScope, principalToken } from "./auth";
+import type { Principal } from "./auth";
+import { vectorIdFor } from "./id";
+import { getVectorStore } from "./vectorstore";
+import type { VectorUpdateResult } from "./vectorstore";
+import type { DocumentAcl, DocumentRecord } from "./types";
+
+export const EVERYONE = "*";
+
+// Like workspace names, plus "." and "@" for names taken from an IdP
+const GROUP = /^[a-z0-9][a-z0-9._@-]{0,62}$/;
+
+export class InvalidAclError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAclError";
+  }
+}
+
+/** A new upload: owned by the uploader, readable by `groups` (default everyone) */
+export const defaultAcl = (p: Principal, groups = [EVERYONE]): DocumentAcl => ({
+  owner: principalToken(p),
+  groups,
+});
+
+export const aclOf = (doc: Pick<DocumentRecord, "acl">): DocumentAcl =>
+  doc.acl ?? { owner: null, groups: [EVERYONE] };
+
+/** The `aclReaders` metadata of the document's vectors */
+export function readersOf(acl: DocumentAcl): string[] {
+  const readers = acl.groups.map((g) => (g === EVERYONE ? EVERYONE : `group:${g}`));
+  if (acl.owner) readers.push(acl.owner);
+  return [...new Set(readers)];
+}
+
+/**
+ * The reader tokens `p` holds, for buildFilter(); undefined for admins, who
+ * need no filter
+ */
+export function readerTokensOf(p: Principal): string[] | undefined {
+  if (hasScope(p, "admin")) return undefined;
+  return [
+    EVERYONE,
+    principalToken(p),
+    ...(p.groups ?? []).map((g) => `group:${g}`),
+  ];
+}
+
+export function canRead(p: Principal, doc: Pick<DocumentRecord, "acl">) {
+  const tokens = readerTokensOf(p);
+  if (!tokens) return true;
+  return readersOf(aclOf(doc)).some((r) => tokens.includes(r));
+}
+
+/** Changing the ACL takes the owner or an admin */
+export function canManage(p: Principal, doc: Pick<DocumentRecord, "acl">) {
+  return hasScope(p, "admin") || aclOf(doc).owner === principalToken(p);
+}
+
+/** Group names from a request: a list, or a comma-separated string */
+export function parseGroups(raw: unknown): string[] {
+  const list = (
+    Array.isArray(raw) ? raw.map(String) : typeof raw === "string" ? raw.split(",") : []
+  )
+    .map((g) => g.trim().toLowerCase())
+    .filter(Boolean);
+  const bad = list.filter((g) => g !== EVERYONE && !GROUP.test(g));
+  if (bad.length) {
+    throw new InvalidAclError(
+      `Invalid group "${bad[0]}" (lowercase letters, digits, ".", "_", "-", "@", or "*" for everyone)`
+    );
+  }
+  return [...new Set(list)];
+}
+
+/** An owner from a request: a principal token, or null for none */
+export function parseOwner(raw: unknown): string | null {
+  if (raw === null) return null;
+  if (typeof raw === "string" && /^(user|key):\S{1,200}$/.test(raw)) return raw;
+  throw new InvalidAclError('owner must be "user:<id>", "key:<id>" or null');
+}
+
+/**
+ * Rewrites `aclReaders` on every vector of the document, after its ACL
+ * changed. Vectors embedded later pick the ACL up from the record.
+ */
+export async function applyAclToVectors(
+  doc: Pick<DocumentRecord, "id" | "workspaceId" | "chunkCount" | "acl">
+): Promise<VectorUpdateResult> {
+  const ids = Array.from({ length: doc.chunkCount ?? 0 }, (_, i) => vectorIdFor(doc.id, i));
+  if (!ids.length) return { updated: 0, failures: [] };
+  return getVectorStore(doc.workspaceId).updateMetadata(ids, {
+    aclReaders: readersOf(aclOf(doc)),
+  });
+}
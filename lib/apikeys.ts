@@ -0,0 +1,116 @@
+// lib/apikeys.ts
+// API keys for scripts and cron jobs. A key looks like "rag_<id>_<secret>" and
+// is shown once, when created; only the SHA-256 of the secret is kept.
+//
+//   apikey:<id>          { id, name, workspaceId, scopes, secretHash, ... }
+//   [ws:<ws>:]apikeys    ids of the workspace's keys
+//
+// A key acts in exactly one workspace with the scopes it was given.
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { getKv } from "./kv";
+import { workspacePrefix } from "./workspace";
+import type { Principal, Scope } from "./auth";
+
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  workspaceId: string;
+  scopes: Scope[];
+  groups?: string[]; // for document ACLs; missing on keys from before them
+  secretHash: string; // hex SHA-256 of the secret part
+  createdAt: string; // ISO
+  createdBy: string; // principal id
+  lastUsedAt?: string; // ISO, updated at most once a minute
+};
+
+// What listing returns: everything but the hash
+export type ApiKeyInfo = Omit<ApiKeyRecord, "secretHash">;
+
+const KEY_KEY = (id: string) => `apikey:${id}`;
+const SET_KEY = (workspaceId: string) => `${workspacePrefix(workspaceId)}apikeys`;
+
+const KEY_FORMAT = /^rag_([a-f0-9]{16})_([A-Za-z0-9_-]{43})$/;
+
+const hashSecret = (secret: string) =>
+  createHash("sha256").update(secret).digest("hex");
+
+const info = (record: ApiKeyRecord): ApiKeyInfo => {
+  const copy: Partial<ApiKeyRecord> = { ...record };
+  delete copy.secretHash;
+  return copy as ApiKeyInfo;
+};
+
+/** Creates a key; `key` is the only copy of the full token */
+export async function createApiKey(opts: {
+  name: string;
+  workspaceId: string;
+  scopes: Scope[];
+  groups: string[];
+  createdBy: string;
+}): Promise<{ key: string; info: ApiKeyInfo }> {
+  const id = randomBytes(8).toString("hex");
+  const secret = randomBytes(32).toString("base64url");
+  const record: ApiKeyRecord = {
+    id,
+    name: opts.name,
+    workspaceId: opts.workspaceId,
+    scopes: opts.scopes,
+    groups: opts.groups,
+    secretHash: hashSecret(secret),
+    createdAt: new Date().toISOString(),
+    createdBy: opts.createdBy,
+  };
+  const kv = getKv();
+  await kv.set(KEY_KEY(id), record);
+  await kv.sadd(SET_KEY(opts.workspaceId), id);
+  return { key: `rag_${id}_${secret}`, info: info(record) };
+}
+
+export async function listApiKeys(workspaceId: string): Promise<ApiKeyInfo[]> {
+  const kv = getKv();
+  const ids = await kv.smembers(SET_KEY(workspaceId));
+  const records = await Promise.all(ids.map((id) => kv.get<ApiKeyRecord>(KEY_KEY(id))));
+  return records
+    .filter((r): r is ApiKeyRecord => !!r)
+    .map(info)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Deletes a key of the workspace; false if it has no such key */
+export async function revokeApiKey(workspaceId: string, id: string) {
+  const kv = getKv();
+  const record = await kv.get<ApiKeyRecord>(KEY_KEY(id));
+  if (!record || record.workspaceId !== workspaceId) return false;
+  await kv.del(KEY_KEY(id));
+  await kv.srem(SET_KEY(workspaceId), id);
+  return true;
+}
+
+/** The principal a key stands for, or null if it is malformed or unknown */
+export async function verifyApiKey(key: string): Promise<Principal | null> {
+  const m = KEY_FORMAT.exec(key);
+  if (!m) return null;
+  const [, id, secret] = m;
+
+  const kv = getKv();
+  const record = await kv.get<ApiKeyRecord>(KEY_KEY(id));
+  if (!record) return null;
+  const expected = Buffer.from(record.secretHash, "hex");
+  const given = Buffer.from(hashSecret(secret), "hex");
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return null;
+  }
+
+  if (!record.lastUsedAt || Date.now() - Date.parse(record.lastUsedAt) > 60_000) {
+    await kv.set(KEY_KEY(id), { ...record, lastUsedAt: new Date().toISOString() });
+  }
+  return {
+    type: "apiKey",
+    id,
+    name: record.name,
+    provider: "apikey",
+    scopes: record.scopes,
+    workspaces: [record.workspaceId],
+    groups: record.groups ?? [],
+  };
+}
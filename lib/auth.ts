@@ -0,0 +1,216 @@
+// lib/auth.ts
+// Who is calling, and what they may do. middleware.ts authenticates every
+// request (an API key, else the session cookie), checks the scope the route
+// needs and passes the caller on to the route in the X-Auth-Principal header.
+//
+//   AUTH_SECRET         signs session cookies (required in production)
+//   AUTH_SESSION_HOURS  session lifetime (default 12)
+//
+// Scopes are ordered: admin includes write, write includes read.
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { verifyApiKey } from "./apikeys";
+
+export type Scope = "read" | "write" | "admin";
+export const SCOPES: Scope[] = ["read", "write", "admin"];
+
+// In Principal.workspaces: every workspace (the bootstrap admin)
+export const ALL_WORKSPACES = "*";
+
+export type Principal = {
+  type: "user" | "apiKey";
+  id: string; // username, OIDC subject or API key id
+  name: string;
+  provider: string; // local | oidc | mock | apikey
+  scopes: Scope[];
+  workspaces: string[]; // the first is where requests go by default
+  groups: string[]; // for document ACLs (lib/acl.ts)
+};
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export function hasScope(p: Pick<Principal, "scopes">, needed: Scope) {
+  const rank = SCOPES.indexOf(needed);
+  return p.scopes.some((s) => SCOPES.indexOf(s) >= rank);
+}
+
+/** "read,write" or ["read"] -> scopes; throws AuthError on unknown ones */
+export function parseScopes(raw: string | string[]): Scope[] {
+  const list = (Array.isArray(raw) ? raw : raw.split(","))
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const bad = list.filter((s) => !SCOPES.includes(s as Scope));
+  if (bad.length || !list.length) {
+    throw new AuthError(`Invalid scopes "${list.join(",")}" (use ${SCOPES.join(", ")})`);
+  }
+  return [...new Set(list as Scope[])];
+}
+
+export function canUseWorkspace(p: Principal, workspaceId: string) {
+  return p.workspaces.includes(ALL_WORKSPACES) || p.workspaces.includes(workspaceId);
+}
+
+/** "user:<id>" or "key:<id>": names `p` in ACLs, rate limits and usage */
+export const principalToken = (p: Pick<Principal, "type" | "id">) =>
+  `${p.type === "apiKey" ? "key" : "user"}:${p.id}`;
+
+/** Accounts span workspaces, so only admins of every workspace manage them */
+export const canManageUsers = (p: Principal) =>
+  hasScope(p, "admin") && p.workspaces.includes(ALL_WORKSPACES);
+
+/** Where a principal's requests go when they don't pick a workspace */
+export const homeWorkspace = (p: Principal) =>
+  p.workspaces.find((w) => w !== ALL_WORKSPACES);
+
+// ---- signed values (session and SSO state cookies) --------------------------
+
+const g = globalThis as typeof globalThis & { __authSecret?: Buffer };
+
+function secret(): Buffer {
+  if (process.env.AUTH_SECRET) return Buffer.from(process.env.AUTH_SECRET);
+  if (process.env.NODE_ENV === "production") {
+    throw new AuthError("AUTH_SECRET must be set in production");
+  }
+  // Development: sessions last until the server restarts
+  if (!g.__authSecret) {
+    console.warn("⚠️ AUTH_SECRET is not set; using a random per-process secret");
+    g.__authSecret = randomBytes(32);
+  }
+  return g.__authSecret;
+}
+
+const mac = (payload: string) =>
+  createHmac("sha256", secret()).update(payload).digest("base64url");
+
+/** `value` as JSON, base64url-encoded and HMAC-signed, expiring after `ttlSeconds` */
+export function sign(value: unknown, ttlSeconds: number): string {
+  const payload = Buffer.from(
+    JSON.stringify({ v: value, exp: Date.now() + ttlSeconds * 1000 })
+  ).toString("base64url");
+  return `${payload}.${mac(payload)}`;
+}
+
+/** The value passed to sign(), or null if tampered with or expired */
+export function unsign<T>(token: string | undefined): T | null {
+  const [payload, sig] = (token ?? "").split(".");
+  if (!payload || !sig) return null;
+  const expected = Buffer.from(mac(payload));
+  const given = Buffer.from(sig);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return null;
+  }
+  try {
+    const { v, exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return typeof exp === "number" && exp > Date.now() ? (v as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+// ---- sessions -----------------------------------------------------------------
+
+export const SESSION_COOKIE = "session";
+
+export const sessionSeconds = () =>
+  (Number(process.env.AUTH_SESSION_HOURS) || 12) * 60 * 60;
+
+/** Cookie attributes for the session (or another auth cookie) */
+export const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge,
+});
+
+/**
+ * A signed session for `principal`. Sessions are stateless: they stay valid
+ * until they expire, even if the user is deleted meanwhile.
+ */
+export const createSession = (principal: Principal) =>
+  sign(principal, sessionSeconds());
+
+// ---- requests -----------------------------------------------------------------
+
+export const PRINCIPAL_HEADER = "x-auth-principal";
+
+// API key from "Authorization: Bearer <key>" or "X-Api-Key: <key>"
+const bearer = (req: Request) => {
+  const auth = req.headers.get("authorization");
+  if (auth?.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim();
+  return req.headers.get("x-api-key")?.trim() || undefined;
+};
+
+const cookie = (req: Request, name: string) =>
+  req.headers
+    .get("cookie")
+    ?.split(/;\s*/)
+    .find((c) => c.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
+
+/**
+ * The caller of a request: an API key (Authorization: Bearer or X-Api-Key),
+ * else the session cookie; null when neither is present. A key that is
+ * present but invalid throws AuthError instead of falling back to the cookie.
+ */
+export async function authenticate(req: Request): Promise<Principal | null> {
+  const key = bearer(req);
+  if (key) {
+    const principal = await verifyApiKey(key);
+    if (!principal) throw new AuthError("Invalid or revoked API key");
+    return principal;
+  }
+  return unsign<Principal>(cookie(req, SESSION_COOKIE));
+}
+
+export const encodePrincipal = (p: Principal) =>
+  Buffer.from(JSON.stringify(p)).toString("base64url");
+
+/**
+ * The authenticated caller of a route, as passed on by middleware.ts.
+ * Throws AuthError on public routes called anonymously.
+ */
+export function principalOf(req: Request): Principal {
+  const header = req.headers.get(PRINCIPAL_HEADER);
+  if (!header) throw new AuthError("Authentication required");
+  return JSON.parse(Buffer.from(header, "base64url").toString()) as Principal;
+}
+
+// ---- route policy ---------------------------------------------------------------
+
+export type Access = Scope | "public";
+
+// First match wins; anything not listed needs admin
+const RULES: Array<{ method: string; path: RegExp; access: Access }> = [
+  { method: "*", path: /^\/api\/auth\/(login|logout|session|sso\/[^/]+)$/, access: "public" },
+  { method: "GET", path: /^\/api\/health$/, access: "public" },
+
+  { method: "GET", path: /^\/api\/documents(\/[^/]+(\/file)?)?$/, access: "read" },
+  { method: "POST", path: /^\/api\/(search|chat)$/, access: "read" },
+  { method: "GET", path: /^\/api\/jobs$/, access: "read" },
+  { method: "GET", path: /^\/api\/vectors\/reconcile$/, access: "read" },
+  { method: "GET", path: /^\/api\/usage$/, access: "read" },
+
+  { method: "POST", path: /^\/api\/upload$/, access: "write" },
+  { method: "DELETE", path: /^\/api\/documents\/[^/]+$/, access: "write" },
+  // Only the owner or an admin; the route checks which
+  { method: "PATCH", path: /^\/api\/documents\/[^/]+$/, access: "write" },
+  { method: "POST", path: /^\/api\/documents\/reprocess$/, access: "admin" },
+  { method: "POST", path: /^\/api\/documents\/[^/]+\/reprocess$/, access: "write" },
+  // One document needs write; the bulk mode (no documentId) checks admin itself
+  { method: "POST", path: /^\/api\/embedding\/create$/, access: "write" },
+  { method: "POST", path: /^\/api\/jobs\/[^/]+\/retry$/, access: "write" },
+];
+
+/** What a request to `pathname` needs; unknown routes default to admin */
+export function requiredAccess(method: string, pathname: string): Access {
+  const m = method === "HEAD" ? "GET" : method;
+  const rule = RULES.find(
+    (r) => (r.method === "*" || r.method === m) && r.path.test(pathname)
+  );
+  return rule?.access ?? "admin";
+}
@@ -0,0 +1,172 @@
+// lib/blobs.ts
+// Storage for original uploaded files, so they can be re-extracted,
+// downloaded and previewed later.
+//
+//   BLOB_STORE = local | s3               (default local)
+//   BLOB_DIR   = .data/blobs              (local backend)
+//   S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY,
+//   S3_FORCE_PATH_STYLE=true             (s3 backend; endpoint for MinIO/R2/etc.)
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+// Inclusive byte range, as in an HTTP Range header
+export type ByteRange = { start: number; end: number };
+
+export interface BlobStore {
+  readonly backend: string;
+  put(key: string, data: Buffer, opts?: { contentType?: string }): Promise<void>;
+  /** Whole blob, or just `range`; null when the key doesn't exist */
+  get(key: string, range?: ByteRange): Promise<Buffer | null>;
+  head(key: string): Promise<{ size: number } | null>;
+  delete(key: string): Promise<void>;
+}
+
+export const sha256 = (buf: Buffer) =>
+  createHash("sha256").update(buf).digest("hex");
+
+/** Key for a document's original file: <documentId>/<sha256> */
+export const originalKey = (documentId: string, hash: string) =>
+  `${documentId}/${hash}`;
+
+function localBlobStore(dir: string): BlobStore {
+  // Keys are ours (doc id + hex hash), but never let one escape the directory
+  const fileFor = (key: string) => {
+    const file = path.resolve(dir, key);
+    if (!file.startsWith(path.resolve(dir) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    backend: "local",
+
+    async put(key, data) {
+      const file = fileFor(key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, data);
+    },
+
+    async get(key, range) {
+      const file = fileFor(key);
+      if (!fs.existsSync(file)) return null;
+      if (!range) return fs.promises.readFile(file);
+
+      const fh = await fs.promises.open(file, "r");
+      try {
+        const buf = Buffer.alloc(range.end - range.start + 1);
+        const { bytesRead } = await fh.read(buf, 0, buf.length, range.start);
+        return buf.subarray(0, bytesRead);
+      } finally {
+        await fh.close();
+      }
+    },
+
+    async head(key) {
+      const file = fileFor(key);
+      if (!fs.existsSync(file)) return null;
+      return { size: (await fs.promises.stat(file)).size };
+    },
+
+    async delete(key) {
+      await fs.promises.rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+function s3BlobStore(): BlobStore {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) throw new Error("BLOB_STORE=s3 needs S3_BUCKET");
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    credentials: process.env.S3_ACCESS_KEY_ID
+      ? {
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+        }
+      : undefined, // fall back to the SDK's default credential chain
+  });
+
+  const isNotFound = (e: unknown) => {
+    const err = e as { name?: string; $metadata?: { httpStatusCode?: number } };
+    return err?.name === "NoSuchKey" || err?.name === "NotFound" ||
+      err?.$metadata?.httpStatusCode === 404;
+  };
+
+  return {
+    backend: "s3",
+
+    async put(key, data, opts = {}) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: data,
+          ContentType: opts.contentType,
+        })
+      );
+    },
+
+    async get(key, range) {
+      try {
+        const res = await client.send(
+          new GetObjectCommand({
+            Bucket: bucket,
+            Key: key,
+            Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+          })
+        );
+        if (!res.Body) return null;
+        return Buffer.from(await res.Body.transformToByteArray());
+      } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+      }
+    },
+
+    async head(key) {
+      try {
+        const res = await client.send(
+          new HeadObjectCommand({ Bucket: bucket, Key: key })
+        );
+        return { size: res.ContentLength ?? 0 };
+      } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
+
+const g = globalThis as typeof globalThis & { __blobs?: BlobStore };
+
+export function getBlobStore(): BlobStore {
+  if (!g.__blobs) {
+    const backend = process.env.BLOB_STORE || "local";
+    if (backend === "local") {
+      g.__blobs = localBlobStore(
+        process.env.BLOB_DIR || path.join(".data", "blobs")
+      );
+    } else if (backend === "s3") {
+      g.__blobs = s3BlobStore();
+    } else {
+      throw new Error(`Unknown BLOB_STORE "${backend}" (use local or s3)`);
+    }
+  }
+  return g.__blobs;
+}
@@ -0,0 +1,178 @@
+// lib/bm25.ts
+// Lexical (BM25) index over chunk text, kept in the KV store next to the
+// document records. Embeddings blur exact tokens such as part numbers, ids
+// and names; this index matches them literally.
+//
+//   bm25:term:<term>   hash  vectorId -> "<tf>:<chunk length>"   (postings)
+//   bm25:doc:<docId>   hash  chunkIndex -> { terms, len }       (for removal)
+//   bm25:stats         hash  chunks, tokens                     (idf / avgdl)
+//
+// Each workspace has its own index (keys prefixed "ws:<id>:", see
+// lib/workspace.ts), so scores and hits never mix documents across them.
+// Written by embedDocument and removed by removeDocument, so it follows
+// uploads, reindexing and deletes.
+import { getKv } from "./kv";
+import { documentIdOfVector, vectorIdFor } from "./id";
+import { workspacePrefix } from "./workspace";
+import type { DocumentRef } from "./types";
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const MAX_TERM_LENGTH = 64;
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have in is it of on or that the this to was were will with".split(
+    " "
+  )
+);
+
+const keysFor = (workspaceId: string) => {
+  const prefix = workspacePrefix(workspaceId);
+  return {
+    TERM_KEY: (term: string) => `${prefix}bm25:term:${term}`,
+    DOC_KEY: (documentId: string) => `${prefix}bm25:doc:${documentId}`,
+    STATS_KEY: `${prefix}bm25:stats`,
+  };
+};
+
+/**
+ * Lowercased terms of `text`. Tokens joined by - _ . / : # are kept whole and
+ * also split, so "AB-1234" matches both "ab-1234" and "1234".
+ */
+export function tokenize(text: string): string[] {
+  const out: string[] = [];
+  const tokens =
+    text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_./:#][\p{L}\p{N}]+)*/gu) || [];
+  for (const tok of tokens) {
+    const parts = tok.split(/[-_./:#]/);
+    if (parts.length > 1 && tok.length <= MAX_TERM_LENGTH) out.push(tok);
+    for (const p of parts) {
+      if (p.length <= MAX_TERM_LENGTH && !STOPWORDS.has(p)) out.push(p);
+    }
+  }
+  return out;
+}
+
+type IndexedChunk = { terms: string[]; len: number };
+
+// Redis hands JSON-looking values back already parsed
+const parseChunk = (v: unknown): IndexedChunk =>
+  typeof v === "string" ? JSON.parse(v) : (v as IndexedChunk);
+
+/** Drops every chunk of a document from its workspace's index */
+export async function removeFromKeywordIndex(doc: DocumentRef) {
+  const { TERM_KEY, DOC_KEY, STATS_KEY } = keysFor(doc.workspaceId);
+  const documentId = doc.id;
+  const kv = getKv();
+  const indexed = await kv.hgetall<Record<string, unknown>>(DOC_KEY(documentId));
+  if (!indexed) return;
+
+  const byTerm = new Map<string, string[]>();
+  let tokens = 0;
+  const chunkIndexes = Object.keys(indexed);
+  for (const chunkIndex of chunkIndexes) {
+    const { terms, len } = parseChunk(indexed[chunkIndex]);
+    const id = vectorIdFor(documentId, Number(chunkIndex));
+    for (const t of terms) {
+      const ids = byTerm.get(t);
+      if (ids) ids.push(id);
+      else byTerm.set(t, [id]);
+    }
+    tokens += len;
+  }
+
+  await kv.hdelMany(
+    [...byTerm].map(([term, ids]): [string, string[]] => [TERM_KEY(term), ids])
+  );
+  await kv.del(DOC_KEY(documentId));
+  await kv.hincrby(STATS_KEY, "chunks", -chunkIndexes.length);
+  await kv.hincrby(STATS_KEY, "tokens", -tokens);
+}
+
+/** (Re)indexes a document's chunks, replacing whatever was indexed before */
+export async function indexForKeywords(
+  doc: DocumentRef,
+  chunks: Array<{ chunkIndex: number; content: string }>
+) {
+  await removeFromKeywordIndex(doc);
+  if (!chunks.length) return;
+
+  const { TERM_KEY, DOC_KEY, STATS_KEY } = keysFor(doc.workspaceId);
+  const documentId = doc.id;
+  const postings = new Map<string, Record<string, string>>();
+  const indexed: Record<string, string> = {};
+  let tokens = 0;
+  for (const c of chunks) {
+    const terms = tokenize(c.content);
+    const tf = new Map<string, number>();
+    for (const t of terms) tf.set(t, (tf.get(t) ?? 0) + 1);
+
+    const id = vectorIdFor(documentId, c.chunkIndex);
+    for (const [term, n] of tf) {
+      const fields = postings.get(term) ?? {};
+      fields[id] = `${n}:${terms.length}`;
+      postings.set(term, fields);
+    }
+    indexed[String(c.chunkIndex)] = JSON.stringify({
+      terms: [...tf.keys()],
+      len: terms.length,
+    });
+    tokens += terms.length;
+  }
+
+  const kv = getKv();
+  await kv.hsetMany(
+    [...postings].map(([term, fields]): [string, Record<string, string>] => [
+      TERM_KEY(term),
+      fields,
+    ])
+  );
+  await kv.hset(DOC_KEY(documentId), indexed);
+  await kv.hincrby(STATS_KEY, "chunks", chunks.length);
+  await kv.hincrby(STATS_KEY, "tokens", tokens);
+}
+
+export type KeywordHit = { id: string; score: number };
+
+/**
+ * BM25-scores every chunk in the workspace's index containing a query term
+ * and returns the best `topK` vector ids (every match, best first, without
+ * `topK`). `documentIds` restricts the hits to those documents.
+ */
+export async function keywordSearch(
+  query: string,
+  opts: { workspaceId: string; topK?: number; documentIds?: string[] }
+): Promise<KeywordHit[]> {
+  const terms = [...new Set(tokenize(query))];
+  if (!terms.length) return [];
+
+  const { TERM_KEY, STATS_KEY } = keysFor(opts.workspaceId);
+  const [stats, ...postings] = await getKv().hgetallMany<
+    Record<string, unknown>
+  >([STATS_KEY, ...terms.map(TERM_KEY)]);
+  const n = Number(stats?.chunks) || 0;
+  if (!n) return [];
+  const avgLen = Number(stats?.tokens) / n || 1;
+  const onlyDocs = opts.documentIds?.length ? new Set(opts.documentIds) : null;
+
+  const scores = new Map<string, number>();
+  postings.forEach((p) => {
+    if (!p) return;
+    const entries = Object.entries(p);
+    const df = entries.length;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    for (const [id, v] of entries) {
+      if (onlyDocs && !onlyDocs.has(documentIdOfVector(id))) continue;
+      const [tf, len] = String(v).split(":").map(Number);
+      const s = (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * len) / avgLen));
+      scores.set(id, (scores.get(id) ?? 0) + s);
+    }
+  });
+
+  return [...scores]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, opts.topK)
+    .map(([id, score]) => ({ id, score }));
+}
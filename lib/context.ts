@@ -0,0 +1,166 @@
+// lib/context.ts
+// Turns retrieved chunks into the numbered excerpts the chat model sees.
+// Chunks of the same document with consecutive indexes become one passage
+// (the chunker overlaps neighbours, so the repeated text is cut), and
+// passages are added whole, best first, until the token budget is spent.
+import { countTokens, truncateToTokens } from "./tokens";
+import type { RetrievedChunk } from "./retrieve";
+
+export type Passage = {
+  documentId: string;
+  filename: string;
+  chunkIndexes: number[]; // consecutive, ascending
+  text: string;
+  score: number; // best retrieval score among its chunks
+  rerankScore?: number; // best rerank score among its chunks
+  pageStart?: number; // PDF pages the passage spans, when its chunks know them
+  pageEnd?: number;
+  hit: RetrievedChunk; // its best-ranked chunk
+};
+
+export type PackedPassage = Passage & {
+  idx: number; // citation number, [idx]
+  tokens: number;
+  truncated: boolean;
+};
+
+// Overlaps shorter than this are more likely coincidence than chunk overlap
+const MIN_OVERLAP_CHARS = 20;
+// The chunker overlaps ~100 tokens; look a little further to be safe
+const MAX_OVERLAP_CHARS = 2000;
+
+/** `next` without the leading text it repeats from the end of `prev` */
+export function withoutOverlap(prev: string, next: string) {
+  const max = Math.min(prev.length, next.length, MAX_OVERLAP_CHARS);
+  for (let n = max; n >= MIN_OVERLAP_CHARS; n--) {
+    if (prev.endsWith(next.slice(0, n))) return next.slice(n).trimStart();
+  }
+  return next;
+}
+
+/**
+ * Groups chunks into passages: per document, runs of consecutive chunk
+ * indexes (retrieved or added by expandNeighbours) are joined. Passages keep
+ * the rank of their best chunk.
+ */
+export function toPassages(matches: RetrievedChunk[]): Passage[] {
+  const byDoc = new Map<string, Array<{ m: RetrievedChunk; rank: number }>>();
+  matches.forEach((m, rank) => {
+    const list = byDoc.get(m.metadata.documentId) ?? [];
+    // The same chunk can only appear once
+    if (!list.some((x) => x.m.metadata.chunkIndex === m.metadata.chunkIndex)) {
+      list.push({ m, rank });
+    }
+    byDoc.set(m.metadata.documentId, list);
+  });
+
+  const ranked: Array<{ passage: Passage; rank: number }> = [];
+  for (const list of byDoc.values()) {
+    list.sort((a, b) => a.m.metadata.chunkIndex - b.m.metadata.chunkIndex);
+
+    let run: typeof list = [];
+    const flush = () => {
+      if (!run.length) return;
+      const first = run[0].m.metadata;
+      let text = run[0].m.metadata.content || "";
+      for (let i = 1; i < run.length; i++) {
+        const prev = run[i - 1].m.metadata.content || "";
+        const next = run[i].m.metadata.content || "";
+        const rest = withoutOverlap(prev, next);
+        // A cut just before a full stop leaves the punctuation on the next chunk
+        text += /^[.,;:!?)]/.test(rest) ? rest : "\n" + rest;
+      }
+      const reranked = run.filter((x) => x.m.rerankScore !== undefined);
+      const pages = run.flatMap((x) =>
+        [x.m.metadata.pageStart, x.m.metadata.pageEnd].filter(
+          (n): n is number => typeof n === "number"
+        )
+      );
+      const best = run.reduce((a, b) => (b.rank < a.rank ? b : a));
+      ranked.push({
+        rank: best.rank,
+        passage: {
+          documentId: first.documentId,
+          filename: first.filename,
+          chunkIndexes: run.map((x) => x.m.metadata.chunkIndex),
+          text,
+          score: Math.max(...run.map((x) => x.m.score)),
+          rerankScore: reranked.length
+            ? Math.max(...reranked.map((x) => x.m.rerankScore ?? 0))
+            : undefined,
+          pageStart: pages.length ? Math.min(...pages) : undefined,
+          pageEnd: pages.length ? Math.max(...pages) : undefined,
+          hit: best.m,
+        },
+      });
+      run = [];
+    };
+
+    for (const x of list) {
+      const last = run[run.length - 1];
+      if (last && x.m.metadata.chunkIndex !== last.m.metadata.chunkIndex + 1) {
+        flush();
+      }
+      run.push(x);
+    }
+    flush();
+  }
+
+  return ranked.sort((a, b) => a.rank - b.rank).map((r) => r.passage);
+}
+
+/** "chunk 3" or "chunks 3–5" */
+export const chunkLabel = (indexes: number[]) =>
+  indexes.length > 1
+    ? `chunks ${indexes[0]}–${indexes[indexes.length - 1]}`
+    : `chunk ${indexes[0]}`;
+
+/** "p. 41" or "p. 41–42"; undefined when the pages aren't known */
+export function pageLabel(start?: number, end?: number) {
+  if (start === undefined) return undefined;
+  return end !== undefined && end !== start ? `p. ${start}–${end}` : `p. ${start}`;
+}
+
+/**
+ * Adds passages in order while they fit in `budgetTokens`. A passage that
+ * doesn't fit is skipped so a smaller one further down can still be used;
+ * only when nothing fits is the best passage cut down to the budget.
+ */
+export function packPassages(
+  passages: Passage[],
+  budgetTokens: number,
+  model: string
+): { packed: PackedPassage[]; context: string; tokens: number } {
+  const packed: PackedPassage[] = [];
+  const lines: string[] = [];
+  let used = 0;
+
+  const format = (idx: number, p: Passage, text: string) =>
+    `[${idx}] ${p.filename} (${
+      pageLabel(p.pageStart, p.pageEnd) ?? chunkLabel(p.chunkIndexes)
+    }): ${text}`;
+
+  for (const p of passages) {
+    const idx = packed.length + 1;
+    const line = format(idx, p, p.text);
+    // +1 for the blank line between excerpts
+    const tokens = countTokens(line, model) + 1;
+    if (used + tokens > budgetTokens) continue;
+    packed.push({ ...p, idx, tokens, truncated: false });
+    lines.push(line);
+    used += tokens;
+  }
+
+  if (!packed.length && passages.length && budgetTokens > 0) {
+    const p = passages[0];
+    const header = countTokens(format(1, p, ""), model) + 1;
+    const text = truncateToTokens(p.text, Math.max(0, budgetTokens - header), model);
+    const line = format(1, p, text);
+    const tokens = countTokens(line, model) + 1;
+    packed.push({ ...p, text, idx: 1, tokens, truncated: true });
+    lines.push(line);
+    used = tokens;
+  }
+
+  return { packed, context: lines.join("\n\n"), tokens: used };
+}
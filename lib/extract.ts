@@ -1,23 +1,74 @@
-// Import third-party libraries for different file processing needs
-import pdfParse from "pdf-parse"; // Library to extract text from PDF files
-// import Tesseract from "tesseract.js"; // OCR (Optical Character Recognition) engine for images - temporarily disabled
-import Papa from "papaparse"; // CSV parsing library that handles edge cases well
-import mammoth from "mammoth"; // Microsoft Word document (.docx) text extractor
-
-// Define the types of files this utility can process
-// This union type ensures type safety - only these values are allowed
-export type ExtractKind = "pdf" | "image" | "svg" | "csv" | "docx" | "txt";
-
-// Define the structure of what gets returned after text extraction
-export type ExtractResult = {
-  text: string; // The extracted text content
-  meta: {
-    // Metadata about the extraction process
-    extractedAt: string; // ISO timestamp of when extraction occurred
-    pages?: number; // Optional: number of pages (only for PDFs)
-    kind: ExtractKind; // What type of file was processed
-  };
-};
+// lib/extract.ts
+// Text extraction. Each file format is handled by an Extractor (see
+// lib/extractors/) that declares the MIME types and extensions it handles,
+// how its text is laid out (which picks the chunking strategy) and the
+// metadata it produces. lib/validate.ts builds the upload allow-lists from
+// this registry, so registering an extractor is all a new format needs.
+import { pdfExtractor } from "./extractors/pdf";
+import { imageExtractor } from "./extractors/image";
+import { svgExtractor } from "./extractors/svg";
+import { csvExtractor } from "./extractors/csv";
+import { docxExtractor } from "./extractors/docx";
+import { markdownExtractor, textExtractor } from "./extractors/text";
+import { htmlExtractor } from "./extractors/html";
+import { jsonExtractor } from "./extractors/json";
+import { xlsxExtractor } from "./extractors/xlsx";
+import { pptxExtractor } from "./extractors/pptx";
+import { epubExtractor } from "./extractors/epub";
+import { rtfExtractor } from "./extractors/rtf";
+import type {
+  ExtractKind,
+  ExtractOptions,
+  ExtractResult,
+  Extractor,
+} from "./extractors/types";
+
+export { PAGE_BREAK } from "./extractors/types";
+export type {
+  ExtractKind,
+  ExtractMeta,
+  ExtractMetaField,
+  ExtractOptions,
+  ExtractResult,
+  Extractor,
+  OcrMeta,
+  TextLayout,
+} from "./extractors/types";
+
+// Registered extractors; "txt" is also the fallback for unknown files
+const registry = new Map<ExtractKind, Extractor>();
+
+/**
+ * Adds an extractor, replacing any registered for the same kind. Its MIME
+ * types and extensions take precedence over earlier registrations.
+ */
+export function registerExtractor(extractor: Extractor) {
+  registry.delete(extractor.kind);
+  registry.set(extractor.kind, extractor);
+}
+
+[
+  pdfExtractor,
+  imageExtractor,
+  svgExtractor,
+  csvExtractor,
+  docxExtractor,
+  markdownExtractor,
+  htmlExtractor,
+  jsonExtractor,
+  xlsxExtractor,
+  pptxExtractor,
+  epubExtractor,
+  rtfExtractor,
+  textExtractor,
+].forEach(registerExtractor);
+
+export const listExtractors = (): Extractor[] => [...registry.values()];
+
+/** The extractor for `kind`, falling back to plain text */
+export function getExtractor(kind: ExtractKind): Extractor {
+  return registry.get(kind) ?? textExtractor;
+}
 
 /**
  * Converts a browser File object to a Node.js Buffer
@@ -60,7 +111,9 @@ function extOf(name: string): string {
  * WHY: Different file types need different processing approaches.
  * PDFs need PDF parsers, images need OCR, etc.
  *
- * STRATEGY: Check MIME type first (more reliable), fall back to file extension
+ * STRATEGY: The extension decides when an extractor claims it (browsers
+ * send generic MIME types like text/plain or application/octet-stream for
+ * .md, .json or .xlsx); otherwise the MIME type; otherwise plain text.
  *
  * MIME TYPES EXPLAINED:
  * - MIME types are standardized identifiers for file formats
@@ -69,133 +122,54 @@ function extOf(name: string): string {
  */
 export function detectKind(mime: string, filename: string): ExtractKind {
   const ext = extOf(filename);
+  // Parameters such as "; charset=utf-8" don't change the format
+  const type = mime.split(";")[0].trim().toLowerCase();
+  const extractors = listExtractors().reverse(); // latest registration wins
 
-  // PDF files: Standard document format that preserves formatting
-  if (mime === "application/pdf" || ext === "pdf") return "pdf";
-
-  // Image files: Photos, screenshots, scanned documents
-  // Note: SVG is technically an image but handled separately (it's XML-based)
-  if (mime.startsWith("image/") && ext !== "svg") return "image";
-
-  // SVG files: Scalable Vector Graphics - XML-based, may contain text elements
-  if (mime === "image/svg+xml" || ext === "svg") return "svg";
+  const byExt = ext && extractors.find((x) => x.extensions.includes(ext));
+  if (byExt) return byExt.kind;
 
-  // CSV files: Comma-Separated Values - structured tabular data
-  if (mime === "text/csv" || ext === "csv") return "csv";
-
-  // DOCX files: Modern Microsoft Word documents (XML-based format)
-  // Long MIME type is the official identifier for .docx files
-  if (
-    mime ===
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-    ext === "docx"
-  )
-    return "docx";
-
-  // Plain text files: Simple unformatted text
-  if (mime === "text/plain" || ext === "txt") return "txt";
+  const byMime = type && extractors.find((x) => x.mimeTypes.includes(type));
+  if (byMime) return byMime.kind;
 
   // Default fallback: treat unknown files as plain text
   // This is safe because worst case, we just convert bytes to string
   return "txt";
 }
 
+// Longest text kept from one document (about 500k tokens); anything past it
+// would only add embedding cost. Set MAX_EXTRACTED_CHARS to change.
+const maxExtractedChars = () =>
+  Number(process.env.MAX_EXTRACTED_CHARS) || 2_000_000;
+
 /**
- * Main extraction function - processes file buffer based on detected type
+ * Main extraction function - runs the extractor registered for `kind`
  *
  * WHY: Each file format has different internal structure and requires
  * specialized libraries/techniques to extract readable text.
  */
 export async function extractFromBuffer(
   buf: Buffer,
-  kind: ExtractKind
+  kind: ExtractKind,
+  opts: ExtractOptions = {}
 ): Promise<ExtractResult> {
   // Generate timestamp for when extraction occurred
   // ISO format: "2024-01-15T10:30:45.123Z" - standardized, sortable
   const extractedAt = new Date().toISOString();
 
-  // PDF PROCESSING
-  if (kind === "pdf") {
-    // PDFs contain compressed text, fonts, images in binary format
-    // pdf-parse library handles decompression and text extraction
-    const res = await pdfParse(buf);
-    return {
-      // res.text contains all extracted text from all pages
-      text: (res.text || "").trim(), // Remove leading/trailing whitespace
-      meta: {
-        extractedAt,
-        pages: res.numpages, // PDF-specific: include page count
-        kind,
-      },
-    };
-  }
-
-  // IMAGE PROCESSING (OCR - Optical Character Recognition)
-  if (kind === "image") {
-    // TEMPORARILY DISABLED: Image OCR disabled due to tesseract.js issues
-    return {
-      text: "[Image OCR temporarily disabled - tesseract.js configuration issues]",
-      meta: { extractedAt, kind },
-    };
-  }
-
-  // SVG PROCESSING
-  if (kind === "svg") {
-    // SVGs are XML files that may contain <text> elements with readable content
-    // Convert binary buffer to string using UTF-8 encoding
-    const raw = buf.toString("utf8");
-
-    // Remove all XML/HTML tags using regex
-    // /<[^>]+>/g matches any content between < and >
-    const text = raw
-      .replace(/<[^>]+>/g, " ") // Replace tags with spaces
-      .replace(/\s+/g, " ") // Normalize multiple whitespace to single spaces
-      .trim(); // Remove leading/trailing whitespace
-
-    return { text, meta: { extractedAt, kind } };
-  }
-
-  // CSV PROCESSING
-  if (kind === "csv") {
-    // CSVs contain structured data in rows and columns
-    // Convert buffer to string for parsing
-    const raw = buf.toString("utf8");
+  const extractor = getExtractor(kind);
+  const { text, meta } = await extractor.extract(buf, opts);
 
-    // Papa.parse handles CSV complexities: quotes, escaped commas, different delimiters
-    // skipEmptyLines: true removes blank rows that could cause issues
-    const parsed = Papa.parse<string[]>(raw, { skipEmptyLines: true });
-
-    // Extract the data array, ensuring it's actually an array
-    // Papa.parse can return different structures based on input
-    const rows = Array.isArray(parsed.data) ? (parsed.data as string[][]) : [];
-
-    // Convert structured data back to readable text format
-    // Join each row's columns with ", " and rows with newlines
-    const lines = rows.map((r) => r.join(", "));
+  // Cap the text at a whitespace boundary and record how long it was
+  const max = maxExtractedChars();
+  if (text.length > max) {
+    const cut = text.slice(0, max);
+    const end = cut.search(/\s\S*$/);
+    console.warn(`✂️ Truncated extracted text from ${text.length} to ${max} characters`);
     return {
-      text: lines.join("\n").trim(),
-      meta: { extractedAt, kind },
+      text: end > 0 ? cut.slice(0, end) : cut,
+      meta: { ...meta, truncatedFrom: text.length, extractedAt, kind: extractor.kind },
     };
   }
-
-  // DOCX PROCESSING
-  if (kind === "docx") {
-    // DOCX files are ZIP archives containing XML files
-    // mammoth library extracts text while preserving basic structure
-    // extractRawText() gets plain text without formatting
-    const res = await mammoth.extractRawText({ buffer: buf });
-    return {
-      // res.value contains the extracted text content
-      text: (res.value || "").trim(),
-      meta: { extractedAt, kind },
-    };
-  }
-
-  // DEFAULT/FALLBACK PROCESSING (Plain text and unknown formats)
-  // Simply convert the binary buffer to UTF-8 string
-  // This works for plain text files and is a safe fallback for unknown formats
-  return {
-    text: buf.toString("utf8").trim(),
-    meta: { extractedAt, kind },
-  };
+  return { text, meta: { ...meta, extractedAt, kind: extractor.kind } };
 }
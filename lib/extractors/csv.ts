@@ -0,0 +1,33 @@
+// lib/extractors/csv.ts
+import Papa from "papaparse"; // CSV parsing library that handles edge cases well
+import { decodeText } from "./text";
+import type { Extractor } from "./types";
+
+// CSV files: Comma-Separated Values - structured tabular data
+export const csvExtractor: Extractor = {
+  kind: "csv",
+  label: "CSV",
+  mimeTypes: ["text/csv"],
+  extensions: ["csv"],
+  magic: ["text"],
+  layout: "rows",
+  metaFields: [],
+  async extract(buf) {
+    // CSVs contain structured data in rows and columns
+    // Convert buffer to string for parsing
+    const raw = decodeText(buf);
+
+    // Papa.parse handles CSV complexities: quotes, escaped commas, different delimiters
+    // skipEmptyLines: true removes blank rows that could cause issues
+    const parsed = Papa.parse<string[]>(raw, { skipEmptyLines: true });
+
+    // Extract the data array, ensuring it's actually an array
+    // Papa.parse can return different structures based on input
+    const rows = Array.isArray(parsed.data) ? (parsed.data as string[][]) : [];
+
+    // Convert structured data back to readable text format
+    // Join each row's columns with ", " and rows with newlines
+    const lines = rows.map((r) => r.join(", "));
+    return { text: lines.join("\n").trim() };
+  },
+};
@@ -0,0 +1,29 @@
+// lib/extractors/docx.ts
+import mammoth from "mammoth"; // Microsoft Word document (.docx) text extractor
+import { htmlToText } from "./markup";
+import { assertSafeArchive, requirePart } from "./zip";
+import type { Extractor } from "./types";
+
+// DOCX files: Modern Microsoft Word documents (XML-based format)
+export const docxExtractor: Extractor = {
+  kind: "docx",
+  label: "Word",
+  // Long MIME type is the official identifier for .docx files
+  mimeTypes: [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ],
+  extensions: ["docx"],
+  magic: ["zip"],
+  check: requirePart("word/document.xml", "Word"),
+  layout: "headings",
+  metaFields: [],
+  async extract(buf) {
+    // DOCX files are ZIP archives containing XML files
+    // mammoth converts them to HTML, which keeps headings, lists and tables;
+    // we turn that into Markdown-style text so headings survive for chunking
+    await assertSafeArchive(buf, "Word");
+    const res = await mammoth.convertToHtml({ buffer: buf });
+    // res.value contains the HTML
+    return { text: htmlToText(res.value || "") };
+  },
+};
@@ -0,0 +1,50 @@
+// lib/extractors/epub.ts
+import { attr, openArchive, requirePart, resolvePart } from "./zip";
+import { htmlToText, xmlText } from "./markup";
+import type { Extractor } from "./types";
+
+// EPUB e-books: the reading-order (spine) documents, each converted like HTML
+export const epubExtractor: Extractor = {
+  kind: "epub",
+  label: "EPUB",
+  mimeTypes: ["application/epub+zip"],
+  extensions: ["epub"],
+  magic: ["zip"],
+  check: requirePart("META-INF/container.xml", "EPUB"),
+  layout: "headings",
+  metaFields: ["title", "chapters"],
+  async extract(buf) {
+    const archive = await openArchive(buf, "EPUB");
+
+    // container.xml points at the package document (.opf)
+    const container = await archive.read("META-INF/container.xml");
+    const opfPath = attr(container?.match(/<rootfile\b[^>]*>/)?.[0] ?? "", "full-path");
+    const opf = opfPath ? await archive.read(opfPath) : null;
+    if (!opfPath || !opf) throw new Error("Not a valid EPUB file (no package document)");
+
+    const manifest = new Map<string, { href: string; type?: string }>();
+    for (const tag of opf.match(/<item\b[^>]*>/g) ?? []) {
+      const id = attr(tag, "id");
+      const href = attr(tag, "href");
+      if (id && href) manifest.set(id, { href, type: attr(tag, "media-type") });
+    }
+
+    const chapters: string[] = [];
+    for (const tag of opf.match(/<itemref\b[^>]*>/g) ?? []) {
+      const item = manifest.get(attr(tag, "idref") ?? "");
+      if (!item || (item.type && !/html/.test(item.type))) continue;
+      const html = await archive.read(resolvePart(opfPath, item.href));
+      const text = html ? htmlToText(html) : "";
+      if (text) chapters.push(text);
+    }
+
+    const title = opf.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/)?.[1];
+    return {
+      text: chapters.join("\n\n"),
+      meta: {
+        title: title ? xmlText(title).trim() || undefined : undefined,
+        chapters: chapters.length,
+      },
+    };
+  },
+};
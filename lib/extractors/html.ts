@@ -0,0 +1,23 @@
+// lib/extractors/html.ts
+import { htmlTitle, htmlToText } from "./markup";
+import { decodeText } from "./text";
+import type { Extractor } from "./types";
+
+// Web pages: saved articles, exported wikis. Navigation, headers, footers and
+// sidebars are dropped so every page of a site doesn't index the same menu.
+export const htmlExtractor: Extractor = {
+  kind: "html",
+  label: "HTML",
+  mimeTypes: ["text/html", "application/xhtml+xml"],
+  extensions: ["html", "htm", "xhtml"],
+  magic: ["text", "xml"],
+  layout: "headings",
+  metaFields: ["title"],
+  async extract(buf) {
+    const html = decodeText(buf);
+    return {
+      text: htmlToText(html, { boilerplate: "strip" }),
+      meta: { title: htmlTitle(html) },
+    };
+  },
+};
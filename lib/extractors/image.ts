@@ -0,0 +1,23 @@
+// lib/extractors/image.ts
+import { recognizeImage } from "../ocr"; // OCR (tesseract.js worker pool)
+import type { Extractor } from "./types";
+
+// Photos, screenshots, scanned documents: OCR (Optical Character Recognition)
+export const imageExtractor: Extractor = {
+  kind: "image",
+  label: "Image",
+  mimeTypes: ["image/png", "image/jpeg"],
+  extensions: ["png", "jpg", "jpeg"],
+  magic: ["png", "jpeg"],
+  layout: "plain",
+  metaFields: ["ocr"],
+  async extract(buf, opts) {
+    // Tesseract reads the text off the pixels; the confidence (0-100) tells
+    // how much to trust it (blurry photos, handwriting score low)
+    const { text, confidence, languages } = await recognizeImage(
+      buf,
+      opts.ocrLanguages
+    );
+    return { text, meta: { ocr: { confidence, languages } } };
+  },
+};
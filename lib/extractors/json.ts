@@ -0,0 +1,83 @@
+// lib/extractors/json.ts
+import { decodeText } from "./text";
+import type { Extractor } from "./types";
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+/**
+ * One "path: value" line per leaf ("customer.address.city: Oslo",
+ * "items[2].sku: A-100"), so a chunk keeps the field names that give values
+ * their meaning.
+ */
+function flatten(value: Json, path: string, out: string[]) {
+  if (Array.isArray(value)) {
+    if (!value.length) out.push(`${path || "(root)"}: []`);
+    value.forEach((v, i) => flatten(v, `${path}[${i}]`, out));
+  } else if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value);
+    if (!entries.length) out.push(`${path || "(root)"}: {}`);
+    for (const [k, v] of entries) flatten(v, path ? `${path}.${k}` : k, out);
+  } else {
+    out.push(`${path || "(root)"}: ${value === null ? "null" : String(value)}`);
+  }
+}
+
+const flattenRecord = (value: Json) => {
+  const out: string[] = [];
+  flatten(value, "", out);
+  return out.join("\n");
+};
+
+/**
+ * Top-level array items (and NDJSON lines) are records: each is flattened on
+ * its own and separated by a blank line, so the chunker cuts between records
+ * rather than inside one.
+ */
+function recordsToText(records: Json[]) {
+  return records.map(flattenRecord).join("\n\n");
+}
+
+function parseLines(raw: string): Json[] {
+  return raw
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as Json;
+      } catch {
+        throw new Error(`Invalid JSON on line ${i + 1}`);
+      }
+    });
+}
+
+// JSON documents and NDJSON / JSON Lines (one JSON value per line)
+export const jsonExtractor: Extractor = {
+  kind: "json",
+  label: "JSON",
+  mimeTypes: [
+    "application/json",
+    "application/x-ndjson",
+    "application/ndjson",
+    "application/jsonl",
+    "application/x-jsonlines",
+  ],
+  extensions: ["json", "ndjson", "jsonl"],
+  magic: ["text"],
+  layout: "plain",
+  metaFields: ["records"],
+  async extract(buf) {
+    const raw = decodeText(buf);
+    let records: Json[];
+    try {
+      const parsed = JSON.parse(raw) as Json;
+      records = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      // Not a single JSON value: NDJSON (whatever the extension says)
+      records = parseLines(raw);
+    }
+    return {
+      text: recordsToText(records),
+      meta: { records: records.length },
+    };
+  },
+};
@@ -0,0 +1,95 @@
+// lib/extractors/markup.ts
+// HTML/XML → text helpers shared by the HTML, EPUB, DOCX and Office extractors.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+};
+
+/** Decodes numeric entities and the common named ones; others are left as-is */
+export function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] !== "#") return NAMED_ENTITIES[e.toLowerCase()] ?? m;
+    const code =
+      e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+  });
+}
+
+/** Text content of an XML fragment: tags dropped, entities decoded */
+export const xmlText = (xml: string) =>
+  decodeEntities(xml.replace(/<[^>]+>/g, ""));
+
+// Never content
+const INVISIBLE = /<(script|style|noscript|template|svg|iframe|head|object)\b[\s\S]*?<\/\1>/gi;
+// Site chrome around the content of a web page
+const BOILERPLATE = /<(nav|header|footer|aside|form|menu|dialog)\b[\s\S]*?<\/\1>/gi;
+const BOILERPLATE_ROLE =
+  /<(\w+)\b[^>]*\brole=["']?(navigation|banner|contentinfo|complementary|search)\b[\s\S]*?<\/\1>/gi;
+
+/** Inner HTML of the first <main>, else the first <article>, else the <body> */
+function mainContent(html: string) {
+  for (const tag of ["main", "article", "body"]) {
+    const m = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)</${tag}>`, "i"));
+    if (m) return m[1];
+  }
+  return html;
+}
+
+/**
+ * Turns HTML into Markdown-style text: headings become "#" lines (so the
+ * headings chunker can split on them), list items "- " lines and table rows
+ * " | "-separated cells. Everything else is reduced to its text.
+ *
+ * With `boilerplate: "strip"`, navigation, headers, footers, sidebars and
+ * forms are dropped and only the page's main content is kept.
+ */
+export function htmlToText(
+  html: string,
+  opts: { boilerplate?: "keep" | "strip" } = {}
+) {
+  let body = html.replace(/<!--[\s\S]*?-->/g, "").replace(INVISIBLE, "");
+  if (opts.boilerplate === "strip") {
+    body = mainContent(body).replace(BOILERPLATE, "").replace(BOILERPLATE_ROLE, "");
+  }
+
+  return decodeEntities(
+    body
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner: string) => {
+        const heading = inner.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+        return heading ? `\n\n${"#".repeat(Number(level))} ${heading}\n\n` : "";
+      })
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(/<\/(td|th)>/gi, " | ")
+      .replace(/<\/tr>/gi, "\n")
+      .replace(/<\/(p|div|section|article|blockquote|pre|ul|ol|table|dl|figure)>/gi, "\n\n")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** The <title> of an HTML/XHTML document */
+export function htmlTitle(html: string) {
+  const m = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = m ? xmlText(m[1]).replace(/\s+/g, " ").trim() : "";
+  return title || undefined;
+}
@@ -0,0 +1,108 @@
+// lib/extractors/pdf.ts
+import pdfParse from "pdf-parse"; // Library to extract text from PDF files
+import { defaultLanguages, recognizeImage } from "../ocr";
+import { renderPdfPages } from "../pdfraster"; // PDF pages → PNG for OCR
+import { PAGE_BREAK } from "./types";
+import type { Extractor, OcrMeta } from "./types";
+
+// Text layers can contain form feeds of their own; only ours may split pages
+const withoutPageBreaks = (text: string) =>
+  text.split(PAGE_BREAK).join("\n").trim();
+
+// Scanned PDFs: pages whose text layer has fewer than OCR_PDF_MIN_CHARS
+// non-space characters are rendered (at OCR_PDF_SCALE × 72 DPI) and OCR'd,
+// at most OCR_PDF_MAX_PAGES per document
+const pdfOcrMinChars = () => Number(process.env.OCR_PDF_MIN_CHARS) || 20;
+const pdfOcrMaxPages = () => Number(process.env.OCR_PDF_MAX_PAGES) || 50;
+const pdfOcrScale = () => Number(process.env.OCR_PDF_SCALE) || 2;
+
+/**
+ * Replaces the text of pages without a usable text layer with OCR output.
+ * `pages` is updated in place; returns what was done, or undefined when
+ * every page had text. A page OCR fails on keeps its (empty) text layer
+ * instead of failing the whole document.
+ */
+async function ocrScannedPages(
+  buf: Buffer,
+  pages: string[],
+  languages?: string[]
+): Promise<OcrMeta | undefined> {
+  const scanned = pages
+    .map((text, i) => ({ page: i + 1, chars: text.replace(/\s/g, "").length }))
+    .filter((p) => p.chars < pdfOcrMinChars())
+    .map((p) => p.page);
+  if (!scanned.length) return undefined;
+
+  const todo = scanned.slice(0, pdfOcrMaxPages());
+  const read: Array<{ page: number; confidence: number }> = [];
+  const failedPages: number[] = [];
+  const langs = languages ?? defaultLanguages();
+
+  for await (const { page, png } of renderPdfPages(buf, todo, pdfOcrScale())) {
+    try {
+      const res = await recognizeImage(png, langs);
+      if (res.text) pages[page - 1] = withoutPageBreaks(res.text);
+      read.push({ page, confidence: res.confidence });
+    } catch (e) {
+      console.warn(`⚠️ OCR failed on page ${page}:`, e instanceof Error ? e.message : e);
+      failedPages.push(page);
+    }
+  }
+  console.log(`🔎 OCR'd ${read.length} of ${scanned.length} page(s) without text`);
+
+  return {
+    confidence: read.length
+      ? Math.round((read.reduce((n, p) => n + p.confidence, 0) / read.length) * 10) / 10
+      : 0,
+    languages: langs,
+    pages: read,
+    failedPages: failedPages.length ? failedPages : undefined,
+    skippedPages:
+      scanned.length > todo.length ? scanned.slice(todo.length) : undefined,
+  };
+}
+
+export const pdfExtractor: Extractor = {
+  kind: "pdf",
+  label: "PDF",
+  mimeTypes: ["application/pdf"],
+  extensions: ["pdf"],
+  magic: ["pdf"],
+  layout: "pages",
+  metaFields: ["pages", "ocr"],
+  async extract(buf, opts) {
+    // PDFs contain compressed text, fonts, images in binary format
+    // pdf-parse library handles decompression and text extraction
+    // Keep each page's text separately, by page number, so chunks can say
+    // which pages they came from. pdf-parse skips a page whose text can't be
+    // read without telling us; it stays empty so later pages keep their numbers
+    const byPage: string[] = [];
+    const res = await pdfParse(buf, {
+      pagerender: async (page: {
+        pageIndex: number; // 0-based
+        getTextContent(): Promise<{ items: Array<{ str: string; transform: number[] }> }>;
+      }) => {
+        const content = await page.getTextContent();
+        // Same line-joining as pdf-parse's default renderer
+        let lastY: number | undefined;
+        let text = "";
+        for (const item of content.items) {
+          const y = item.transform[5];
+          text += lastY === undefined || lastY === y ? item.str : "\n" + item.str;
+          lastY = y;
+        }
+        byPage[page.pageIndex] = withoutPageBreaks(text);
+        return text;
+      },
+    });
+    const pages = Array.from({ length: res.numpages }, (_, i) => byPage[i] ?? "");
+    // Scanned pages have little or no text layer: OCR them
+    const ocr = await ocrScannedPages(buf, pages, opts.ocrLanguages);
+    return {
+      // One entry per page, separated by PAGE_BREAK (not trimmed: "\f" is
+      // whitespace, and a leading empty page must still count as page 1)
+      text: pages.join(PAGE_BREAK),
+      meta: { pages: res.numpages, ocr },
+    };
+  },
+};
@@ -0,0 +1,93 @@
+// lib/extractors/pptx.ts
+import { attr, openArchive, relationships, requirePart } from "./zip";
+import { xmlText } from "./markup";
+import type { Archive } from "./zip";
+import type { Extractor } from "./types";
+
+const PRESENTATION = "ppt/presentation.xml";
+
+// Paragraphs of a shape (or any DrawingML fragment), one per line
+const paragraphs = (xml: string) =>
+  (xml.match(/<a:p\b[\s\S]*?<\/a:p>/g) ?? [])
+    .map((p) =>
+      (p.match(/<a:t\b[^>]*>[\s\S]*?<\/a:t>|<a:br\b[^>]*\/>/g) ?? [])
+        .map((t) => (t.startsWith("<a:br") ? "\n" : xmlText(t)))
+        .join("")
+        .trim()
+    )
+    .filter(Boolean);
+
+// Shapes with their placeholder type ("title", "body"...), in document order
+const shapes = (xml: string) =>
+  (xml.match(/<p:sp\b[\s\S]*?<\/p:sp>/g) ?? []).map((sp) => ({
+    type: attr(sp.match(/<p:ph\b[^>]*>/)?.[0] ?? "", "type"),
+    lines: paragraphs(sp),
+  }));
+
+// Slide parts in presentation order (file-name order if that's missing)
+async function slideParts(archive: Archive) {
+  const presentation = await archive.read(PRESENTATION);
+  if (presentation) {
+    const rels = await relationships(archive, PRESENTATION);
+    const ordered = (presentation.match(/<p:sldId\b[^>]*>/g) ?? [])
+      .map((tag) => rels.get(attr(tag, "r:id") ?? ""))
+      .filter((p): p is string => !!p);
+    if (ordered.length) return ordered;
+  }
+  const num = (name: string) => Number(name.match(/(\d+)\.xml$/)?.[1] ?? 0);
+  return archive
+    .names()
+    .filter((n) => /^ppt\/slides\/slide\d+\.xml$/.test(n))
+    .sort((a, b) => num(a) - num(b));
+}
+
+async function slideNotes(archive: Archive, slidePart: string) {
+  const rels = await relationships(archive, slidePart);
+  const notesPart = [...rels.values()].find((p) => /notesSlides\//.test(p));
+  const xml = notesPart ? await archive.read(notesPart) : null;
+  if (!xml) return [];
+  // The notes page also holds the slide thumbnail and number; keep the text body
+  return shapes(xml)
+    .filter((s) => s.type === "body")
+    .flatMap((s) => s.lines);
+}
+
+// PowerPoint decks: one section per slide, with its speaker notes
+export const pptxExtractor: Extractor = {
+  kind: "pptx",
+  label: "PowerPoint",
+  mimeTypes: [
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ],
+  extensions: ["pptx"],
+  magic: ["zip"],
+  check: requirePart(PRESENTATION, "PPTX"),
+  layout: "headings",
+  metaFields: ["slides"],
+  async extract(buf) {
+    const archive = await openArchive(buf, "PPTX");
+    const parts = await slideParts(archive);
+    if (!parts.length) throw new Error("Not a valid PPTX file (no slides)");
+
+    const sections: string[] = [];
+    for (const [i, part] of parts.entries()) {
+      const xml = await archive.read(part);
+      if (!xml) continue;
+      const all = shapes(xml);
+      const isTitle = (t?: string) => t === "title" || t === "ctrTitle";
+      const title = all.find((s) => isTitle(s.type))?.lines.join(" ");
+      const body = all.filter((s) => !isTitle(s.type)).flatMap((s) => s.lines);
+      const notes = await slideNotes(archive, part);
+
+      const heading = `# Slide ${i + 1}${title ? `: ${title}` : ""}`;
+      const blocks = [heading, body.join("\n")];
+      if (notes.length) blocks.push(`Speaker notes:\n${notes.join("\n")}`);
+      sections.push(blocks.filter(Boolean).join("\n\n"));
+    }
+
+    return {
+      text: sections.join("\n\n"),
+      meta: { slides: parts.length },
+    };
+  },
+};
@@ -0,0 +1,146 @@
+// lib/extractors/rtf.ts
+import type { Extractor } from "./types";
+
+// Groups whose content is never document text (fonts, styles, pictures...)
+const SKIP_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "object",
+  "header",
+  "footer",
+  "headerl",
+  "headerr",
+  "footerl",
+  "footerr",
+  "listtable",
+  "listoverridetable",
+  "rsidtbl",
+  "generator",
+  "xmlnstbl",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles",
+]);
+
+// Control words that produce text
+const CONTROL_TEXT: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  sect: "\n\n",
+  page: "\n\n",
+  row: "\n",
+  cell: " | ",
+  tab: "\t",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+};
+
+// Windows-1252 characters that differ from Latin-1 (\'hh escapes)
+const CP1252: Record<number, string> = {
+  0x80: "€", 0x82: "‚", 0x83: "ƒ", 0x84: "„", 0x85: "…", 0x86: "†", 0x87: "‡",
+  0x88: "ˆ", 0x89: "‰", 0x8a: "Š", 0x8b: "‹", 0x8c: "Œ", 0x8e: "Ž", 0x91: "‘",
+  0x92: "’", 0x93: "“", 0x94: "”", 0x95: "•", 0x96: "–", 0x97: "—", 0x98: "˜",
+  0x99: "™", 0x9a: "š", 0x9b: "›", 0x9c: "œ", 0x9e: "ž", 0x9f: "Ÿ",
+};
+
+/**
+ * Reduces RTF to its text: a single pass over the control words and groups,
+ * skipping non-text destinations. Handles \'hh (Windows-1252) and \uN
+ * (Unicode, with \ucN fallback characters skipped).
+ */
+export function rtfToText(rtf: string) {
+  const out: string[] = [];
+  // Per group: skipping its content? how many fallback chars follow \uN?
+  const stack: Array<{ skip: boolean; uc: number }> = [];
+  let state = { skip: false, uc: 1 };
+  let fallback = 0; // fallback characters still to drop after a \uN
+
+  const emit = (s: string) => {
+    if (fallback > 0) {
+      fallback--;
+      return;
+    }
+    if (!state.skip) out.push(s);
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const ch = rtf[i];
+    if (ch === "{") {
+      stack.push(state);
+      state = { ...state };
+      // {\*\destination ...} groups are optional extras readers may ignore
+      if (rtf.startsWith("\\*", i + 1)) state.skip = true;
+    } else if (ch === "}") {
+      state = stack.pop() ?? { skip: false, uc: 1 };
+      fallback = 0;
+    } else if (ch === "\\") {
+      const next = rtf[i + 1];
+      if (next === "\\" || next === "{" || next === "}") {
+        emit(next);
+        i++;
+      } else if (next === "'") {
+        const code = parseInt(rtf.slice(i + 2, i + 4), 16);
+        if (!Number.isNaN(code)) emit(CP1252[code] ?? String.fromCharCode(code));
+        i += 3;
+      } else if (next === "~") {
+        emit(" ");
+        i++;
+      } else if (next === "-" || next === "_") {
+        i++; // optional / non-breaking hyphen
+      } else if (next === "\n" || next === "\r") {
+        emit("\n");
+        i++;
+      } else {
+        const m = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+        if (!m) continue;
+        i += m[0].length;
+        const word = m[1];
+        const param = m[2] !== undefined ? Number(m[2]) : undefined;
+        if (SKIP_DESTINATIONS.has(word)) state.skip = true;
+        else if (word === "uc" && param !== undefined) state.uc = param;
+        else if (word === "u" && param !== undefined) {
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          fallback = state.uc;
+        } else if (CONTROL_TEXT[word]) emit(CONTROL_TEXT[word]);
+      }
+    } else if (ch !== "\n" && ch !== "\r") {
+      emit(ch);
+    }
+  }
+
+  return out
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Rich Text Format (WordPad, TextEdit, older word processors)
+export const rtfExtractor: Extractor = {
+  kind: "rtf",
+  label: "RTF",
+  mimeTypes: ["application/rtf", "text/rtf"],
+  extensions: ["rtf"],
+  magic: ["text"],
+  check: (buf) =>
+    buf.subarray(0, 5).toString("latin1") === "{\\rtf"
+      ? null
+      : "Not a valid RTF file (no {\\rtf header)",
+  layout: "plain",
+  metaFields: [],
+  async extract(buf) {
+    // RTF is 7-bit ASCII; anything else is escaped
+    const raw = buf.toString("latin1");
+    if (!raw.startsWith("{\\rtf")) throw new Error("Not a valid RTF file");
+    return { text: rtfToText(raw) };
+  },
+};
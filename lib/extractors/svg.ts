@@ -0,0 +1,31 @@
+// lib/extractors/svg.ts
+import { decodeEntities } from "./markup";
+import type { Extractor } from "./types";
+
+// SVG files: Scalable Vector Graphics - XML-based, may contain text elements
+export const svgExtractor: Extractor = {
+  kind: "svg",
+  label: "SVG",
+  mimeTypes: ["image/svg+xml"],
+  extensions: ["svg"],
+  magic: ["xml"],
+  layout: "plain",
+  metaFields: [],
+  async extract(buf) {
+    // SVGs are XML files that may contain <text> elements with readable content
+    // Convert binary buffer to string using UTF-8 encoding
+    const raw = buf.toString("utf8");
+
+    // Remove all XML/HTML tags using regex
+    // /<[^>]+>/g matches any content between < and >
+    const text = decodeEntities(
+      raw
+        .replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, " ") // Not text content
+        .replace(/<[^>]+>/g, " ") // Replace tags with spaces
+    )
+      .replace(/\s+/g, " ") // Normalize multiple whitespace to single spaces
+      .trim(); // Remove leading/trailing whitespace
+
+    return { text };
+  },
+};
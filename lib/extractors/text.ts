@@ -0,0 +1,46 @@
+// lib/extractors/text.ts
+import type { Extractor } from "./types";
+
+/**
+ * Decodes a text file: UTF-8 (byte order mark dropped), or UTF-16 when it
+ * starts with a UTF-16 byte order mark (Excel's "Unicode text" exports).
+ */
+export function decodeText(buf: Buffer) {
+  if (buf[0] === 0xff && buf[1] === 0xfe) return buf.subarray(2).toString("utf16le");
+  if (buf[0] === 0xfe && buf[1] === 0xff) {
+    // UTF-16BE: swap to LE (Node has no BE decoder)
+    const le = Buffer.from(buf.subarray(2));
+    le.swap16();
+    return le.toString("utf16le");
+  }
+  return buf.toString("utf8").replace(/^\uFEFF/, "");
+}
+
+// Plain text files: Simple unformatted text. Also the fallback for files no
+// other extractor claims (worst case, we just convert bytes to string)
+export const textExtractor: Extractor = {
+  kind: "txt",
+  label: "Text",
+  mimeTypes: ["text/plain"],
+  extensions: ["txt", "text", "log"],
+  magic: ["text", "xml"],
+  layout: "plain",
+  metaFields: [],
+  async extract(buf) {
+    return { text: decodeText(buf).trim() };
+  },
+};
+
+// Markdown files: plain text with # headings, chunked by section
+export const markdownExtractor: Extractor = {
+  kind: "md",
+  label: "Markdown",
+  mimeTypes: ["text/markdown", "text/x-markdown"],
+  extensions: ["md", "markdown"],
+  magic: ["text", "xml"],
+  layout: "headings",
+  metaFields: [],
+  async extract(buf) {
+    return { text: decodeText(buf).trim() };
+  },
+};
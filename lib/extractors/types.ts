@@ -0,0 +1,90 @@
+// lib/extractors/types.ts
+// The contract between lib/extract.ts (registry, detection) and the
+// extractors for each file format.
+import type { SniffedFormat } from "../sniff";
+
+// Formats that ship with the app; plugins may register other kinds
+export type BuiltinExtractKind =
+  | "pdf"
+  | "image"
+  | "svg"
+  | "csv"
+  | "docx"
+  | "md"
+  | "html"
+  | "json"
+  | "xlsx"
+  | "pptx"
+  | "epub"
+  | "rtf"
+  | "txt";
+
+// (string & {}) keeps editor completion for the built-in names
+export type ExtractKind = BuiltinExtractKind | (string & {});
+
+/**
+ * How the extracted text is laid out, which picks the chunking strategy in
+ * chunk.ts:
+ * - headings: Markdown-style "#" headings start sections
+ * - pages:    pages separated by PAGE_BREAK
+ * - rows:     a header line, then one record per line
+ * - plain:    paragraphs and lines only
+ */
+export type TextLayout = "headings" | "pages" | "rows" | "plain";
+
+// Separates pages in the text extracted from a PDF. chunk.ts splits on it
+// to record which pages each chunk came from.
+export const PAGE_BREAK = "\f";
+
+export type OcrMeta = {
+  confidence: number; // 0-100; the mean over pages for PDFs
+  languages: string[];
+  pages?: Array<{ page: number; confidence: number }>; // PDF pages read by OCR
+  failedPages?: number[]; // PDF pages OCR failed on (e.g. timed out)
+  skippedPages?: number[]; // PDF pages past OCR_PDF_MAX_PAGES
+};
+
+export type ExtractMeta = {
+  extractedAt: string; // ISO timestamp of when extraction occurred
+  kind: ExtractKind; // What type of file was processed
+  pages?: number; // PDF page count
+  title?: string; // HTML <title>, EPUB title
+  records?: number; // JSON array items / NDJSON lines
+  sheets?: string[]; // XLSX sheet names, in workbook order
+  slides?: number; // PPTX slide count
+  chapters?: number; // EPUB spine documents that had text
+  ocr?: OcrMeta; // Set when some or all of the text came from OCR
+  truncatedFrom?: number; // Original length when the text was cut to MAX_EXTRACTED_CHARS
+};
+
+// The metadata fields an extractor may produce (kept on the document)
+export type ExtractMetaField = Exclude<keyof ExtractMeta, "extractedAt" | "kind">;
+
+// Define the structure of what gets returned after text extraction
+export type ExtractResult = {
+  text: string; // The extracted text content
+  meta: ExtractMeta;
+};
+
+export type ExtractOptions = {
+  ocrLanguages?: string[]; // Tesseract languages for OCR (default OCR_LANGUAGES)
+};
+
+export interface Extractor {
+  kind: ExtractKind;
+  label: string; // Human-readable format name, e.g. "PowerPoint"
+  mimeTypes: string[]; // Exact MIME types it handles
+  extensions: string[]; // Lowercase, without the dot
+  magic: SniffedFormat[]; // What the bytes may sniff as (lib/sniff.ts)
+  /**
+   * Why a file whose bytes sniff right still isn't this format (e.g. a ZIP
+   * without word/document.xml), or null. Runs at upload, before extraction.
+   */
+  check?(buf: Buffer): string | null;
+  layout: TextLayout;
+  metaFields: ExtractMetaField[]; // What it sets in ExtractMeta
+  extract(
+    buf: Buffer,
+    opts: ExtractOptions
+  ): Promise<{ text: string; meta?: Partial<Omit<ExtractMeta, "extractedAt" | "kind">> }>;
+}
@@ -0,0 +1,104 @@
+// lib/extractors/xlsx.ts
+import { attr, openArchive, relationships, requirePart } from "./zip";
+import { decodeEntities, xmlText } from "./markup";
+import type { Extractor } from "./types";
+
+const WORKBOOK = "xl/workbook.xml";
+
+// "BC12" → 54 (0-based column of a cell reference)
+function columnIndex(ref: string) {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+const columnName = (i: number): string =>
+  i < 0 ? "" : columnName(Math.floor(i / 26) - 1) + String.fromCharCode(65 + (i % 26));
+
+// Text of a rich or plain string item, without phonetic (ruby) runs
+const stringItem = (xml: string) =>
+  (xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").match(/<t\b[^>]*>[\s\S]*?<\/t>/g) ?? [])
+    .map(xmlText)
+    .join("");
+
+function sharedStrings(xml: string | null) {
+  return (xml?.match(/<si\b[\s\S]*?<\/si>/g) ?? []).map(stringItem);
+}
+
+/** Cell values by row, with gaps where cells are empty */
+function sheetRows(xml: string, shared: string[]): string[][] {
+  const rows: string[][] = [];
+  for (const row of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = [];
+    for (const c of row[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attr(c[1], "r");
+      const i = ref ? columnIndex(ref) : cells.length;
+      const body = c[2] ?? "";
+      const v = body.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1];
+      const type = attr(c[1], "t");
+      let value = "";
+      if (type === "s") value = shared[Number(v)] ?? "";
+      else if (type === "inlineStr") value = stringItem(body);
+      else if (type === "b") value = v === "1" ? "TRUE" : "FALSE";
+      else if (v !== undefined) value = decodeEntities(v);
+      cells[i] = value.trim();
+    }
+    if (cells.some(Boolean)) rows.push(Array.from(cells, (c) => c ?? ""));
+  }
+  return rows;
+}
+
+/**
+ * One section per sheet: a "# Sheet" heading, then one line per row with
+ * each value labelled by its column header ("Region: North; Sales: 120"),
+ * so a row still makes sense when chunked away from the header.
+ */
+function sheetText(name: string, rows: string[][]) {
+  if (!rows.length) return "";
+  const [header, ...data] = rows;
+  const lines = data.length
+    ? data.map((row) =>
+        row
+          .map((v, i) => (v ? `${header[i] || columnName(i)}: ${v}` : ""))
+          .filter(Boolean)
+          .join("; ")
+      )
+    : [header.filter(Boolean).join("; ")];
+  return `# ${name}\n\n${lines.filter(Boolean).join("\n")}`;
+}
+
+// Excel workbooks: one section per sheet
+export const xlsxExtractor: Extractor = {
+  kind: "xlsx",
+  label: "Excel",
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+  extensions: ["xlsx"],
+  magic: ["zip"],
+  check: requirePart(WORKBOOK, "XLSX"),
+  layout: "headings",
+  metaFields: ["sheets"],
+  async extract(buf) {
+    const archive = await openArchive(buf, "XLSX");
+    const workbook = await archive.read(WORKBOOK);
+    if (!workbook) throw new Error("Not a valid XLSX file (no workbook)");
+
+    const rels = await relationships(archive, WORKBOOK);
+    const shared = sharedStrings(await archive.read("xl/sharedStrings.xml"));
+
+    const names: string[] = [];
+    const sections: string[] = [];
+    for (const tag of workbook.match(/<sheet\b[^>]*>/g) ?? []) {
+      const name = attr(tag, "name") ?? `Sheet${names.length + 1}`;
+      const part = rels.get(attr(tag, "r:id") ?? "");
+      const xml = part ? await archive.read(part) : null;
+      names.push(name);
+      if (xml) sections.push(sheetText(name, sheetRows(xml, shared)));
+    }
+
+    return {
+      text: sections.filter(Boolean).join("\n\n"),
+      meta: { sheets: names },
+    };
+  },
+};
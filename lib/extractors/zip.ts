@@ -0,0 +1,86 @@
+// lib/extractors/zip.ts
+// ZIP-based formats (XLSX, PPTX, EPUB): opening the archive and following
+// the relationship/manifest paths between its parts.
+import path from "path";
+import JSZip from "jszip";
+import { decodeEntities } from "./markup";
+import { inflatedZipReason, zipBombReason, zipEntries } from "../sniff";
+
+export type Archive = {
+  /** A part's text, or null when the archive doesn't have it */
+  read(name: string): Promise<string | null>;
+  names(): string[];
+};
+
+/**
+ * Throws unless the archive's central directory is readable and both its
+ * declared sizes and what its entries really inflate to are within the
+ * ZIP_MAX_* limits. Uploads are checked the same way; this covers documents
+ * extracted again after the limits changed.
+ */
+export async function assertSafeArchive(buf: Buffer, label: string) {
+  const entries = zipEntries(buf);
+  if (!entries) throw new Error(`Not a valid ${label} file (unreadable ZIP archive)`);
+  const bomb = zipBombReason(entries) ?? (await inflatedZipReason(buf, entries));
+  if (bomb) throw new Error(`Refusing to unpack ${label} file: ${bomb}`);
+}
+
+/** Mismatch reason for an archive without the part that makes it a `label` file */
+export const requirePart = (part: string, label: string) => (buf: Buffer) => {
+  const names = zipEntries(buf)?.map((e) => e.name);
+  if (!names) return `Not a valid ${label} file (unreadable ZIP archive)`;
+  return names.includes(part) ? null : `Not a valid ${label} file (no ${part})`;
+};
+
+export async function openArchive(buf: Buffer, label: string): Promise<Archive> {
+  await assertSafeArchive(buf, label);
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buf);
+  } catch {
+    throw new Error(`Not a valid ${label} file (unreadable ZIP archive)`);
+  }
+  return {
+    async read(name) {
+      const file = zip.file(name.replace(/^\//, ""));
+      return file ? file.async("string") : null;
+    },
+    names: () => Object.keys(zip.files),
+  };
+}
+
+/**
+ * Resolves a relationship or manifest target against the part that refers
+ * to it: ("xl/workbook.xml", "worksheets/sheet1.xml") → "xl/worksheets/sheet1.xml".
+ * Absolute targets ("/xl/...") are taken from the archive root.
+ */
+export function resolvePart(from: string, target: string) {
+  const decoded = decodeURIComponent(target.split("#")[0]);
+  if (decoded.startsWith("/")) return decoded.slice(1);
+  return path.posix.normalize(path.posix.join(path.posix.dirname(from), decoded));
+}
+
+/** Attribute value from a single tag's source, entities decoded */
+export function attr(tag: string, name: string) {
+  const m = tag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return m ? decodeEntities(m[2] ?? m[3]) : undefined;
+}
+
+/**
+ * Relationship id → target part, from the .rels part that belongs to `part`
+ * (e.g. "ppt/slides/slide1.xml" → "ppt/slides/_rels/slide1.xml.rels")
+ */
+export async function relationships(archive: Archive, part: string) {
+  const rels = await archive.read(
+    path.posix.join(path.posix.dirname(part), "_rels", `${path.posix.basename(part)}.rels`)
+  );
+  const byId = new Map<string, string>();
+  for (const tag of rels?.match(/<Relationship\b[^>]*>/g) ?? []) {
+    const id = attr(tag, "Id");
+    const target = attr(tag, "Target");
+    if (id && target && attr(tag, "TargetMode") !== "External") {
+      byId.set(id, resolvePart(part, target));
+    }
+  }
+  return byId;
+}
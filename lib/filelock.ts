@@ -0,0 +1,66 @@
+// lib/filelock.ts
+// Lock between processes sharing one of the JSON-file backends (the file KV
+// store, the local vector store): `<file>.lock`, created with O_EXCL by the
+// holder and removed when it is done. Synchronous, like the file I/O it
+// guards, so the holder never yields to other work in its own process.
+//
+// Each write re-reads the file, changes it and replaces it; without the lock
+// the web app and `npm run worker` would overwrite each other's changes.
+import fs from "fs";
+import path from "path";
+
+const RETRY_MS = 5;
+const TIMEOUT_MS = 10_000;
+// A lock this old was left behind by a process that died holding it
+const STALE_MS = 30_000;
+
+const pause = new Int32Array(new SharedArrayBuffer(4));
+const sleep = (ms: number) => Atomics.wait(pause, 0, 0, ms);
+
+function acquire(lock: string): number {
+  const deadline = Date.now() + TIMEOUT_MS;
+  for (;;) {
+    try {
+      return fs.openSync(lock, "wx");
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    }
+    try {
+      if (Date.now() - fs.statSync(lock).mtimeMs > STALE_MS) {
+        console.warn(`⚠️ Removing stale lock ${lock}`);
+        fs.rmSync(lock, { force: true });
+        continue;
+      }
+    } catch {
+      continue; // released between open and stat
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out after ${TIMEOUT_MS}ms waiting for ${lock}`);
+    }
+    sleep(RETRY_MS);
+  }
+}
+
+/** Runs `fn` holding the lock on `file`; waits up to 10s for another holder */
+export function withFileLock<T>(file: string, fn: () => T): T {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const lock = `${file}.lock`;
+  const fd = acquire(lock);
+  try {
+    fs.writeSync(fd, String(process.pid));
+    return fn();
+  } finally {
+    fs.closeSync(fd);
+    fs.rmSync(lock, { force: true });
+  }
+}
+
+/**
+ * Identifies the file's current version. Writers replace the file by rename,
+ * so the inode changes with every write even where mtimes are coarse.
+ */
+export function fileVersion(file: string): string | null {
+  if (!fs.existsSync(file)) return null;
+  const s = fs.statSync(file);
+  return `${s.ino}:${s.mtimeMs}:${s.size}`;
+}
@@ -2,3 +2,11 @@ import { randomUUID } from "crypto";
 
 /** Generate a stable, prefixed document id (e.g., doc_1234...) */
 export const newDocId = () => `doc_${randomUUID()}`;
+
+/** Vector id for one chunk of a document (e.g., doc_1234-0) */
+export const vectorIdFor = (documentId: string, chunkIndex: number) =>
+  `${documentId}-${chunkIndex}`;
+
+/** Inverse of vectorIdFor: strips the trailing -<chunkIndex> */
+export const documentIdOfVector = (vectorId: string) =>
+  vectorId.replace(/-\d+$/, "");
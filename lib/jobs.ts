@@ -0,0 +1,278 @@
+// lib/jobs.ts
+// Persisted job queue on top of lib/kv.ts. Jobs survive restarts, are retried
+// with exponential backoff and land in a dead-letter set after maxAttempts.
+//
+//   JOB_MAX_ATTEMPTS  (default 5)
+//   JOB_BACKOFF_MS    (default 5000; doubles per attempt, capped at 10 minutes)
+//   JOB_LEASE_SECONDS (default 300; a crashed worker's job is retried after this;
+//                      running jobs renew it, see startHeartbeat)
+import { randomUUID } from "crypto";
+import { getKv } from "./kv";
+import { DEFAULT_WORKSPACE } from "./workspace";
+import type { DocumentRef } from "./types";
+
+export type JobType = "extract" | "embed" | "reindex";
+export type JobStatus = "queued" | "running" | "completed" | "dead";
+
+export interface Job {
+  id: string;
+  type: JobType;
+  documentId: string;
+  workspaceId?: string; // unset on jobs queued before workspaces (default)
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: number; // epoch ms; not picked up before this
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+  lastError?: string;
+  lease?: string; // token of the claim currently running it
+}
+
+/** Thrown by a job handler when retrying cannot help (e.g., the input is gone) */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+const QUEUED_KEY = "jobs:queued"; // queued + running job ids
+const DEAD_KEY = "jobs:dead";
+const JOB_KEY = (id: string) => `job:${id}`;
+const LOCK_KEY = (id: string) => `job:${id}:lock`;
+// One live job per (type, document) so retries and watchdogs don't pile up
+const ACTIVE_KEY = (type: JobType, documentId: string) =>
+  `jobs:active:${type}:${documentId}`;
+
+const COMPLETED_TTL_SECONDS = 24 * 60 * 60;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+const maxAttempts = () => Number(process.env.JOB_MAX_ATTEMPTS) || 5;
+const backoffBase = () => Number(process.env.JOB_BACKOFF_MS) || 5000;
+const leaseSeconds = () => Number(process.env.JOB_LEASE_SECONDS) || 300;
+
+/** Delay before the next attempt: base * 2^(attempts-1) ± 20% jitter */
+export function backoffMs(attempts: number) {
+  const raw = Math.min(backoffBase() * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return Math.round(raw * (0.8 + Math.random() * 0.4));
+}
+
+async function save(job: Job) {
+  job.updatedAt = new Date().toISOString();
+  await getKv().set(
+    JOB_KEY(job.id),
+    job,
+    job.status === "completed" ? { ex: COMPLETED_TTL_SECONDS } : {}
+  );
+}
+
+export async function getJob(id: string) {
+  return getKv().get<Job>(JOB_KEY(id));
+}
+
+/** The document a job works on */
+export const jobDocument = (job: Job): DocumentRef => ({
+  id: job.documentId,
+  workspaceId: job.workspaceId ?? DEFAULT_WORKSPACE,
+});
+
+/** The queued or running job for (type, document), if any */
+export async function activeJobFor(
+  type: JobType,
+  documentId: string
+): Promise<Job | null> {
+  const id = await getKv().get<string>(ACTIVE_KEY(type, documentId));
+  const job = id ? await getJob(id) : null;
+  return job && (job.status === "queued" || job.status === "running")
+    ? job
+    : null;
+}
+
+/**
+ * Queues a job, or returns the live one if the same (type, document) pair is
+ * already queued or running.
+ */
+export async function enqueue(
+  type: JobType,
+  doc: DocumentRef,
+  opts: { delayMs?: number } = {}
+): Promise<Job> {
+  const kv = getKv();
+  const documentId = doc.id;
+  const id = `job_${randomUUID()}`;
+
+  if (!(await kv.set(ACTIVE_KEY(type, documentId), id, { nx: true }))) {
+    const existing = await activeJobFor(type, documentId);
+    if (existing) return existing;
+    // Stale marker (job finished without clearing it); take it over
+    await kv.set(ACTIVE_KEY(type, documentId), id);
+  }
+
+  const now = new Date().toISOString();
+  const job: Job = {
+    id,
+    type,
+    documentId,
+    workspaceId: doc.workspaceId,
+    status: "queued",
+    attempts: 0,
+    maxAttempts: maxAttempts(),
+    runAt: Date.now() + (opts.delayMs ?? 0),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await save(job);
+  await kv.sadd(QUEUED_KEY, id);
+  return job;
+}
+
+/**
+ * Claims the next due job, marking it running and counting the attempt.
+ * The claim is a lease: if the worker dies, the job becomes claimable again
+ * once JOB_LEASE_SECONDS pass.
+ */
+export async function claimNext(): Promise<Job | null> {
+  const kv = getKv();
+  const ids = await kv.smembers(QUEUED_KEY);
+  const now = Date.now();
+
+  const jobs = (await Promise.all(ids.map(getJob))).filter(
+    (j): j is Job => !!j && j.runAt <= now
+  );
+  jobs.sort((a, b) => a.runAt - b.runAt);
+
+  for (const job of jobs) {
+    const lease = randomUUID();
+    if (!(await kv.set(LOCK_KEY(job.id), lease, { nx: true, ex: leaseSeconds() }))) {
+      continue; // another worker holds it
+    }
+    job.lease = lease;
+    job.status = "running";
+    job.attempts += 1;
+    await save(job);
+    return job;
+  }
+  return null;
+}
+
+/**
+ * Renews the job's lease, unless it has expired and another worker claimed
+ * the job since. Returns whether the lease is still ours.
+ */
+export async function renewLease(job: Job): Promise<boolean> {
+  if (!job.lease) return false;
+  // One compare-and-expire, so a lease another worker has just taken is left alone
+  return getKv().expireIfEquals(LOCK_KEY(job.id), job.lease, leaseSeconds());
+}
+
+/**
+ * Renews the lease every third of JOB_LEASE_SECONDS while a handler runs, so
+ * a long job (OCR, a big embed) isn't claimed again mid-run. Returns a
+ * function that stops it.
+ */
+export function startHeartbeat(job: Job): () => void {
+  const timer = setInterval(() => {
+    renewLease(job)
+      .then((ours) => {
+        if (!ours) console.warn(`⚠️ Lost the lease on job ${job.id}`);
+      })
+      .catch((e) => console.warn(`⚠️ Failed to renew the lease on job ${job.id}:`, e));
+  }, (leaseSeconds() * 1000) / 3);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Frees the job's lock (and with `active`, its (type, document) marker).
+ * Compare-and-delete: a worker whose lease expired must not release the lock
+ * of the worker that claimed the job since, nor the marker it now runs under
+ * or one a newer job holds.
+ */
+async function release(job: Job, lease: string | undefined, active: boolean) {
+  const kv = getKv();
+  const ours = lease ? await kv.delIfEquals(LOCK_KEY(job.id), lease) : false;
+  if (!active || (!ours && (await kv.get<string>(LOCK_KEY(job.id))))) return;
+  await kv.delIfEquals(ACTIVE_KEY(job.type, job.documentId), job.id);
+}
+
+async function finish(job: Job, set: string | null, lease: string | undefined) {
+  const kv = getKv();
+  await save(job);
+  await kv.srem(QUEUED_KEY, job.id);
+  if (set) await kv.sadd(set, job.id);
+  await release(job, lease, true);
+}
+
+export async function complete(job: Job) {
+  const lease = job.lease;
+  job.status = "completed";
+  job.lastError = undefined;
+  job.lease = undefined;
+  await finish(job, null, lease);
+}
+
+/**
+ * Records a failed attempt. Returns the job as saved: queued again with a
+ * backoff delay, or dead once attempts are used up or the error is permanent.
+ */
+export async function fail(job: Job, err: unknown): Promise<Job> {
+  const lease = job.lease;
+  job.lastError = err instanceof Error ? err.message : String(err);
+  job.lease = undefined;
+
+  if (err instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+    job.status = "dead";
+    await finish(job, DEAD_KEY, lease);
+    return job;
+  }
+
+  job.status = "queued";
+  job.runAt = Date.now() + backoffMs(job.attempts);
+  await save(job);
+  await release(job, lease, false);
+  return job;
+}
+
+/** Jobs currently queued or running, and the dead-letter set, of one workspace */
+export async function listJobs(workspaceId: string) {
+  const kv = getKv();
+  const [queuedIds, deadIds] = await Promise.all([
+    kv.smembers(QUEUED_KEY),
+    kv.smembers(DEAD_KEY),
+  ]);
+  const load = async (ids: string[]) =>
+    (await Promise.all(ids.map(getJob))).filter(
+      (j): j is Job => !!j && jobDocument(j).workspaceId === workspaceId
+    );
+  return { queued: await load(queuedIds), dead: await load(deadIds) };
+}
+
+/**
+ * Moves a dead job back to the queue with a fresh set of attempts. Jobs of
+ * other workspaces are treated as missing. When the same (type, document)
+ * pair has been queued again since, that live job is returned instead and
+ * the dead one stays dead.
+ */
+export async function requeueDead(id: string, workspaceId: string): Promise<Job | null> {
+  const kv = getKv();
+  const job = await getJob(id);
+  if (!job || job.status !== "dead") return null;
+  if (jobDocument(job).workspaceId !== workspaceId) return null;
+
+  // Same claim on the active marker as enqueue()
+  const active = ACTIVE_KEY(job.type, job.documentId);
+  if (!(await kv.set(active, id, { nx: true }))) {
+    const existing = await activeJobFor(job.type, job.documentId);
+    if (existing) return existing;
+    await kv.set(active, id);
+  }
+
+  job.status = "queued";
+  job.attempts = 0;
+  job.runAt = Date.now();
+  await save(job);
+  await kv.srem(DEAD_KEY, id);
+  await kv.sadd(QUEUED_KEY, id);
+  return job;
+}
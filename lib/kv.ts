@@ -0,0 +1,436 @@
+// lib/kv.ts
+// The handful of Redis commands the app uses, behind one interface so the
+// same code runs on Vercel KV / Upstash or on a local in-process store.
+//
+//   DOCUMENT_STORE = kv | memory | file
+//   DOCUMENT_STORE_PATH = .data/store.json   (file backend only)
+//
+// Without DOCUMENT_STORE, "kv" is used when KV_* or UPSTASH_* credentials are
+// present, otherwise "memory".
+import fs from "fs";
+import path from "path";
+import { kv, createClient } from "@vercel/kv";
+import { fileVersion, withFileLock } from "./filelock";
+
+export type SetOptions = {
+  ex?: number; // expire after this many seconds
+  nx?: boolean; // only set if the key does not exist
+};
+
+export interface KvClient {
+  readonly backend: string;
+  get<T>(key: string): Promise<T | null>;
+  /** Returns false when `nx` was set and the key already existed */
+  set(key: string, value: unknown, opts?: SetOptions): Promise<boolean>;
+  del(...keys: string[]): Promise<void>;
+  /** Deletes `key` only while its value is `value`; true if it did */
+  delIfEquals(key: string, value: string): Promise<boolean>;
+  incrby(key: string, by: number): Promise<number>;
+  expire(key: string, seconds: number): Promise<void>;
+  /** Sets `key` to expire in `seconds` only while its value is `value`; true if it did */
+  expireIfEquals(key: string, value: string, seconds: number): Promise<boolean>;
+  hset(key: string, fields: Record<string, unknown>): Promise<void>;
+  /**
+   * hdel `clear`, then hset `fields`, in one step and only while the hash
+   * exists; true if it did. Never recreates a hash deleted in the meantime.
+   */
+  hsetIfExists(
+    key: string,
+    fields: Record<string, unknown>,
+    clear?: string[]
+  ): Promise<boolean>;
+  hgetall<T extends Record<string, unknown>>(key: string): Promise<T | null>;
+  /** hgetall for many keys in one round trip where the backend allows it */
+  hgetallMany<T extends Record<string, unknown>>(
+    keys: string[]
+  ): Promise<Array<T | null>>;
+  /** hset on many keys in as few round trips (or file writes) as possible */
+  hsetMany(entries: Array<[key: string, fields: Record<string, unknown>]>): Promise<void>;
+  hincrby(key: string, field: string, by: number): Promise<number>;
+  /** hincrby on many fields in as few round trips (or file writes) as possible */
+  hincrbyMany(entries: Array<[key: string, field: string, by: number]>): Promise<void>;
+  hdel(key: string, ...fields: string[]): Promise<void>;
+  /** hdel on many keys in as few round trips (or file writes) as possible */
+  hdelMany(entries: Array<[key: string, fields: string[]]>): Promise<void>;
+  sadd(key: string, ...members: string[]): Promise<void>;
+  srem(key: string, ...members: string[]): Promise<void>;
+  smembers(key: string): Promise<string[]>;
+}
+
+type RedisLike = ReturnType<typeof createClient>;
+
+// Commands per pipeline request; keeps Upstash request bodies reasonable
+const PIPELINE_BATCH = 500;
+
+// Compare-and-act scripts: Redis runs each one atomically
+const DEL_IF_EQUALS = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+const EXPIRE_IF_EQUALS = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("expire", KEYS[1], ARGV[2]) else return 0 end`;
+// ARGV: number of fields to clear, those fields, then field/value pairs to set
+const HSET_IF_EXISTS = `if redis.call("exists", KEYS[1]) == 0 then return 0 end
+local n = tonumber(ARGV[1])
+for i = 2, n + 1 do redis.call("hdel", KEYS[1], ARGV[i]) end
+for i = n + 2, #ARGV, 2 do redis.call("hset", KEYS[1], ARGV[i], ARGV[i + 1]) end
+return 1`;
+
+function redisKv(client: RedisLike): KvClient {
+  return {
+    backend: "kv",
+    get: (key) => client.get(key),
+    async set(key, value, opts = {}) {
+      const res = opts.nx
+        ? opts.ex
+          ? await client.set(key, value, { nx: true, ex: opts.ex })
+          : await client.set(key, value, { nx: true })
+        : opts.ex
+          ? await client.set(key, value, { ex: opts.ex })
+          : await client.set(key, value);
+      return res !== null;
+    },
+    async del(...keys) {
+      if (keys.length) await client.del(...keys);
+    },
+    async delIfEquals(key, value) {
+      return (await client.eval<[string], number>(DEL_IF_EQUALS, [key], [value])) === 1;
+    },
+    incrby: (key, by) => client.incrby(key, by),
+    async expire(key, seconds) {
+      await client.expire(key, seconds);
+    },
+    async expireIfEquals(key, value, seconds) {
+      const res = await client.eval<[string, string], number>(
+        EXPIRE_IF_EQUALS,
+        [key],
+        [value, String(seconds)]
+      );
+      return res === 1;
+    },
+    async hset(key, fields) {
+      await client.hset(key, fields);
+    },
+    async hsetIfExists(key, fields, clear = []) {
+      const args = [String(clear.length), ...clear, ...Object.entries(fields).flat()];
+      return (await client.eval<unknown[], number>(HSET_IF_EXISTS, [key], args)) === 1;
+    },
+    hgetall: (key) => client.hgetall(key),
+    async hgetallMany<T extends Record<string, unknown>>(keys: string[]) {
+      if (!keys.length) return [];
+      const pipe = client.pipeline();
+      keys.forEach((k) => pipe.hgetall(k));
+      return (await pipe.exec()) as Array<T | null>;
+    },
+    async hsetMany(entries) {
+      for (let i = 0; i < entries.length; i += PIPELINE_BATCH) {
+        const pipe = client.pipeline();
+        for (const [key, fields] of entries.slice(i, i + PIPELINE_BATCH)) {
+          pipe.hset(key, fields);
+        }
+        await pipe.exec();
+      }
+    },
+    hincrby: (key, field, by) => client.hincrby(key, field, by),
+    async hincrbyMany(entries) {
+      for (let i = 0; i < entries.length; i += PIPELINE_BATCH) {
+        const pipe = client.pipeline();
+        for (const [key, field, by] of entries.slice(i, i + PIPELINE_BATCH)) {
+          pipe.hincrby(key, field, by);
+        }
+        await pipe.exec();
+      }
+    },
+    async hdel(key, ...fields) {
+      if (fields.length) await client.hdel(key, ...fields);
+    },
+    async hdelMany(entries) {
+      const nonEmpty = entries.filter(([, fields]) => fields.length);
+      for (let i = 0; i < nonEmpty.length; i += PIPELINE_BATCH) {
+        const pipe = client.pipeline();
+        for (const [key, fields] of nonEmpty.slice(i, i + PIPELINE_BATCH)) {
+          pipe.hdel(key, ...fields);
+        }
+        await pipe.exec();
+      }
+    },
+    async sadd(key, ...members) {
+      if (members.length) await client.sadd(key, members[0], ...members.slice(1));
+    },
+    async srem(key, ...members) {
+      if (members.length) await client.srem(key, ...members);
+    },
+    async smembers(key) {
+      return (await client.smembers(key)) || [];
+    },
+  };
+}
+
+// ---- local backend --------------------------------------------------------
+
+type Entry =
+  | { t: "str"; v: unknown; exp?: number }
+  | { t: "hash"; v: Record<string, unknown>; exp?: number }
+  | { t: "set"; v: string[]; exp?: number };
+
+/**
+ * In-process KV. With `file`, the data is mirrored to a JSON file after each
+ * write and re-read when another process (e.g., the worker script) changed it.
+ * Writes hold the file's lock (lib/filelock.ts) from re-reading to replacing
+ * it, so processes sharing the file don't lose each other's changes. All file
+ * I/O is synchronous so one command never interleaves with another.
+ */
+export function createLocalKv(file?: string): KvClient {
+  let data = new Map<string, Entry>();
+  let loaded: string | null = null;
+
+  const sync = () => {
+    if (!file) return;
+    const version = fileVersion(file);
+    if (!version || version === loaded) return;
+    data = new Map(Object.entries(JSON.parse(fs.readFileSync(file, "utf8"))));
+    loaded = version;
+  };
+
+  const flush = () => {
+    if (!file) return;
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(Object.fromEntries(data)));
+    fs.renameSync(tmp, file);
+    loaded = fileVersion(file);
+  };
+
+  // Runs one command against the latest data and saves the result
+  const write = <T>(command: () => T): T => {
+    if (!file) return command();
+    return withFileLock(file, () => {
+      sync();
+      const result = command();
+      flush();
+      return result;
+    });
+  };
+
+  // Returns the live entry for a key, dropping it if expired
+  const entry = (key: string) => {
+    const e = data.get(key);
+    if (e?.exp && e.exp <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return e;
+  };
+
+  const hash = (key: string) => {
+    const e = entry(key);
+    if (e?.t === "hash") return e;
+    const fresh: Entry = { t: "hash", v: {} };
+    data.set(key, fresh);
+    return fresh;
+  };
+
+  const set = (key: string) => {
+    const e = entry(key);
+    if (e?.t === "set") return e;
+    const fresh: Entry = { t: "set", v: [] };
+    data.set(key, fresh);
+    return fresh;
+  };
+
+  // JSON round-trip so callers never share references with the store
+  const copy = <T>(v: T): T => (v === undefined ? v : JSON.parse(JSON.stringify(v)));
+
+  const hgetall = <T>(key: string): T | null => {
+    const e = entry(key);
+    return e?.t === "hash" && Object.keys(e.v).length ? copy(e.v as T) : null;
+  };
+
+  // The string value of a key, if it equals `value`
+  const holds = (key: string, value: string) => {
+    const e = entry(key);
+    return e?.t === "str" && e.v === value ? e : undefined;
+  };
+
+  return {
+    backend: file ? "file" : "memory",
+
+    async get<T>(key: string) {
+      sync();
+      const e = entry(key);
+      return e?.t === "str" ? copy(e.v as T) : null;
+    },
+
+    async set(key, value, opts = {}) {
+      return write(() => {
+        if (opts.nx && entry(key)) return false;
+        data.set(key, {
+          t: "str",
+          v: copy(value),
+          exp: opts.ex ? Date.now() + opts.ex * 1000 : undefined,
+        });
+        return true;
+      });
+    },
+
+    async del(...keys) {
+      write(() => keys.forEach((k) => data.delete(k)));
+    },
+
+    async delIfEquals(key, value) {
+      return write(() => !!holds(key, value) && data.delete(key));
+    },
+
+    async incrby(key, by) {
+      return write(() => {
+        const e = entry(key);
+        const next = Number(e?.t === "str" ? e.v : 0) + by;
+        data.set(key, { t: "str", v: next, exp: e?.exp });
+        return next;
+      });
+    },
+
+    async expire(key, seconds) {
+      write(() => {
+        const e = entry(key);
+        if (e) e.exp = Date.now() + seconds * 1000;
+      });
+    },
+
+    async expireIfEquals(key, value, seconds) {
+      return write(() => {
+        const e = holds(key, value);
+        if (e) e.exp = Date.now() + seconds * 1000;
+        return !!e;
+      });
+    },
+
+    async hset(key, fields) {
+      write(() => Object.assign(hash(key).v, copy(fields)));
+    },
+
+    async hsetIfExists(key, fields, clear = []) {
+      return write(() => {
+        const e = entry(key);
+        if (e?.t !== "hash") return false;
+        clear.forEach((f) => delete e.v[f]);
+        Object.assign(e.v, copy(fields));
+        return true;
+      });
+    },
+
+    async hgetall<T extends Record<string, unknown>>(key: string) {
+      sync();
+      return hgetall<T>(key);
+    },
+
+    async hgetallMany<T extends Record<string, unknown>>(keys: string[]) {
+      sync();
+      return keys.map((k) => hgetall<T>(k));
+    },
+
+    async hsetMany(entries) {
+      write(() => {
+        for (const [key, fields] of entries) Object.assign(hash(key).v, copy(fields));
+      });
+    },
+
+    async hincrby(key, field, by) {
+      return write(() => {
+        const h = hash(key);
+        const next = Number(h.v[field] ?? 0) + by;
+        h.v[field] = next;
+        return next;
+      });
+    },
+
+    async hincrbyMany(entries) {
+      write(() => {
+        for (const [key, field, by] of entries) {
+          const h = hash(key);
+          h.v[field] = Number(h.v[field] ?? 0) + by;
+        }
+      });
+    },
+
+    async hdel(key, ...fields) {
+      write(() => {
+        const e = entry(key);
+        if (e?.t === "hash") fields.forEach((f) => delete e.v[f]);
+      });
+    },
+
+    async hdelMany(entries) {
+      write(() => {
+        for (const [key, fields] of entries) {
+          const e = entry(key);
+          if (e?.t !== "hash") continue;
+          fields.forEach((f) => delete e.v[f]);
+          // Redis drops a hash once its last field is gone
+          if (!Object.keys(e.v).length) data.delete(key);
+        }
+      });
+    },
+
+    async sadd(key, ...members) {
+      write(() => {
+        const s = set(key);
+        for (const m of members) if (!s.v.includes(m)) s.v.push(m);
+      });
+    },
+
+    async srem(key, ...members) {
+      write(() => {
+        const e = entry(key);
+        if (e?.t === "set") e.v = e.v.filter((m) => !members.includes(m));
+      });
+    },
+
+    async smembers(key) {
+      sync();
+      const e = entry(key);
+      return e?.t === "set" ? [...e.v] : [];
+    },
+  };
+}
+
+// ---- selection ------------------------------------------------------------
+
+function selectKv(): KvClient {
+  const hasKv = !!(
+    process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN
+  );
+  const hasUpstash = !!(
+    process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+  );
+  const backend =
+    process.env.DOCUMENT_STORE || (hasKv || hasUpstash ? "kv" : "memory");
+
+  if (backend === "kv") {
+    // If default KV_* envs are present use `kv`; else fall back to Upstash envs
+    if (hasKv) return redisKv(kv);
+    if (hasUpstash) {
+      return redisKv(
+        createClient({
+          url: process.env.UPSTASH_REDIS_REST_URL as string,
+          token: process.env.UPSTASH_REDIS_REST_TOKEN as string,
+        })
+      );
+    }
+    throw new Error(
+      "DOCUMENT_STORE=kv needs KV_REST_API_URL/KV_REST_API_TOKEN or UPSTASH_REDIS_REST_URL/UPSTASH_REDIS_REST_TOKEN"
+    );
+  }
+  if (backend === "memory") return createLocalKv();
+  if (backend === "file") {
+    return createLocalKv(
+      process.env.DOCUMENT_STORE_PATH || path.join(".data", "store.json")
+    );
+  }
+  throw new Error(
+    `Unknown DOCUMENT_STORE "${backend}" (use kv, memory or file)`
+  );
+}
+
+// Keep one client per process; globalThis survives Next.js dev reloads
+const g = globalThis as typeof globalThis & { __kv?: KvClient };
+
+export function getKv(): KvClient {
+  if (!g.__kv) g.__kv = selectKv();
+  return g.__kv;
+}
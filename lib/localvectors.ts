@@ -0,0 +1,200 @@
+// lib/localvectors.ts
+// In-process vector store with brute-force cosine search. Good enough for
+// tests and dev laptops (thousands of chunks, not millions). Set
+// LOCAL_VECTOR_PATH to persist the vectors to a JSON file between restarts;
+// workspaces other than the default one get a file next to it
+// (vectors.json -> vectors.<workspace>.json). Like the file KV store, the
+// file is re-read whenever another process (e.g., the worker script) has
+// changed it, writes hold its lock (lib/filelock.ts) from re-reading to
+// replacing it, and file I/O is synchronous so one operation never
+// interleaves with another.
+import fs from "fs";
+import path from "path";
+import { fileVersion, withFileLock } from "./filelock";
+import { documentIdOfVector } from "./id";
+import { DEFAULT_WORKSPACE } from "./workspace";
+import type {
+  ChunkMetadata,
+  FilterCondition,
+  VectorDeleteResult,
+  VectorFilter,
+  VectorRecord,
+  VectorStore,
+  VectorUpdateResult,
+} from "./vectorstore";
+
+function cosine(a: number[], b: number[]) {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+function matchesCondition(value: unknown, cond: FilterCondition) {
+  if (typeof cond === "object" && "$exists" in cond) {
+    return (value !== undefined) === cond.$exists;
+  }
+  const wanted =
+    typeof cond === "object" && "$in" in cond
+      ? cond.$in
+      : [typeof cond === "object" ? cond.$eq : cond];
+  // List-valued metadata matches when any element matches (Pinecone semantics)
+  const values = Array.isArray(value) ? value : [value];
+  return values.some((v) => wanted.includes(v as string | number | boolean));
+}
+
+export function matchesFilter(meta: ChunkMetadata, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([k, cond]) => {
+    if (cond === undefined) return true;
+    if (k === "$or") {
+      return (cond as VectorFilter[]).some((f) => matchesFilter(meta, f));
+    }
+    return matchesCondition(meta[k], cond as FilterCondition);
+  });
+}
+
+export function createLocalVectorStore(file?: string): VectorStore {
+  let records = new Map<string, VectorRecord>();
+  let loaded: string | null = null;
+
+  // Picks up writes from other processes sharing the file
+  const sync = () => {
+    if (!file) return;
+    const version = fileVersion(file);
+    if (!version || version === loaded) return;
+    const saved = JSON.parse(fs.readFileSync(file, "utf8")) as VectorRecord[];
+    records = new Map(saved.map((r) => [r.id, r]));
+    loaded = version;
+  };
+
+  const persist = () => {
+    if (!file) return;
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify([...records.values()]));
+    fs.renameSync(tmp, file);
+    loaded = fileVersion(file);
+  };
+
+  // Runs one change against the latest records and saves them
+  const write = <T>(change: () => T): T => {
+    if (!file) return change();
+    return withFileLock(file, () => {
+      sync();
+      const result = change();
+      persist();
+      return result;
+    });
+  };
+
+  sync();
+
+  return {
+    backend: "local",
+
+    async upsert(batch) {
+      write(() => {
+        for (const r of batch) records.set(r.id, r);
+      });
+    },
+
+    async query({ vector, topK, filter }) {
+      sync();
+      const scored: Array<{ r: VectorRecord; score: number }> = [];
+      for (const r of records.values()) {
+        if (!matchesFilter(r.metadata, filter)) continue;
+        scored.push({ r, score: cosine(vector, r.values) });
+      }
+      scored.sort((a, b) => b.score - a.score);
+      return scored.slice(0, topK).map(({ r, score }) => ({
+        id: r.id,
+        score,
+        metadata: r.metadata,
+      }));
+    },
+
+    async fetch(ids) {
+      sync();
+      return ids
+        .map((id) => records.get(id))
+        .filter((r): r is VectorRecord => !!r)
+        .map((r) => ({ id: r.id, metadata: r.metadata }));
+    },
+
+    async deleteByDocument(documentId): Promise<VectorDeleteResult> {
+      const deleted = write(() => {
+        let n = 0;
+        for (const id of [...records.keys()]) {
+          if (documentIdOfVector(id) !== documentId) continue;
+          records.delete(id);
+          n++;
+        }
+        return n;
+      });
+      return { deleted, failures: [] };
+    },
+
+    async deleteIds(ids): Promise<VectorDeleteResult> {
+      const deleted = write(() => ids.filter((id) => records.delete(id)).length);
+      return { deleted, failures: [] };
+    },
+
+    async updateMetadata(ids, metadata): Promise<VectorUpdateResult> {
+      const updated = write(() => {
+        let n = 0;
+        for (const id of ids) {
+          const r = records.get(id);
+          if (!r) continue;
+          records.set(id, { ...r, metadata: { ...r.metadata, ...metadata } as ChunkMetadata });
+          n++;
+        }
+        return n;
+      });
+      return { updated, failures: [] };
+    },
+
+    async listIds(prefix) {
+      sync();
+      return [...records.keys()].filter((id) => id.startsWith(prefix));
+    },
+
+    async stats() {
+      sync();
+      const first = records.values().next().value as VectorRecord | undefined;
+      return {
+        backend: "local",
+        dimension: first?.values.length,
+        recordCount: records.size,
+      };
+    },
+  };
+}
+
+// Keep one instance per workspace and process; globalThis survives Next.js
+// dev reloads
+const g = globalThis as typeof globalThis & {
+  __localVectors?: Map<string, VectorStore>;
+};
+
+function fileFor(workspaceId: string) {
+  const base = process.env.LOCAL_VECTOR_PATH;
+  if (!base || workspaceId === DEFAULT_WORKSPACE) return base || undefined;
+  const { dir, name, ext } = path.parse(base);
+  return path.join(dir, `${name}.${workspaceId}${ext}`);
+}
+
+export function getLocalVectorStore(workspaceId: string): VectorStore {
+  g.__localVectors ??= new Map();
+  let vectors = g.__localVectors.get(workspaceId);
+  if (!vectors) {
+    vectors = createLocalVectorStore(fileFor(workspaceId));
+    g.__localVectors.set(workspaceId, vectors);
+  }
+  return vectors;
+}
@@ -0,0 +1,241 @@
+// lib/ocr.ts
+// Image OCR with tesseract.js. Language data never comes from a CDN: it is
+// read from OCR_DATA_DIR, which is filled on first use from the installed
+// @tesseract.js-data/<lang> packages (any other <lang>.traineddata dropped
+// into the directory works too). Workers take a second or two and tens of MB
+// to start, so a small pool of them is reused across images.
+//
+//   OCR_LANGUAGES   = default languages, "+"-separated   (default eng)
+//   OCR_CONCURRENCY = workers, i.e. images recognised at once (default 2)
+//   OCR_TIMEOUT_MS  = per-image limit; the worker is terminated (default 60000)
+//   OCR_IDLE_MS     = idle workers are shut down after this long (default 60000)
+//   OCR_DATA_DIR    = .data/tessdata
+import { promises as fs } from "fs";
+import path from "path";
+import { gunzipSync } from "zlib";
+import { OEM, createWorker } from "tesseract.js";
+import type { Worker } from "tesseract.js";
+
+export type OcrResult = {
+  text: string;
+  confidence: number; // tesseract's mean word confidence, 0-100
+  languages: string[];
+};
+
+// Tesseract language codes: "eng", "deu", "chi_sim"...
+const LANGUAGE_CODE = /^[a-z]{3}(_[a-z]+)?$/;
+
+const dataDir = () =>
+  process.env.OCR_DATA_DIR || path.join(".data", "tessdata");
+
+const concurrency = () =>
+  Math.max(1, Number(process.env.OCR_CONCURRENCY) || 2);
+
+const timeoutMs = () => Number(process.env.OCR_TIMEOUT_MS) || 60_000;
+
+const idleMs = () => Number(process.env.OCR_IDLE_MS) || 60_000;
+
+/**
+ * Parses a language selection ("eng+deu", "eng, deu") into codes. Throws on
+ * anything that isn't a language code; availability is checked separately.
+ */
+export function parseLanguages(input: string): string[] {
+  const langs = input
+    .toLowerCase()
+    .split(/[+,\s]+/)
+    .filter(Boolean);
+  const bad = langs.find((l) => !LANGUAGE_CODE.test(l));
+  if (bad) throw new Error(`Invalid OCR language "${bad}"`);
+  return [...new Set(langs)];
+}
+
+export function defaultLanguages(): string[] {
+  try {
+    const langs = parseLanguages(process.env.OCR_LANGUAGES || "eng");
+    return langs.length ? langs : ["eng"];
+  } catch {
+    return ["eng"];
+  }
+}
+
+const exists = (file: string) =>
+  fs.stat(file).then(
+    () => true,
+    () => false
+  );
+
+// The packaged LSTM model for `lang` (OEM.LSTM_ONLY only needs "best_int")
+const packagedData = (lang: string) =>
+  path.join(
+    process.cwd(),
+    "node_modules",
+    "@tesseract.js-data",
+    lang,
+    "4.0.0_best_int",
+    `${lang}.traineddata.gz`
+  );
+
+/** Whether traineddata for `lang` is in OCR_DATA_DIR or an installed package */
+export async function hasLanguage(lang: string) {
+  return (
+    (await exists(path.join(dataDir(), `${lang}.traineddata`))) ||
+    (await exists(packagedData(lang)))
+  );
+}
+
+/** The requested languages that have no traineddata available */
+export async function missingLanguages(langs: string[]) {
+  const have = await Promise.all(langs.map(hasLanguage));
+  return langs.filter((_, i) => !have[i]);
+}
+
+// Copies in flight, so concurrent images don't copy the same language twice
+const copying = new Map<string, Promise<void>>();
+
+async function copyLanguageData(lang: string, dir: string) {
+  const file = path.join(dir, `${lang}.traineddata`);
+  if (await exists(file)) return;
+  const packaged = packagedData(lang);
+  if (!(await exists(packaged))) {
+    throw new Error(
+      `No OCR data for "${lang}": install @tesseract.js-data/${lang} or add ${lang}.traineddata to ${dir}`
+    );
+  }
+  await fs.mkdir(dir, { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, gunzipSync(await fs.readFile(packaged)));
+  await fs.rename(tmp, file);
+}
+
+// Copies packaged data into OCR_DATA_DIR, where the workers read it from
+async function ensureLanguageData(langs: string[]) {
+  const dir = dataDir();
+  for (const lang of langs) {
+    const key = path.join(dir, lang);
+    let pending = copying.get(key);
+    if (!pending) {
+      pending = copyLanguageData(lang, dir).finally(() => copying.delete(key));
+      copying.set(key, pending);
+    }
+    await pending;
+  }
+}
+
+type PooledWorker = {
+  worker: Worker;
+  langs: string; // "+"-joined languages it is initialised with
+  busy: boolean;
+  idleTimer?: NodeJS.Timeout;
+};
+
+const pool: PooledWorker[] = [];
+let starting = 0; // workers being created, counted against the limit
+const waiting: Array<() => void> = [];
+
+function wakeNext() {
+  waiting.shift()?.();
+}
+
+function discard(w: PooledWorker) {
+  clearTimeout(w.idleTimer);
+  const i = pool.indexOf(w);
+  if (i >= 0) pool.splice(i, 1);
+  w.worker.terminate().catch(() => {});
+  wakeNext();
+}
+
+/**
+ * A worker initialised with `langs`. Prefers an idle worker that already has
+ * them, then re-initialises another idle one, then starts a new one while
+ * under OCR_CONCURRENCY; otherwise waits for a worker to be released.
+ */
+async function acquire(langs: string[]): Promise<PooledWorker> {
+  const key = langs.join("+");
+  for (;;) {
+    const idle =
+      pool.find((w) => !w.busy && w.langs === key) ?? pool.find((w) => !w.busy);
+    if (idle) {
+      idle.busy = true;
+      clearTimeout(idle.idleTimer);
+      if (idle.langs !== key) {
+        try {
+          await idle.worker.reinitialize(key, OEM.LSTM_ONLY);
+          idle.langs = key;
+        } catch (e) {
+          discard(idle);
+          throw e;
+        }
+      }
+      return idle;
+    }
+
+    if (pool.length + starting < concurrency()) {
+      starting++;
+      try {
+        const worker = await createWorker(key, OEM.LSTM_ONLY, {
+          langPath: dataDir(),
+          gzip: false,
+          cacheMethod: "none",
+        });
+        const w: PooledWorker = { worker, langs: key, busy: true };
+        pool.push(w);
+        return w;
+      } catch (e) {
+        wakeNext();
+        throw e;
+      } finally {
+        starting--;
+      }
+    }
+
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+}
+
+function release(w: PooledWorker) {
+  w.busy = false;
+  w.idleTimer = setTimeout(() => {
+    if (!w.busy) discard(w);
+  }, idleMs());
+  // Idle workers shouldn't keep a script (npm run worker) alive
+  w.idleTimer.unref();
+  wakeNext();
+}
+
+/**
+ * Recognises the text in an image (PNG, JPEG, ...). At most OCR_CONCURRENCY
+ * images are processed at once; the rest wait for a worker. An image that
+ * takes longer than OCR_TIMEOUT_MS fails, and its worker is terminated since
+ * tesseract can't cancel a recognition.
+ */
+export async function recognizeImage(
+  image: Buffer,
+  langs: string[] = defaultLanguages()
+): Promise<OcrResult> {
+  await ensureLanguageData(langs);
+  const w = await acquire(langs);
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`OCR timed out after ${timeoutMs()}ms`)),
+      timeoutMs()
+    );
+  });
+
+  try {
+    const { data } = await Promise.race([w.worker.recognize(image), timeout]);
+    release(w);
+    return {
+      text: data.text.trim(),
+      confidence: Math.round(data.confidence * 10) / 10,
+      languages: langs,
+    };
+  } catch (e) {
+    // Timed out or crashed: the worker's state is unknown, don't reuse it
+    discard(w);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
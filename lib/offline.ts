@@ -0,0 +1,133 @@
+// lib/offline.ts
+// Network-free providers for CI and laptops:
+// - a deterministic hashing embedder (same text → same vector, shared words → close vectors)
+// - a canned chat responder that answers from the excerpts it is given, with citations
+import type { ChatProvider, EmbeddingProvider, TokenUsage } from "./providers";
+
+const NO_ANSWER =
+  "I don't have enough information in the uploaded documents to answer that.";
+
+// Rough token estimate, same heuristic as chunk.ts
+const estTokens = (s: string) => Math.ceil(s.length / 4);
+
+// 32-bit FNV-1a; stable across runs and platforms
+function fnv1a(s: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Feature-hashing embedder: words, word bigrams and character trigrams are
+ * hashed into `dims` buckets with a hash-derived sign, then L2-normalized.
+ */
+export function hashEmbed(text: string, dims: number): number[] {
+  const v = new Array<number>(dims).fill(0);
+  const add = (feature: string, weight: number) => {
+    const h = fnv1a(feature);
+    v[h % dims] += h & 0x80000000 ? -weight : weight;
+  };
+
+  const ws = words(text);
+  ws.forEach((w, i) => {
+    add(`w:${w}`, 1);
+    if (i > 0) add(`b:${ws[i - 1]} ${w}`, 0.5);
+    const padded = `#${w}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    }
+  });
+
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+  return norm ? v.map((x) => x / norm) : v;
+}
+
+export function createHashEmbedder(dims: number): EmbeddingProvider {
+  return {
+    name: "hash",
+    model: `hash-${dims}`,
+    async embed(input) {
+      const tokens = input.reduce((s, t) => s + estTokens(t), 0);
+      return {
+        embeddings: input.map((t) => hashEmbed(t, dims)),
+        usage: { promptTokens: tokens, completionTokens: 0, totalTokens: tokens },
+      };
+    },
+  };
+}
+
+/**
+ * Pulls the numbered excerpts ("[n] ...") out of the prompt built by /api/chat.
+ * Anything before the first ": " on an excerpt line is treated as its label.
+ */
+function excerptsOf(prompt: string) {
+  const out: Array<{ n: number; text: string }> = [];
+  for (const line of prompt.split("\n")) {
+    const m = line.match(/^\[(\d+)\]\s+(.*)$/);
+    if (!m) continue;
+    const body = m[2];
+    const colon = body.indexOf(": ");
+    out.push({ n: Number(m[1]), text: colon >= 0 ? body.slice(colon + 2) : body });
+  }
+  return out;
+}
+
+function firstSentence(text: string) {
+  const clean = text.replace(/^…/, "").replace(/\s+/g, " ").trim();
+  const m = clean.match(/^.*?[.!?](\s|$)/);
+  return (m ? m[0] : clean.slice(0, 200)).trim();
+}
+
+/**
+ * Canned responder: quotes the first sentence of up to two excerpts that share
+ * a word with the question, citing each as [n]. Deterministic, so tests can
+ * assert on both the answer text and the citations.
+ */
+export function createCannedChat(): ChatProvider {
+  return {
+    name: "canned",
+    model: "canned",
+    async complete(messages) {
+      const prompt = messages[messages.length - 1]?.content || "";
+      const question = prompt.match(/Question:\n(.*)/)?.[1] || "";
+      const qWords = new Set(words(question).filter((w) => w.length > 2));
+
+      const excerpts = excerptsOf(prompt);
+      const relevant = excerpts.filter((e) =>
+        words(e.text).some((w) => qWords.has(w))
+      );
+      const picked = (relevant.length ? relevant : excerpts).slice(0, 2);
+
+      const content = picked.length
+        ? picked.map((e) => `${firstSentence(e.text)} [${e.n}]`).join(" ")
+        : NO_ANSWER;
+
+      const promptTokens = messages.reduce((s, m) => s + estTokens(m.content), 0);
+      const usage: TokenUsage = {
+        promptTokens,
+        completionTokens: estTokens(content),
+        totalTokens: promptTokens + estTokens(content),
+      };
+      return { content, finishReason: "stop", usage };
+    },
+
+    // Replays the canned answer word by word, so streaming clients can be
+    // exercised offline
+    async stream(messages, onDelta, opts = {}) {
+      const result = await this.complete(messages, opts);
+      for (const piece of result.content.match(/\S+\s*/g) || []) {
+        if (opts.signal?.aborted) throw new Error("Aborted");
+        onDelta(piece);
+        await new Promise((r) => setTimeout(r, 15));
+      }
+      return result;
+    },
+  };
+}
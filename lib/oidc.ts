@@ -0,0 +1,238 @@
+// lib/oidc.ts
+// Single sign-on. AUTH_SSO picks the identity provider behind the "Sign in
+// with SSO" button:
+//
+//   oidc   any OpenID Connect provider (authorisation code flow with PKCE)
+//            OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET,
+//            OIDC_SCOPES (default "openid profile email"),
+//            OIDC_USER_SCOPES (default "read,write"),
+//            OIDC_WORKSPACES_CLAIM (claim listing the user's workspaces),
+//            OIDC_GROUPS_CLAIM (claim listing their groups, default "groups")
+//   mock   signs everyone in as AUTH_MOCK_USER with AUTH_MOCK_SCOPES in
+//          AUTH_MOCK_WORKSPACES and AUTH_MOCK_GROUPS, without leaving the
+//          app; for development only and refused in production
+//
+// Unset means no SSO: local accounts and API keys only. The provider redirects
+// back to /api/auth/sso/callback on AUTH_URL (default: the request's origin).
+//
+// SSO users get ids of their own, "oidc:<issuer host>:<sub>" and
+// "mock:<user>": local usernames can't contain ":", so a subject that happens
+// to equal an account name never inherits its documents, grants or quotas.
+import { createHash, randomBytes } from "crypto";
+import { AuthError, parseScopes } from "./auth";
+import type { Principal } from "./auth";
+import { DEFAULT_WORKSPACE, parseWorkspaceId } from "./workspace";
+import { EVERYONE, parseGroups } from "./acl";
+
+/** What the login route remembers (in a signed cookie) until the callback */
+export type SsoState = {
+  state: string;
+  verifier: string; // PKCE code verifier
+  next: string; // where to go after signing in
+};
+
+export interface IdentityProvider {
+  name: string;
+  /** Where to send the browser to sign in */
+  authorizeUrl(sso: SsoState, redirectUri: string): Promise<string>;
+  /** Turns the code the provider sent back into a principal */
+  exchange(code: string, sso: SsoState, redirectUri: string): Promise<Principal>;
+}
+
+export function newSsoState(next: string): SsoState {
+  return {
+    state: randomBytes(16).toString("base64url"),
+    verifier: randomBytes(32).toString("base64url"),
+    next,
+  };
+}
+
+const challenge = (verifier: string) =>
+  createHash("sha256").update(verifier).digest("base64url");
+
+// Workspaces from a claim: a list, or a comma-separated string
+function workspacesFrom(claim: unknown): string[] {
+  const raw = Array.isArray(claim)
+    ? claim.map(String)
+    : typeof claim === "string"
+      ? claim.split(",")
+      : [];
+  const ids = raw.flatMap((w) => {
+    try {
+      return [parseWorkspaceId(w.trim())];
+    } catch {
+      return [];
+    }
+  });
+  return ids.length ? [...new Set(ids)] : [DEFAULT_WORKSPACE];
+}
+
+// Groups from a claim, dropping names an ACL couldn't hold
+function groupsFrom(claim: unknown): string[] {
+  const raw = Array.isArray(claim) ? claim : typeof claim === "string" ? claim.split(",") : [];
+  return raw.flatMap((g) => {
+    try {
+      return parseGroups([g]).filter((x) => x !== EVERYONE);
+    } catch {
+      return [];
+    }
+  });
+}
+
+// ---- OpenID Connect ---------------------------------------------------------------
+
+type Discovery = {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+};
+
+const g = globalThis as typeof globalThis & { __oidcDiscovery?: Promise<Discovery> };
+
+function required(name: string) {
+  const v = process.env[name];
+  if (!v) throw new AuthError(`${name} must be set for AUTH_SSO=oidc`);
+  return v;
+}
+
+function discover(issuer: string): Promise<Discovery> {
+  if (!g.__oidcDiscovery) {
+    const url = `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+    g.__oidcDiscovery = fetch(url)
+      .then(async (res) => {
+        if (!res.ok) throw new AuthError(`OIDC discovery failed: ${res.status}`);
+        return (await res.json()) as Discovery;
+      })
+      .catch((e) => {
+        // Try again on the next sign-in rather than caching the failure
+        g.__oidcDiscovery = undefined;
+        throw e;
+      });
+  }
+  return g.__oidcDiscovery;
+}
+
+function oidcProvider(): IdentityProvider {
+  const issuer = required("OIDC_ISSUER");
+  const clientId = required("OIDC_CLIENT_ID");
+  const clientSecret = process.env.OIDC_CLIENT_SECRET;
+  const scope = process.env.OIDC_SCOPES || "openid profile email";
+  const userScopes = parseScopes(process.env.OIDC_USER_SCOPES || "read,write");
+  const workspacesClaim = process.env.OIDC_WORKSPACES_CLAIM;
+  const groupsClaim = process.env.OIDC_GROUPS_CLAIM || "groups";
+  let issuerHost: string;
+  try {
+    issuerHost = new URL(issuer).host;
+  } catch {
+    throw new AuthError(`OIDC_ISSUER "${issuer}" is not a URL`);
+  }
+
+  return {
+    name: "oidc",
+    async authorizeUrl(sso, redirectUri) {
+      const { authorization_endpoint } = await discover(issuer);
+      const url = new URL(authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: "code",
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        scope,
+        state: sso.state,
+        code_challenge: challenge(sso.verifier),
+        code_challenge_method: "S256",
+      }).toString();
+      return url.toString();
+    },
+    async exchange(code, sso, redirectUri) {
+      const { token_endpoint, userinfo_endpoint } = await discover(issuer);
+      const body = new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectUri,
+        client_id: clientId,
+        code_verifier: sso.verifier,
+      });
+      if (clientSecret) body.set("client_secret", clientSecret);
+      const tokenRes = await fetch(token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body,
+      });
+      if (!tokenRes.ok) throw new AuthError(`OIDC token exchange failed: ${tokenRes.status}`);
+      const { access_token } = (await tokenRes.json()) as { access_token?: string };
+      if (!access_token) throw new AuthError("OIDC provider returned no access token");
+
+      const infoRes = await fetch(userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${access_token}` },
+      });
+      if (!infoRes.ok) throw new AuthError(`OIDC userinfo failed: ${infoRes.status}`);
+      const claims = (await infoRes.json()) as Record<string, unknown>;
+      if (typeof claims.sub !== "string") throw new AuthError("OIDC userinfo has no subject");
+
+      return {
+        type: "user",
+        id: `oidc:${issuerHost}:${claims.sub}`,
+        name: String(claims.email ?? claims.preferred_username ?? claims.name ?? claims.sub),
+        provider: "oidc",
+        scopes: userScopes,
+        workspaces: workspacesFrom(workspacesClaim ? claims[workspacesClaim] : undefined),
+        groups: groupsFrom(claims[groupsClaim]),
+      };
+    },
+  };
+}
+
+// ---- mock -------------------------------------------------------------------------
+
+// Stands in for a real provider: "authorising" redirects straight back to the
+// callback with a code that is simply the state
+function mockProvider(): IdentityProvider {
+  if (process.env.NODE_ENV === "production") {
+    throw new AuthError("AUTH_SSO=mock is not allowed in production");
+  }
+  const user = process.env.AUTH_MOCK_USER || "dev@example.com";
+  const scopes = parseScopes(process.env.AUTH_MOCK_SCOPES || "read,write,admin");
+
+  return {
+    name: "mock",
+    async authorizeUrl(sso, redirectUri) {
+      const url = new URL(redirectUri);
+      url.searchParams.set("code", sso.state);
+      url.searchParams.set("state", sso.state);
+      return url.toString();
+    },
+    async exchange(code, sso) {
+      if (code !== sso.state) throw new AuthError("Invalid mock authorisation code");
+      return {
+        type: "user",
+        id: `mock:${user}`,
+        name: user,
+        provider: "mock",
+        scopes,
+        workspaces: workspacesFrom(process.env.AUTH_MOCK_WORKSPACES),
+        groups: groupsFrom(process.env.AUTH_MOCK_GROUPS),
+      };
+    },
+  };
+}
+
+/** The configured provider, or null when SSO is off */
+export function getIdentityProvider(): IdentityProvider | null {
+  const kind = (process.env.AUTH_SSO || "").toLowerCase();
+  if (!kind) return null;
+  if (kind === "oidc") return oidcProvider();
+  if (kind === "mock") return mockProvider();
+  throw new AuthError(`Unknown AUTH_SSO "${kind}" (use oidc or mock)`);
+}
+
+export const SSO_COOKIE = "sso";
+export const SSO_SECONDS = 10 * 60;
+
+export const callbackUrl = (req: Request) =>
+  new URL("/api/auth/sso/callback", process.env.AUTH_URL || req.url).toString();
+
+/** `next` if it is a path on this site, else "/" (no open redirects) */
+export const safeNext = (next: string | null | undefined) =>
+  next && next.startsWith("/") && !next.startsWith("//") && !next.startsWith("/\\")
+    ? next
+    : "/";
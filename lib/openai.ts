@@ -1,6 +1,25 @@
 // lib/openai.ts
 import OpenAI from "openai";
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// One client per base URL + key. Created lazily so importing this module
+// doesn't throw when OPENAI_API_KEY is unset (offline providers, tests).
+const clients = new Map<string, OpenAI>();
+
+/**
+ * Returns an OpenAI SDK client. `baseURL` lets the same client talk to
+ * OpenAI-compatible servers such as Ollama or llama.cpp.
+ */
+export function getOpenAI(opts: { baseURL?: string; apiKey?: string } = {}) {
+  const baseURL = opts.baseURL || process.env.OPENAI_BASE_URL || undefined;
+  // Local servers ignore the key, but the SDK insists on one
+  const apiKey =
+    opts.apiKey || process.env.OPENAI_API_KEY || (baseURL ? "local" : "");
+  const cacheKey = `${baseURL ?? ""}|${apiKey}`;
+
+  let client = clients.get(cacheKey);
+  if (!client) {
+    client = new OpenAI({ apiKey, baseURL });
+    clients.set(cacheKey, client);
+  }
+  return client;
+}
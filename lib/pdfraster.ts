@@ -0,0 +1,54 @@
+// lib/pdfraster.ts
+// Renders PDF pages to PNG so pages without a text layer (scans) can be OCR'd.
+// Uses pdf.js with @napi-rs/canvas; both are loaded on first use only, since
+// most PDFs never need it.
+import path from "path";
+
+/**
+ * Renders the given 1-based pages at `scale` × 72 DPI (2 ≈ 144 DPI, enough
+ * for tesseract on ordinary print) and yields them one at a time, so only one
+ * page bitmap is held in memory.
+ */
+export async function* renderPdfPages(
+  pdf: Buffer,
+  pages: number[],
+  scale = 2
+): AsyncGenerator<{ page: number; png: Buffer }> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const { createCanvas } = await import("@napi-rs/canvas");
+
+  const doc = await pdfjs.getDocument({
+    // pdf.js takes ownership of (detaches) the array it's given
+    data: new Uint8Array(pdf),
+    standardFontDataUrl:
+      path.join(process.cwd(), "node_modules", "pdfjs-dist", "standard_fonts") +
+      path.sep,
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    for (const n of pages) {
+      if (n < 1 || n > doc.numPages) continue;
+      const page = await doc.getPage(n);
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+      const ctx = canvas.getContext("2d");
+      // Unpainted areas would be transparent; tesseract wants white paper
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({
+        canvas: canvas as unknown as HTMLCanvasElement,
+        canvasContext: ctx as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+      page.cleanup();
+      yield { page: n, png: await canvas.encode("png") };
+    }
+  } finally {
+    await doc.destroy();
+  }
+}
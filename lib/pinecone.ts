@@ -1,5 +1,21 @@
 // lib/pinecone.ts
 import { Pinecone } from "@pinecone-database/pinecone";
+import { vectorIdFor } from "./id";
+import { DEFAULT_WORKSPACE } from "./workspace";
+import type {
+  ChunkMetadata,
+  StoredChunk,
+  VectorDeleteResult,
+  VectorStore,
+  VectorUpdateResult,
+} from "./vectorstore";
+
+// Pinecone accepts at most 1000 ids per delete request
+const DELETE_BATCH = 1000;
+// Fetch sends ids in the query string, so keep requests short
+const FETCH_BATCH = 100;
+// Metadata updates are one request per id; this many run at once
+const UPDATE_CONCURRENCY = 10;
 
 export function getPinecone() {
   const apiKey = process.env.PINECONE_API_KEY;
@@ -8,6 +24,185 @@ export function getPinecone() {
     throw new Error("Missing PINECONE_API_KEY or PINECONE_INDEX_NAME");
   }
   const pc = new Pinecone({ apiKey });
-  const index = pc.index(indexName);
+  const index = pc.index<ChunkMetadata>(indexName);
   return { pc, index };
 }
+
+// An index handle targeting one namespace
+type NamespacedIndex = ReturnType<typeof getPinecone>["index"];
+
+/** Each workspace has its own namespace; the default one uses "" (legacy) */
+export const namespaceFor = (workspaceId: string) =>
+  workspaceId === DEFAULT_WORKSPACE ? "" : workspaceId;
+
+/**
+ * Lists every vector id starting with `prefix`.
+ * Only serverless indexes support listing; pod indexes throw.
+ */
+export async function listVectorIds(
+  index: NamespacedIndex,
+  prefix: string
+): Promise<string[]> {
+  const ids: string[] = [];
+  let paginationToken: string | undefined;
+  do {
+    const page = await index.listPaginated({ prefix, paginationToken });
+    for (const v of page.vectors || []) if (v.id) ids.push(v.id);
+    paginationToken = page.pagination?.next;
+  } while (paginationToken);
+  return ids;
+}
+
+/**
+ * Deletes every vector that belongs to a document.
+ *
+ * Ids are derived from `chunkCount` (what /api/embedding/create wrote) and,
+ * where the index supports listing, from an id-prefix scan so chunks from an
+ * older, longer version of the document are caught too. If neither yields
+ * any ids we fall back to a `documentId` metadata filter (pod indexes only).
+ *
+ * Failures are collected per batch instead of thrown so callers can report
+ * a partial delete.
+ */
+export async function deleteDocumentVectors(
+  index: NamespacedIndex,
+  documentId: string,
+  chunkCount?: number
+): Promise<VectorDeleteResult> {
+  const result: VectorDeleteResult = { deleted: 0, failures: [] };
+
+  const ids = new Set<string>();
+  for (let i = 0; i < (chunkCount ?? 0); i++) {
+    ids.add(vectorIdFor(documentId, i));
+  }
+  try {
+    for (const id of await listVectorIds(index, `${documentId}-`)) ids.add(id);
+  } catch {
+    // listing is unsupported on pod indexes; rely on chunkCount / filter
+  }
+
+  if (!ids.size) {
+    try {
+      await index.deleteMany({ documentId: { $eq: documentId } });
+    } catch (e: unknown) {
+      result.failures.push({
+        ids: [],
+        reason: e instanceof Error ? e.message : "Filter delete failed",
+      });
+    }
+    return result;
+  }
+
+  return deleteVectorIds(index, [...ids]);
+}
+
+/** Deletes ids in batches, collecting failed batches instead of throwing */
+export async function deleteVectorIds(
+  index: NamespacedIndex,
+  ids: string[]
+): Promise<VectorDeleteResult> {
+  const result: VectorDeleteResult = { deleted: 0, failures: [] };
+  for (let i = 0; i < ids.length; i += DELETE_BATCH) {
+    const batch = ids.slice(i, i + DELETE_BATCH);
+    try {
+      await index.deleteMany(batch);
+      result.deleted += batch.length;
+    } catch (e: unknown) {
+      result.failures.push({
+        ids: batch,
+        reason: e instanceof Error ? e.message : "Vector delete failed",
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Merges `metadata` into each vector. Pinecone updates one id per request, so
+ * a few run at a time; failed ids are collected instead of thrown.
+ */
+export async function updateVectorMetadata(
+  index: NamespacedIndex,
+  ids: string[],
+  metadata: Partial<ChunkMetadata>
+): Promise<VectorUpdateResult> {
+  const result: VectorUpdateResult = { updated: 0, failures: [] };
+  for (let i = 0; i < ids.length; i += UPDATE_CONCURRENCY) {
+    const batch = ids.slice(i, i + UPDATE_CONCURRENCY);
+    const settled = await Promise.allSettled(
+      batch.map((id) => index.update({ id, metadata }))
+    );
+    settled.forEach((s, j) => {
+      if (s.status === "fulfilled") result.updated++;
+      else {
+        result.failures.push({
+          ids: [batch[j]],
+          reason: s.reason instanceof Error ? s.reason.message : "Metadata update failed",
+        });
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * VectorStore backed by the Pinecone index named in PINECONE_INDEX_NAME,
+ * limited to the workspace's namespace
+ */
+export function createPineconeVectorStore(workspaceId: string): VectorStore {
+  const namespace = namespaceFor(workspaceId);
+  const index = getPinecone().index.namespace(namespace);
+
+  return {
+    backend: "pinecone",
+
+    async upsert(records) {
+      if (records.length) await index.upsert(records);
+    },
+
+    async query({ vector, topK, filter }) {
+      const res = await index.query({
+        vector,
+        topK,
+        includeMetadata: true,
+        filter,
+      });
+      return (res.matches || [])
+        .filter((m) => m.metadata)
+        .map((m) => ({
+          id: m.id,
+          score: m.score ?? 0,
+          metadata: m.metadata as ChunkMetadata,
+        }));
+    },
+
+    async fetch(ids) {
+      const found: StoredChunk[] = [];
+      for (let i = 0; i < ids.length; i += FETCH_BATCH) {
+        const res = await index.fetch(ids.slice(i, i + FETCH_BATCH));
+        for (const r of Object.values(res.records || {})) {
+          if (r.metadata) found.push({ id: r.id, metadata: r.metadata as ChunkMetadata });
+        }
+      }
+      return found;
+    },
+
+    deleteByDocument: (documentId, chunkCount) =>
+      deleteDocumentVectors(index, documentId, chunkCount),
+
+    deleteIds: (ids) => deleteVectorIds(index, ids),
+
+    updateMetadata: (ids, metadata) => updateVectorMetadata(index, ids, metadata),
+
+    listIds: (prefix) => listVectorIds(index, prefix),
+
+    async stats() {
+      const s = await index.describeIndexStats();
+      return {
+        backend: "pinecone",
+        dimension: s.dimension,
+        recordCount: s.namespaces?.[namespace]?.recordCount ?? 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,330 @@
+// lib/pipeline.ts
+// The processing stages a document goes through after upload. Each stage is
+// safe to re-run: the job worker retries them, and routes call them directly.
+import { getStore, safeParseMetadata } from "./store";
+import { getBlobStore, originalKey, sha256 } from "./blobs";
+import { chunkDocument } from "../chunk";
+import type { ChunkStructure } from "../chunk";
+import { vectorIdFor } from "./id";
+import { getEmbeddingProvider } from "./providers";
+import { getVectorStore } from "./vectorstore";
+import type { VectorDeleteResult, VectorRecord } from "./vectorstore";
+import { detectKind, extractFromBuffer, getExtractor } from "./extract";
+import type { OcrMeta } from "./extract";
+import { indexForKeywords, removeFromKeywordIndex } from "./bm25";
+import { PermanentJobError, enqueue } from "./jobs";
+import type { JobType } from "./jobs";
+import { aclOf, applyAclToVectors, readersOf } from "./acl";
+import { assertEmbedQuota, recordEmbedTokens } from "./quota";
+import { recordUsage } from "./usage";
+import type { DocumentRecord, DocumentRef } from "./types";
+
+/**
+ * Saves the original upload to the blob store, keyed by document id and the
+ * SHA-256 of its bytes (doc.contentHash when the caller already has it). It is
+ * kept for re-extraction and download.
+ */
+export async function storeOriginal(
+  doc: Pick<DocumentRecord, "id" | "fileType" | "contentHash">,
+  buf: Buffer
+) {
+  const contentHash = doc.contentHash || sha256(buf);
+  const blobKey = originalKey(doc.id, contentHash);
+  await getBlobStore().put(blobKey, buf, { contentType: doc.fileType });
+  return { contentHash, blobKey };
+}
+
+export async function hasOriginal(doc: DocumentRecord) {
+  return !!doc.blobKey && (await getBlobStore().head(doc.blobKey)) !== null;
+}
+
+async function loadOriginal(doc: DocumentRecord): Promise<Buffer | null> {
+  return doc.blobKey ? getBlobStore().get(doc.blobKey) : null;
+}
+
+export async function deleteOriginal(doc: DocumentRecord) {
+  if (doc.blobKey) await getBlobStore().delete(doc.blobKey);
+}
+
+/**
+ * Deletes a document everywhere: its vectors and keyword index entries first
+ * (so its chunks stop showing up in search and chat), then the record and the
+ * stored original. A failed
+ * vector batch doesn't block the delete; it is returned so the caller can
+ * report it, and /api/vectors/reconcile can clean it up later.
+ */
+export async function removeDocument(
+  doc: DocumentRecord
+): Promise<VectorDeleteResult> {
+  let vectors: VectorDeleteResult;
+  try {
+    vectors = await getVectorStore(doc.workspaceId).deleteByDocument(
+      doc.id,
+      doc.chunkCount
+    );
+  } catch (e: unknown) {
+    vectors = {
+      deleted: 0,
+      failures: [
+        {
+          ids: [],
+          reason: e instanceof Error ? e.message : "Vector delete failed",
+        },
+      ],
+    };
+  }
+  try {
+    await removeFromKeywordIndex(doc);
+  } catch (e) {
+    console.warn(`⚠️ Failed to drop ${doc.id} from the keyword index:`, e);
+  }
+
+  await getStore(doc.workspaceId).delete(doc.id);
+
+  // The original file is only needed while the record exists
+  try {
+    await deleteOriginal(doc);
+  } catch (e) {
+    console.warn(`⚠️ Failed to delete original for ${doc.id}:`, e);
+  }
+  return vectors;
+}
+
+/**
+ * Extracts text from the stored original and moves the document to "embedding".
+ * Throws PermanentJobError when there is nothing left to extract from.
+ */
+export async function extractDocument(ref: DocumentRef): Promise<DocumentRecord> {
+  const { id } = ref;
+  const store = getStore(ref.workspaceId);
+  const doc = await store.get(id);
+  if (!doc) throw new PermanentJobError(`Document ${id} no longer exists`);
+
+  const buf = await loadOriginal(doc);
+  if (!buf) {
+    throw new PermanentJobError("Original file is not available");
+  }
+
+  await store.update(id, { processingStatus: "extracting" });
+  const kind = detectKind(doc.fileType, doc.filename);
+  const metadata = safeParseMetadata(doc.metadata);
+  const { text, meta } = await extractFromBuffer(buf, kind, {
+    ocrLanguages: metadata.ocrLanguages,
+  });
+  console.log(`✅ Extracted ${text.length} characters from ${doc.filename}`);
+
+  // The extractor's metadata (page count, sheet names, OCR confidence...) is
+  // kept with the document; fields it didn't set this time are cleared.
+  // truncatedFrom can come from any extractor (see MAX_EXTRACTED_CHARS).
+  for (const field of [...getExtractor(kind).metaFields, "truncatedFrom" as const]) {
+    if (meta[field] !== undefined) metadata[field] = meta[field];
+    else delete metadata[field];
+  }
+
+  const updated = await store.update(id, {
+    extractedContent: text,
+    metadata: JSON.stringify(metadata),
+    processingStatus: "embedding",
+    errorMessage: undefined,
+  });
+  return updated as DocumentRecord;
+}
+
+/**
+ * OCR confidence for a chunk: an image's confidence applies to all of its
+ * chunks; for a PDF, the lowest confidence among the OCR'd pages the chunk
+ * spans (undefined when its pages had a text layer).
+ */
+function ocrConfidenceFor(ocr?: OcrMeta) {
+  return (structure?: ChunkStructure): number | undefined => {
+    if (!ocr) return undefined;
+    if (!ocr.pages) return ocr.confidence;
+    const { pageStart, pageEnd = pageStart } = structure ?? {};
+    if (pageStart === undefined || pageEnd === undefined) return undefined;
+    const spanned = ocr.pages.filter(
+      (p) => p.page >= pageStart && p.page <= pageEnd
+    );
+    return spanned.length
+      ? Math.min(...spanned.map((p) => p.confidence))
+      : undefined;
+  };
+}
+
+const withOcrConfidence = (ocrConfidence?: number) =>
+  ocrConfidence !== undefined ? { ocrConfidence } : {};
+
+/**
+ * Chunks and embeds a document's extractedContent, upserts the vectors,
+ * rebuilds its keyword (BM25) index entries and marks the document completed.
+ *
+ * Vector ids are stable per chunk index, so re-embedding overwrites in place;
+ * chunks left over from a previous, longer version are deleted afterwards.
+ * Nothing is written until every batch has been embedded.
+ */
+export async function embedDocument(
+  doc: DocumentRecord,
+  opts: { batchSize?: number } = {}
+): Promise<{ chunks: number }> {
+  const batchSize = opts.batchSize ?? 64;
+
+  if (!doc.extractedContent?.trim()) {
+    throw new PermanentJobError("Document has no extractedContent");
+  }
+
+  // - strategy by document kind: headings, pages, CSV rows or plain text
+  // - 1000 tokens target per chunk (~4000 characters)
+  // - 100 token overlap between chunks maintains context continuity
+  const kind = detectKind(doc.fileType, doc.filename);
+  const metadata = safeParseMetadata(doc.metadata);
+  const chunks = chunkDocument(kind, doc.extractedContent, {
+    maxTokens: 1000,
+    overlapTokens: 100,
+    pages: metadata.pages,
+  });
+  if (!chunks.length) throw new PermanentJobError("No chunks produced");
+
+  // The heading path is embedded with the text (but not stored in it) so a
+  // section's later chunks still match queries about its heading
+  const embedText = (c: (typeof chunks)[number]) =>
+    c.structure?.headingPath ? `${c.structure.headingPath}\n\n${c.content}` : c.content;
+  const estimate = (batch: typeof chunks) =>
+    Math.ceil(batch.reduce((n, c) => n + embedText(c).length, 0) / 4);
+
+  // Fail before spending anything when the month's token quota can't cover
+  // the document (estimated at ~4 characters per token)
+  await assertEmbedQuota(doc.workspaceId, estimate(chunks));
+
+  const ocrConfidence = ocrConfidenceFor(metadata.ocr);
+  // Copied onto every chunk so retrieval can filter by who may read it
+  const aclReaders = readersOf(aclOf(doc));
+
+  const embedder = getEmbeddingProvider();
+  const vectors: VectorRecord[] = [];
+  let tokens = 0;
+  let cost = 0;
+  for (let i = 0; i < chunks.length; i += batchSize) {
+    const batch = chunks.slice(i, i + batchSize);
+    const embedded = await embedder.embed(batch.map(embedText));
+    const { embeddings } = embedded;
+    // Counted as spent even if a later batch fails; some servers report no usage
+    const usage = embedded.usage.totalTokens
+      ? embedded.usage
+      : { promptTokens: estimate(batch), completionTokens: 0, totalTokens: estimate(batch) };
+    await recordEmbedTokens(doc.workspaceId, usage.totalTokens);
+    // Billed to the uploader
+    cost += await recordUsage({
+      kind: "embed",
+      model: embedder.model,
+      usage,
+      workspaceId: doc.workspaceId,
+      principal: aclOf(doc).owner,
+      documentId: doc.id,
+    });
+    tokens += usage.totalTokens;
+    embeddings.forEach((values, j) => {
+      const chunk = batch[j];
+      vectors.push({
+        id: vectorIdFor(doc.id, chunk.chunkIndex),
+        values,
+        metadata: {
+          documentId: doc.id,
+          filename: doc.filename,
+          fileType: doc.fileType,
+          uploadDate: doc.uploadDate,
+          chunkIndex: chunk.chunkIndex,
+          content: chunk.content,
+          aclReaders,
+          ...withOcrConfidence(ocrConfidence(chunk.structure)),
+          // Pinecone rejects null/undefined metadata values
+          ...Object.fromEntries(
+            Object.entries(chunk.structure ?? {}).filter(([, v]) => v !== undefined)
+          ),
+        },
+      });
+    });
+  }
+
+  const vectorStore = getVectorStore(doc.workspaceId);
+  await vectorStore.upsert(vectors);
+
+  const previous = doc.chunkCount ?? 0;
+  if (previous > chunks.length) {
+    const stale = [];
+    for (let i = chunks.length; i < previous; i++) {
+      stale.push(vectorIdFor(doc.id, i));
+    }
+    const res = await vectorStore.deleteIds(stale);
+    if (res.failures.length) {
+      console.warn(`⚠️ ${res.failures.length} stale vector batch(es) left for ${doc.id}`);
+    }
+  }
+
+  await indexForKeywords(doc, chunks);
+
+  const updated = await getStore(doc.workspaceId).update(doc.id, {
+    chunkCount: chunks.length,
+    processingStatus: "completed",
+    errorMessage: undefined,
+    embeddingCost: {
+      model: embedder.model,
+      tokens,
+      cost,
+      totalCost: (doc.embeddingCost?.totalCost ?? 0) + cost,
+      embeddedAt: new Date().toISOString(),
+    },
+  });
+
+  // The ACL was changed while we were embedding: the vectors have the old one
+  if (updated && readersOf(aclOf(updated)).join() !== aclReaders.join()) {
+    const res = await applyAclToVectors(updated);
+    if (res.failures.length) {
+      console.warn(`⚠️ ACL not applied to ${res.failures.length} vector(s) of ${doc.id}`);
+    }
+  }
+  return { chunks: chunks.length };
+}
+
+/** Loads a document and runs embedDocument on it */
+export async function embedById(ref: DocumentRef) {
+  const doc = await getStore(ref.workspaceId).get(ref.id);
+  if (!doc) throw new PermanentJobError(`Document ${ref.id} no longer exists`);
+  return embedDocument(doc);
+}
+
+// Either the job to queue, or why the document can't be reprocessed
+export type ReprocessPlan = { job?: JobType; reason?: string };
+
+/**
+ * Decides how to rebuild a document: re-extract from the retained upload when
+ * asked (or when there is no text yet), otherwise re-chunk and re-embed the
+ * stored extractedContent.
+ */
+export async function planReprocess(
+  doc: DocumentRecord,
+  opts: { reextract?: boolean } = {}
+): Promise<ReprocessPlan> {
+  const hasText = !!doc.extractedContent?.trim();
+  if (opts.reextract || !hasText) {
+    if (await hasOriginal(doc)) return { job: "extract" };
+    return {
+      reason: hasText
+        ? "The original file is no longer retained; reprocess without reextract"
+        : "No extracted text and the original file is no longer retained; re-upload it",
+    };
+  }
+  return { job: "reindex" };
+}
+
+/**
+ * Flags the document as back in progress, then queues the planned job (in
+ * that order, so a worker that claims the job at once can't have its status
+ * overwritten). The watchdog's retry count starts over.
+ */
+export async function queueReprocess(doc: DocumentRecord, job: JobType) {
+  await getStore(doc.workspaceId).update(doc.id, {
+    processingStatus: job === "extract" ? "extracting" : "embedding",
+    errorMessage: undefined,
+    retryHistory: undefined,
+  });
+  return enqueue(job, doc);
+}
@@ -0,0 +1,202 @@
+// lib/providers.ts
+// Embedding and chat model providers, selected by env:
+//
+//   EMBEDDING_PROVIDER = openai | ollama | llamacpp | hash   (default openai)
+//   EMBEDDING_MODEL, EMBEDDING_BASE_URL, EMBEDDING_API_KEY
+//   CHAT_PROVIDER      = openai | ollama | llamacpp | canned (default openai)
+//   CHAT_MODEL, CHAT_BASE_URL, CHAT_API_KEY
+//
+// "ollama" and "llamacpp" are the OpenAI-compatible client pointed at the
+// server's usual local address. "hash" and "canned" never touch the network.
+import { getOpenAI } from "./openai";
+import { createCannedChat, createHashEmbedder } from "./offline";
+import { recordUsage } from "./usage";
+import type { UsageContext } from "./usage";
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  /** Embeds each input string; output order matches input order */
+  embed(input: string[]): Promise<{ embeddings: number[][]; usage: TokenUsage }>;
+}
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ChatOptions = {
+  temperature?: number;
+  signal?: AbortSignal;
+};
+
+export type ChatResult = {
+  content: string;
+  finishReason: string;
+  usage: TokenUsage;
+};
+
+export interface ChatProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: ChatMessage[], opts?: ChatOptions): Promise<ChatResult>;
+  /**
+   * Like complete(), but calls onDelta with each piece of the answer as it is
+   * generated. Resolves with the full result once the model finishes; rejects
+   * if opts.signal aborts first.
+   */
+  stream(
+    messages: ChatMessage[],
+    onDelta: (text: string) => void,
+    opts?: ChatOptions
+  ): Promise<ChatResult>;
+}
+
+// Default base URLs for the OpenAI-compatible local servers
+const LOCAL_BASE_URLS: Record<string, string> = {
+  ollama: "http://localhost:11434/v1",
+  llamacpp: "http://localhost:8080/v1",
+};
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+const DEFAULT_CHAT_MODEL = "gpt-4o-mini";
+
+function openAIEmbedder(
+  name: string,
+  model: string,
+  baseURL?: string,
+  apiKey?: string
+): EmbeddingProvider {
+  return {
+    name,
+    model,
+    async embed(input) {
+      const resp = await getOpenAI({ baseURL, apiKey }).embeddings.create({
+        model,
+        input,
+      });
+      // Some compatible servers omit usage; report zeros rather than failing
+      const prompt = resp.usage?.prompt_tokens ?? 0;
+      return {
+        embeddings: resp.data.map((d) => d.embedding),
+        usage: {
+          promptTokens: prompt,
+          completionTokens: 0,
+          totalTokens: resp.usage?.total_tokens ?? prompt,
+        },
+      };
+    },
+  };
+}
+
+function openAIChat(
+  name: string,
+  model: string,
+  baseURL?: string,
+  apiKey?: string
+): ChatProvider {
+  return {
+    name,
+    model,
+    async complete(messages, opts = {}) {
+      const chat = await getOpenAI({ baseURL, apiKey }).chat.completions.create(
+        { model, temperature: opts.temperature, messages },
+        { signal: opts.signal }
+      );
+      const choice = chat.choices?.[0];
+      return {
+        content: choice?.message?.content || "",
+        finishReason: choice?.finish_reason || "stop",
+        usage: {
+          promptTokens: chat.usage?.prompt_tokens ?? 0,
+          completionTokens: chat.usage?.completion_tokens ?? 0,
+          totalTokens: chat.usage?.total_tokens ?? 0,
+        },
+      };
+    },
+
+    async stream(messages, onDelta, opts = {}) {
+      const stream = await getOpenAI({ baseURL, apiKey }).chat.completions.create(
+        {
+          model,
+          temperature: opts.temperature,
+          messages,
+          stream: true,
+          // Usage arrives in a final chunk with no choices; servers that don't
+          // support this leave the counts at zero
+          stream_options: { include_usage: true },
+        },
+        { signal: opts.signal }
+      );
+
+      let content = "";
+      let finishReason = "stop";
+      let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      for await (const chunk of stream) {
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens ?? 0,
+            completionTokens: chunk.usage.completion_tokens ?? 0,
+            totalTokens: chunk.usage.total_tokens ?? 0,
+          };
+        }
+      }
+      return { content, finishReason, usage };
+    },
+  };
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const name = process.env.EMBEDDING_PROVIDER || "openai";
+  const model = process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+
+  if (name === "hash") {
+    const dims = Number(process.env.EMBEDDING_DIMENSIONS) || 1536;
+    return createHashEmbedder(dims);
+  }
+  if (name === "openai" || name in LOCAL_BASE_URLS) {
+    const baseURL = process.env.EMBEDDING_BASE_URL || LOCAL_BASE_URLS[name];
+    return openAIEmbedder(name, model, baseURL, process.env.EMBEDDING_API_KEY);
+  }
+  throw new Error(
+    `Unknown EMBEDDING_PROVIDER "${name}" (use openai, ollama, llamacpp or hash)`
+  );
+}
+
+export function getChatProvider(): ChatProvider {
+  const name = process.env.CHAT_PROVIDER || "openai";
+  const model = process.env.CHAT_MODEL || DEFAULT_CHAT_MODEL;
+
+  if (name === "canned") return createCannedChat();
+  if (name === "openai" || name in LOCAL_BASE_URLS) {
+    const baseURL = process.env.CHAT_BASE_URL || LOCAL_BASE_URLS[name];
+    return openAIChat(name, model, baseURL, process.env.CHAT_API_KEY);
+  }
+  throw new Error(
+    `Unknown CHAT_PROVIDER "${name}" (use openai, ollama, llamacpp or canned)`
+  );
+}
+
+/**
+ * Convenience for single-string embeddings (queries). With `bill`, the call
+ * is recorded as a query embedding (lib/usage.ts).
+ */
+export async function embedOne(text: string, bill?: UsageContext): Promise<number[]> {
+  const embedder = getEmbeddingProvider();
+  const { embeddings, usage } = await embedder.embed([text]);
+  if (bill) await recordUsage({ ...bill, kind: "query", model: embedder.model, usage });
+  return embeddings[0];
+}
@@ -0,0 +1,190 @@
+// lib/quota.ts
+// Usage quotas. Unset or 0 means unlimited.
+//
+//   QUOTA_MAX_DOCUMENTS        documents stored per workspace
+//   QUOTA_MAX_BYTES            bytes of uploads stored per workspace
+//   QUOTA_EMBED_TOKENS_MONTH   tokens embedded per workspace per calendar month
+//   QUOTA_CHAT_TOKENS_DAY      chat tokens per user or API key per day
+//
+// Months and days are UTC. Storage is counted by the document store; tokens
+// by counters in the KV store:
+//
+//   [ws:<ws>:]usage:embed:<YYYY-MM>        tokens embedded that month
+//   usage:chat:<principal>:<YYYY-MM-DD>    chat tokens used that day
+import { getKv } from "./kv";
+import { getStore } from "./store";
+import { workspacePrefix } from "./workspace";
+import { PermanentJobError } from "./jobs";
+import { principalToken } from "./auth";
+import type { Principal } from "./auth";
+
+export type QuotaName = "documents" | "bytes" | "embedTokensMonth" | "chatTokensDay";
+
+export type QuotaStatus = {
+  used: number;
+  limit: number | null; // null = unlimited
+  resetsAt?: string; // ISO; for the time-based quotas
+};
+
+/**
+ * A quota would be exceeded. Permanent for the job that hit it: retrying
+ * won't help before `retryAfter` (when the period resets), or at all for
+ * storage quotas.
+ */
+export class QuotaExceededError extends PermanentJobError {
+  constructor(
+    message: string,
+    readonly quota: QuotaName,
+    readonly retryAfter?: number // seconds
+  ) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/** Retry-After for a 429, when waiting helps */
+export const quotaHeaders = (e: QuotaExceededError): Record<string, string> =>
+  e.retryAfter ? { "Retry-After": String(e.retryAfter) } : {};
+
+const ENV: Record<QuotaName, string> = {
+  documents: "QUOTA_MAX_DOCUMENTS",
+  bytes: "QUOTA_MAX_BYTES",
+  embedTokensMonth: "QUOTA_EMBED_TOKENS_MONTH",
+  chatTokensDay: "QUOTA_CHAT_TOKENS_DAY",
+};
+
+/** The configured limit, or null when unlimited */
+export function quotaLimit(name: QuotaName): number | null {
+  const n = Number(process.env[ENV[name]]);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+// ---- periods ----------------------------------------------------------------------
+
+const month = (now: Date) => now.toISOString().slice(0, 7); // YYYY-MM
+const day = (now: Date) => now.toISOString().slice(0, 10); // YYYY-MM-DD
+
+const nextMonth = (now: Date) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+const nextDay = (now: Date) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+const secondsUntil = (when: Date, now: Date) =>
+  Math.max(1, Math.ceil((when.getTime() - now.getTime()) / 1000));
+
+const EMBED_KEY = (workspaceId: string, now: Date) =>
+  `${workspacePrefix(workspaceId)}usage:embed:${month(now)}`;
+const CHAT_KEY = (p: Principal, now: Date) =>
+  `usage:chat:${principalToken(p)}:${day(now)}`;
+
+// Counters outlive their period a little, for the usage report
+const EMBED_TTL = 40 * 86_400;
+const CHAT_TTL = 2 * 86_400;
+
+async function counter(key: string) {
+  return Number(await getKv().get<number>(key)) || 0;
+}
+
+async function bump(key: string, by: number, ttl: number) {
+  if (by <= 0) return;
+  const kv = getKv();
+  const total = await kv.incrby(key, Math.round(by));
+  if (total === Math.round(by)) await kv.expire(key, ttl);
+}
+
+// ---- storage ----------------------------------------------------------------------
+
+/**
+ * Throws QuotaExceededError when storing one more document of `bytes` would
+ * go over the workspace's document or byte quota
+ */
+export async function assertStorageQuota(workspaceId: string, bytes: number) {
+  const maxDocs = quotaLimit("documents");
+  const maxBytes = quotaLimit("bytes");
+  if (!maxDocs && !maxBytes) return;
+
+  const usage = await getStore(workspaceId).usage();
+  if (maxDocs && usage.documents + 1 > maxDocs) {
+    throw new QuotaExceededError(
+      `Document quota reached (${maxDocs} per workspace)`,
+      "documents"
+    );
+  }
+  if (maxBytes && usage.bytes + bytes > maxBytes) {
+    throw new QuotaExceededError(
+      `Storage quota reached (${maxBytes} bytes per workspace)`,
+      "bytes"
+    );
+  }
+}
+
+// ---- embedding tokens ----------------------------------------------------------------
+
+/** Throws QuotaExceededError when embedding `tokens` more would go over this month's quota */
+export async function assertEmbedQuota(
+  workspaceId: string,
+  tokens: number,
+  now = new Date()
+) {
+  const limit = quotaLimit("embedTokensMonth");
+  if (!limit) return;
+  const used = await counter(EMBED_KEY(workspaceId, now));
+  if (used + tokens > limit) {
+    throw new QuotaExceededError(
+      `Monthly embedding quota reached (${used} of ${limit} tokens used, ${tokens} needed)`,
+      "embedTokensMonth",
+      secondsUntil(nextMonth(now), now)
+    );
+  }
+}
+
+export const recordEmbedTokens = (workspaceId: string, tokens: number, now = new Date()) =>
+  bump(EMBED_KEY(workspaceId, now), tokens, EMBED_TTL);
+
+// ---- chat tokens ----------------------------------------------------------------------
+
+/** Throws QuotaExceededError once the caller has used up today's chat tokens */
+export async function assertChatQuota(p: Principal, now = new Date()) {
+  const limit = quotaLimit("chatTokensDay");
+  if (!limit) return;
+  const used = await counter(CHAT_KEY(p, now));
+  if (used >= limit) {
+    throw new QuotaExceededError(
+      `Daily chat quota reached (${limit} tokens)`,
+      "chatTokensDay",
+      secondsUntil(nextDay(now), now)
+    );
+  }
+}
+
+export const recordChatTokens = (p: Principal, tokens: number, now = new Date()) =>
+  bump(CHAT_KEY(p, now), tokens, CHAT_TTL);
+
+// ---- report ------------------------------------------------------------------------------
+
+/** Every quota as it stands for `p` in the workspace */
+export async function quotaReport(
+  workspaceId: string,
+  p: Principal,
+  now = new Date()
+): Promise<Record<QuotaName, QuotaStatus>> {
+  const [storage, embedded, chatted] = await Promise.all([
+    getStore(workspaceId).usage(),
+    counter(EMBED_KEY(workspaceId, now)),
+    counter(CHAT_KEY(p, now)),
+  ]);
+  return {
+    documents: { used: storage.documents, limit: quotaLimit("documents") },
+    bytes: { used: storage.bytes, limit: quotaLimit("bytes") },
+    embedTokensMonth: {
+      used: embedded,
+      limit: quotaLimit("embedTokensMonth"),
+      resetsAt: nextMonth(now).toISOString(),
+    },
+    chatTokensDay: {
+      used: chatted,
+      limit: quotaLimit("chatTokensDay"),
+      resetsAt: nextDay(now).toISOString(),
+    },
+  };
+}
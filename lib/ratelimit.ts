@@ -0,0 +1,191 @@
+// lib/ratelimit.ts
+// Token-bucket rate limits per caller and route, checked by middleware.ts.
+// Each caller (user or API key; anonymous callers by IP address) has one
+// bucket per limit below. A bucket holds up to N requests and refills at N
+// per window, so short bursts are fine but the average rate is capped.
+//
+//   RATE_LIMIT_CHAT, RATE_LIMIT_EMBED, RATE_LIMIT_UPLOAD, RATE_LIMIT_SEARCH,
+//   RATE_LIMIT_LOGIN, RATE_LIMIT_API   "<n>/<s|min|hour|day>", or "off"
+//   RATE_LIMITS=off                    disables them all
+//   TRUST_PROXY                        proxies in front of the app whose
+//                                      X-Forwarded-For to trust (default 0,
+//                                      or 1 on Vercel)
+//
+// Anonymous callers are told apart by address only behind a trusted proxy;
+// otherwise X-Forwarded-For is whatever the client sent, so they all share
+// one bucket.
+//
+// Buckets live in the KV store when it is Redis (so every instance shares
+// them) and in process memory otherwise, or when Redis fails. Buckets are
+// read and written without a transaction, so concurrent requests can
+// occasionally slip a request or two past a limit.
+import { getKv } from "./kv";
+
+export type RateLimit = {
+  name: string;
+  requests: number; // bucket size, and requests refilled per window
+  windowSeconds: number;
+};
+
+export type RateLimitResult = {
+  ok: boolean;
+  limit: RateLimit;
+  remaining: number; // requests left after this one
+  retryAfter: number; // seconds until one is free; 0 when ok
+};
+
+// First match wins; "api" covers everything else
+const ROUTES: Array<{ name: string; method: string; path: RegExp; fallback: string }> = [
+  { name: "chat", method: "POST", path: /^\/api\/chat$/, fallback: "20/min" },
+  { name: "embed", method: "POST", path: /^\/api\/embedding\/create$/, fallback: "10/min" },
+  { name: "upload", method: "POST", path: /^\/api\/upload$/, fallback: "10/min" },
+  { name: "search", method: "POST", path: /^\/api\/search$/, fallback: "60/min" },
+  { name: "login", method: "POST", path: /^\/api\/auth\/login$/, fallback: "10/min" },
+  { name: "api", method: "*", path: /^\/api\//, fallback: "300/min" },
+];
+
+const UNITS: Record<string, number> = { s: 1, min: 60, hour: 3600, day: 86400 };
+
+/** "20/min" -> a limit; null for "off" or "0" */
+export function parseRateLimit(name: string, raw: string): RateLimit | null {
+  const value = raw.trim().toLowerCase();
+  if (value === "off" || value === "0") return null;
+  const m = /^(\d+)\s*\/\s*(s|min|hour|day)$/.exec(value);
+  if (!m) {
+    throw new Error(`Invalid RATE_LIMIT_${name.toUpperCase()} "${raw}" (e.g. 20/min, or off)`);
+  }
+  return { name, requests: Number(m[1]), windowSeconds: UNITS[m[2]] };
+}
+
+const limitOf = (route: (typeof ROUTES)[number]) =>
+  parseRateLimit(
+    route.name,
+    process.env[`RATE_LIMIT_${route.name.toUpperCase()}`] || route.fallback
+  );
+
+const disabled = () => (process.env.RATE_LIMITS || "").toLowerCase() === "off";
+
+/** The limit a request falls under, or null when it is unlimited */
+export function rateLimitFor(method: string, pathname: string): RateLimit | null {
+  if (disabled()) return null;
+  const route = ROUTES.find(
+    (r) => (r.method === "*" || r.method === method) && r.path.test(pathname)
+  );
+  return route ? limitOf(route) : null;
+}
+
+/** Every limit in force, for the usage report */
+export function allRateLimits(): RateLimit[] {
+  if (disabled()) return [];
+  return ROUTES.map(limitOf).filter((l): l is RateLimit => !!l);
+}
+
+type Bucket = { tokens: number; at: number }; // at: ms of the last refill
+
+const g = globalThis as typeof globalThis & { __rateBuckets?: Map<string, Bucket> };
+const memory = () => (g.__rateBuckets ??= new Map());
+
+// In-memory buckets untouched for a day are full again; drop them once there
+// are this many
+const MEMORY_BUCKETS = 10_000;
+const pruneMemory = (now: number) => {
+  for (const [key, b] of memory()) {
+    if (now - b.at > 86_400_000) memory().delete(key);
+  }
+};
+
+const ratePerMs = (limit: RateLimit) => limit.requests / (limit.windowSeconds * 1000);
+
+// Requests in `bucket` by now; a new bucket starts full
+const refill = (bucket: Bucket | null | undefined, limit: RateLimit, now: number) =>
+  bucket
+    ? Math.min(limit.requests, bucket.tokens + (now - bucket.at) * ratePerMs(limit))
+    : limit.requests;
+
+// Refills `bucket` up to now and takes one request if there is one
+function take(bucket: Bucket | null | undefined, limit: RateLimit, now: number) {
+  const rate = ratePerMs(limit);
+  const tokens = refill(bucket, limit, now);
+  if (tokens >= 1) return { next: { tokens: tokens - 1, at: now }, retryAfter: 0 };
+  return { next: { tokens, at: now }, retryAfter: Math.ceil((1 - tokens) / rate / 1000) };
+}
+
+/**
+ * Takes one request from the caller's bucket for `limit`. `who` identifies
+ * the caller: a principal token ("user:alice", "key:…") or "ip:<address>".
+ */
+export async function checkRateLimit(
+  limit: RateLimit,
+  who: string,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const key = `ratelimit:${limit.name}:${who}`;
+  const kv = getKv();
+  let result: ReturnType<typeof take> | undefined;
+
+  if (kv.backend === "kv") {
+    try {
+      result = take(await kv.get<Bucket>(key), limit, now);
+      // Forget buckets that have been full for a while
+      await kv.set(key, result.next, { ex: limit.windowSeconds * 2 });
+    } catch (e: unknown) {
+      console.warn(
+        "⚠️ Rate limit store unavailable, using memory:",
+        e instanceof Error ? e.message : e
+      );
+      result = undefined;
+    }
+  }
+  if (!result) {
+    const buckets = memory();
+    result = take(buckets.get(key), limit, now);
+    buckets.set(key, result.next);
+    if (buckets.size > MEMORY_BUCKETS) pruneMemory(now);
+  }
+
+  return {
+    ok: result.retryAfter === 0,
+    limit,
+    remaining: Math.floor(result.next.tokens),
+    retryAfter: result.retryAfter,
+  };
+}
+
+/** Requests left in the caller's bucket for `limit`, without taking one */
+export async function peekRateLimit(limit: RateLimit, who: string, now = Date.now()) {
+  const key = `ratelimit:${limit.name}:${who}`;
+  const kv = getKv();
+  let bucket: Bucket | null | undefined = memory().get(key);
+  if (kv.backend === "kv") {
+    bucket = (await kv.get<Bucket>(key).catch(() => undefined)) ?? bucket;
+  }
+  return Math.floor(refill(bucket, limit, now));
+}
+
+// "true" counts as one proxy; Vercel overwrites X-Forwarded-For itself
+function trustedProxies() {
+  const raw = (process.env.TRUST_PROXY || "").trim().toLowerCase();
+  if (!raw) return process.env.VERCEL ? 1 : 0;
+  if (raw === "true") return 1;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 0 ? n : 0;
+}
+
+/**
+ * The caller's address for anonymous limits: the X-Forwarded-For entry added
+ * by the outermost trusted proxy (each proxy appends the address it saw), or
+ * "anonymous" when no proxy is trusted
+ */
+export function clientIp(req: Request) {
+  const hops = trustedProxies();
+  if (!hops) return "anonymous";
+  const chain = (req.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((a) => a.trim())
+    .filter(Boolean);
+  return (
+    chain[chain.length - hops] ||
+    (hops === 1 && req.headers.get("x-real-ip")) ||
+    "anonymous"
+  );
+}
@@ -0,0 +1,181 @@
+// lib/rerank.ts
+// Optional second pass over retrieved chunks. Retrieval over-fetches a wider
+// candidate set; a reranker scores each candidate against the question and
+// only the best few go on to context packing.
+//
+//   RERANKER          = none | llm | lexical   (default none)
+//   RERANK_CANDIDATES = how many chunks to retrieve for reranking (default 24)
+//
+// "llm" asks the configured chat model to grade each passage; "lexical" is a
+// local heuristic (query-term coverage, phrase matches, retrieval rank) that
+// needs no network and also serves as the fallback when the LLM call fails
+// or its reply can't be parsed. Its tokens count against the caller's daily chat quota,
+// like an answer's.
+import { getChatProvider } from "./providers";
+import type { ChatMessage, ChatResult } from "./providers";
+import { countMessageTokens } from "./tokens";
+import { tokenize } from "./bm25";
+import type { RetrievedChunk } from "./retrieve";
+import { recordUsage } from "./usage";
+import type { UsageContext } from "./usage";
+import { assertChatQuota, recordChatTokens } from "./quota";
+import type { Principal } from "./auth";
+
+export type RerankerName = "none" | "llm" | "lexical";
+export const RERANKERS: RerankerName[] = ["none", "llm", "lexical"];
+
+export interface Reranker {
+  readonly name: RerankerName;
+  /**
+   * Scores every candidate (higher is better) and returns the best `topN`,
+   * each with `rerankScore` set. Candidates arrive in retrieval order.
+   * Model calls are costed to `bill` and, with `quota`, checked against and
+   * counted in that principal's daily chat quota (QuotaExceededError).
+   */
+  rerank(
+    query: string,
+    candidates: RetrievedChunk[],
+    topN: number,
+    opts?: { signal?: AbortSignal; bill?: UsageContext; quota?: Principal }
+  ): Promise<RetrievedChunk[]>;
+}
+
+export function defaultReranker(): RerankerName {
+  const name = process.env.RERANKER as RerankerName | undefined;
+  return name && RERANKERS.includes(name) ? name : "none";
+}
+
+export const rerankCandidates = () =>
+  Number(process.env.RERANK_CANDIDATES) || 24;
+
+const byRerankScore = (a: RetrievedChunk, b: RetrievedChunk) =>
+  (b.rerankScore ?? 0) - (a.rerankScore ?? 0);
+
+// Adjacent term pairs, used to reward passages that contain query phrases
+const bigrams = (terms: string[]) =>
+  terms.slice(1).map((t, i) => `${terms[i]} ${t}`);
+
+/**
+ * Local scorer in [0, 1]: share of distinct query terms the passage contains,
+ * share of the query's word pairs it contains in order, and a small prior
+ * from the retrieval rank so ties keep their original order.
+ */
+function lexicalScores(query: string, candidates: RetrievedChunk[]) {
+  const qTerms = [...new Set(tokenize(query))];
+  const qPairs = new Set(bigrams(tokenize(query)));
+
+  return candidates.map((c, rank) => {
+    const terms = tokenize(c.metadata.content || "");
+    const have = new Set(terms);
+    const coverage = qTerms.length
+      ? qTerms.filter((t) => have.has(t)).length / qTerms.length
+      : 0;
+    const pairs = new Set(bigrams(terms));
+    const phrase = qPairs.size
+      ? [...qPairs].filter((p) => pairs.has(p)).length / qPairs.size
+      : 0;
+    const prior = 1 - rank / candidates.length;
+    return 0.6 * coverage + 0.25 * phrase + 0.15 * prior;
+  });
+}
+
+const lexicalReranker: Reranker = {
+  name: "lexical",
+  async rerank(query, candidates, topN) {
+    const scores = lexicalScores(query, candidates);
+    return candidates
+      .map((c, i) => ({ ...c, rerankScore: scores[i] }))
+      .sort(byRerankScore)
+      .slice(0, topN);
+  },
+};
+
+// Passages are cut to this many characters in the grading prompt
+const LLM_PASSAGE_CHARS = 1200;
+
+const llmReranker: Reranker = {
+  name: "llm",
+  async rerank(query, candidates, topN, opts = {}) {
+    const passages = candidates
+      .map((c, i) => {
+        const text = (c.metadata.content || "").replace(/\s+/g, " ");
+        return `[${i}] ${text.slice(0, LLM_PASSAGE_CHARS)}`;
+      })
+      .join("\n\n");
+
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content:
+          "You grade how well passages answer a question. Reply with JSON only.",
+      },
+      {
+        role: "user",
+        content: [
+          `Question: ${query}`,
+          "",
+          `Passages:\n${passages}`,
+          "",
+          `Rate each passage from 0 (irrelevant) to 10 (directly answers the question).`,
+          `Reply with a JSON array of ${candidates.length} numbers, one per passage, in order.`,
+        ].join("\n"),
+      },
+    ];
+
+    if (opts.quota) await assertChatQuota(opts.quota);
+    const provider = getChatProvider();
+    let reply: ChatResult;
+    try {
+      reply = await provider.complete(messages, { temperature: 0, signal: opts.signal });
+    } catch (e: unknown) {
+      // The caller went away; nothing to rerank for
+      if (opts.signal?.aborted) throw e;
+      // Network errors, timeouts, rate limits: reranking is optional, answer anyway
+      const reason = e instanceof Error ? e.message : String(e);
+      console.warn(`⚠️ LLM reranker failed (${reason}); using lexical`);
+      return lexicalReranker.rerank(query, candidates, topN);
+    }
+    const { content, usage } = reply;
+    // Servers that report no usage count the prompt
+    if (opts.quota) {
+      await recordChatTokens(
+        opts.quota,
+        usage.totalTokens || countMessageTokens(messages, provider.model)
+      );
+    }
+    if (opts.bill) {
+      await recordUsage({ ...opts.bill, kind: "rerank", model: provider.model, usage });
+    }
+
+    const grades = parseGrades(content, candidates.length);
+    if (!grades) {
+      console.warn("⚠️ LLM reranker reply wasn't a list of grades; using lexical");
+      return lexicalReranker.rerank(query, candidates, topN);
+    }
+    return candidates
+      .map((c, i) => ({ ...c, rerankScore: grades[i] / 10 }))
+      .sort(byRerankScore)
+      .slice(0, topN);
+  },
+};
+
+// Pulls the first JSON array out of the reply; null unless it has n numbers
+function parseGrades(reply: string, n: number): number[] | null {
+  const json = reply.match(/\[[\s\S]*?\]/)?.[0];
+  if (!json) return null;
+  try {
+    const grades = JSON.parse(json);
+    if (!Array.isArray(grades) || grades.length !== n) return null;
+    const nums = grades.map(Number);
+    return nums.every(Number.isFinite) ? nums : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The reranker for `name`, or null for "none" */
+export function getReranker(name: RerankerName): Reranker | null {
+  if (name === "llm") return llmReranker;
+  if (name === "lexical") return lexicalReranker;
+  return null;
+}
@@ -0,0 +1,187 @@
+// lib/retrieve.ts
+// Retrieval shared by /api/search and /api/chat: dense vector search, BM25
+// keyword search, or both fused with reciprocal rank fusion (RRF).
+//
+//   RETRIEVAL_MODE = vector | keyword | hybrid   (default hybrid)
+//   HYBRID_ALPHA   = 0..1   weight of the vector ranking in hybrid mode (0.5)
+//   CHUNK_NEIGHBOURS = chunks to add on each side of every hit (default 0)
+import { embedOne } from "./providers";
+import { vectorIdFor } from "./id";
+import { buildFilter, getVectorStore } from "./vectorstore";
+import type { ChunkMetadata } from "./vectorstore";
+import { matchesFilter } from "./localvectors";
+import { keywordSearch } from "./bm25";
+import type { KeywordHit } from "./bm25";
+
+export type RetrievalMode = "vector" | "keyword" | "hybrid";
+export const RETRIEVAL_MODES: RetrievalMode[] = ["vector", "keyword", "hybrid"];
+
+export type RetrieveOptions = {
+  workspaceId: string; // only this workspace's chunks are searched
+  query: string;
+  topK: number;
+  documentIds?: string[];
+  fileTypes?: string[];
+  // Only chunks these reader tokens may read (lib/acl.ts); unset = everything
+  readers?: string[];
+  // Principal token the query embedding is billed to (lib/usage.ts)
+  caller?: string;
+  mode?: RetrievalMode;
+  alpha?: number;
+};
+
+export type RetrievedChunk = {
+  id: string;
+  /**
+   * Ranking score: cosine similarity in vector mode, BM25 in keyword mode,
+   * the fused RRF score in hybrid mode
+   */
+  score: number;
+  vectorScore?: number; // cosine similarity, when the vector search found it
+  keywordScore?: number; // BM25 score, when the keyword search found it
+  rerankScore?: number; // set by lib/rerank.ts when a reranker ran
+  neighbour?: boolean; // added by expandNeighbours, not retrieved itself
+  metadata: ChunkMetadata;
+};
+
+// Most neighbours a request may ask for on each side of a hit
+export const MAX_NEIGHBOURS = 3;
+
+// RRF damping constant from the original paper; keeps top ranks from dominating
+const RRF_K = 60;
+
+export function defaultMode(): RetrievalMode {
+  const mode = process.env.RETRIEVAL_MODE as RetrievalMode | undefined;
+  return mode && RETRIEVAL_MODES.includes(mode) ? mode : "hybrid";
+}
+
+export function defaultNeighbours() {
+  return Math.min(MAX_NEIGHBOURS, Number(process.env.CHUNK_NEIGHBOURS) || 0);
+}
+
+function defaultAlpha() {
+  const alpha = Number(process.env.HYBRID_ALPHA);
+  return Number.isFinite(alpha) && process.env.HYBRID_ALPHA ? alpha : 0.5;
+}
+
+/**
+ * Finds the `topK` chunks most relevant to `query`. Each side of a hybrid
+ * search over-fetches candidates so fusion has something to re-rank.
+ */
+export async function retrieve(opts: RetrieveOptions): Promise<RetrievedChunk[]> {
+  const mode = opts.mode ?? defaultMode();
+  const alpha = Math.min(1, Math.max(0, opts.alpha ?? defaultAlpha()));
+  const filter = buildFilter(opts);
+  const vectors = getVectorStore(opts.workspaceId);
+  const depth = mode === "hybrid" ? Math.max(opts.topK * 3, 20) : opts.topK;
+
+  const [dense, ranked] = await Promise.all([
+    mode === "keyword"
+      ? []
+      : embedOne(opts.query, {
+          workspaceId: opts.workspaceId,
+          principal: opts.caller,
+        }).then((vector) =>
+          vectors.query({ vector, topK: depth, filter })
+        ),
+    mode === "vector"
+      ? []
+      : keywordSearch(opts.query, {
+          workspaceId: opts.workspaceId,
+          documentIds: opts.documentIds,
+        }),
+  ]);
+
+  const byId = new Map<string, RetrievedChunk>();
+  dense.forEach((m, rank) => {
+    byId.set(m.id, {
+      id: m.id,
+      score: mode === "vector" ? m.score : alpha / (RRF_K + rank + 1),
+      vectorScore: m.score,
+      metadata: m.metadata,
+    });
+  });
+
+  // The keyword index knows nothing of file types or ACLs, so every match is
+  // ranked and the best `depth` that pass the filter are kept. Hits the
+  // vector search didn't return need their metadata for that; it is fetched
+  // a page at a time until enough have passed.
+  const lexical: Array<KeywordHit & { metadata?: ChunkMetadata }> = [];
+  for (let i = 0; i < ranked.length && lexical.length < depth; i += depth) {
+    const page = ranked.slice(i, i + depth);
+    const missing = page.filter((h) => !byId.has(h.id)).map((h) => h.id);
+    const fetched = new Map(
+      (missing.length ? await vectors.fetch(missing) : []).map((c) => [c.id, c])
+    );
+    for (const h of page) {
+      if (lexical.length >= depth) break;
+      if (byId.has(h.id)) {
+        lexical.push(h);
+        continue;
+      }
+      const chunk = fetched.get(h.id);
+      // Deleted since indexing, or excluded by the fileType or ACL filter
+      if (!chunk || !matchesFilter(chunk.metadata, filter)) continue;
+      lexical.push({ ...h, metadata: chunk.metadata });
+    }
+  }
+
+  lexical.forEach((h, rank) => {
+    const rrf = (1 - alpha) / (RRF_K + rank + 1);
+    const hit = byId.get(h.id);
+    if (hit) {
+      hit.keywordScore = h.score;
+      hit.score += rrf;
+      return;
+    }
+    byId.set(h.id, {
+      id: h.id,
+      score: mode === "keyword" ? h.score : rrf,
+      keywordScore: h.score,
+      metadata: h.metadata as ChunkMetadata,
+    });
+  });
+
+  return [...byId.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, opts.topK);
+}
+
+/**
+ * "Small-to-big": adds the chunks at chunkIndex ± 1..n of every hit (same
+ * document) so a passage can be read in context. Neighbours come after the
+ * hits, with score 0 and `neighbour: true`; lib/context.ts merges each run of
+ * consecutive chunks into one passage. The hits must come from `workspaceId`.
+ */
+export async function expandNeighbours(
+  workspaceId: string,
+  hits: RetrievedChunk[],
+  n: number
+): Promise<RetrievedChunk[]> {
+  if (n <= 0 || !hits.length) return hits;
+
+  const seen = new Set(hits.map((h) => h.id));
+  const wanted: string[] = [];
+  for (const h of hits) {
+    for (let d = -n; d <= n; d++) {
+      const i = h.metadata.chunkIndex + d;
+      if (d === 0 || i < 0) continue;
+      const id = vectorIdFor(h.metadata.documentId, i);
+      if (seen.has(id)) continue;
+      seen.add(id);
+      wanted.push(id);
+    }
+  }
+
+  // Ids past the end of a document simply aren't found
+  const found = await getVectorStore(workspaceId).fetch(wanted);
+  return [
+    ...hits,
+    ...found.map((c) => ({
+      id: c.id,
+      score: 0,
+      neighbour: true,
+      metadata: c.metadata,
+    })),
+  ];
+}
@@ -0,0 +1,246 @@
+// lib/sniff.ts
+// What a file's bytes actually are, regardless of its name or the MIME type
+// the browser sent, plus checks on ZIP archives (DOCX, XLSX, PPTX, EPUB) that
+// catch decompression bombs before an extractor unpacks them: first the sizes
+// the archive declares, then the bytes its entries really inflate to.
+//
+//   ZIP_MAX_UNCOMPRESSED_BYTES = total size once unzipped (default 200 MB)
+//   ZIP_MAX_RATIO              = uncompressed : compressed, per entry (default 100)
+//   ZIP_MAX_ENTRIES            = files in the archive (default 10000)
+import { createInflateRaw } from "zlib";
+
+export type SniffedFormat =
+  | "empty"
+  | "pdf"
+  | "png"
+  | "jpeg"
+  | "gif"
+  | "webp"
+  | "zip"
+  | "gzip"
+  | "ole" // legacy Office (.doc, .xls, .ppt)
+  | "xml" // XML document, including SVG
+  | "text"
+  | "binary"; // anything else that isn't text
+
+const DESCRIPTIONS: Record<SniffedFormat, string> = {
+  empty: "empty",
+  pdf: "a PDF",
+  png: "a PNG image",
+  jpeg: "a JPEG image",
+  gif: "a GIF image",
+  webp: "a WebP image",
+  zip: "a ZIP archive",
+  gzip: "a gzip archive",
+  ole: "a legacy Office file",
+  xml: "XML",
+  text: "text",
+  binary: "binary data",
+};
+
+export const describeFormat = (f: SniffedFormat) => DESCRIPTIONS[f];
+
+const startsWith = (buf: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((b, i) => buf[offset + i] === b);
+
+// Bytes examined to tell text from binary
+const TEXT_SAMPLE = 8192;
+
+/**
+ * Text unless the sample has NUL bytes or more than 1% control characters
+ * (tab, newlines, form feed and escape are fine). UTF-16 text is recognised
+ * by its byte order mark.
+ */
+function looksLikeText(buf: Buffer) {
+  if (startsWith(buf, [0xff, 0xfe]) || startsWith(buf, [0xfe, 0xff])) return true;
+  const sample = buf.subarray(0, TEXT_SAMPLE);
+  let control = 0;
+  for (const b of sample) {
+    if (b === 0) return false;
+    if (b < 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0d && b !== 0x0c && b !== 0x1b) {
+      control++;
+    }
+  }
+  return control <= sample.length / 100;
+}
+
+/** Identifies a file from its leading bytes ("magic numbers") */
+export function sniffFormat(buf: Buffer): SniffedFormat {
+  if (!buf.length) return "empty";
+  // "%PDF-" may follow a little junk; readers accept it within the first 1 KB
+  if (buf.subarray(0, 1024).includes("%PDF-")) return "pdf";
+  if (startsWith(buf, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (startsWith(buf, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (buf.subarray(0, 6).toString("latin1").match(/^GIF8[79]a$/)) return "gif";
+  if (buf.subarray(0, 4).toString("latin1") === "RIFF" && buf.subarray(8, 12).toString("latin1") === "WEBP") {
+    return "webp";
+  }
+  // Local file header, or the end-of-central-directory record of an empty archive
+  if (startsWith(buf, [0x50, 0x4b, 0x03, 0x04]) || startsWith(buf, [0x50, 0x4b, 0x05, 0x06])) {
+    return "zip";
+  }
+  if (startsWith(buf, [0x1f, 0x8b])) return "gzip";
+  if (startsWith(buf, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return "ole";
+
+  if (!looksLikeText(buf)) return "binary";
+  const head = buf
+    .subarray(0, 4096)
+    .toString("utf8")
+    .replace(/^\uFEFF/, "")
+    .trimStart();
+  if (/^<\?xml\b/.test(head) || /^(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg\b|<svg\b)/i.test(head)) {
+    return "xml";
+  }
+  return "text";
+}
+
+export type ZipEntry = {
+  name: string;
+  compressed: number;
+  uncompressed: number; // as declared; only inflating tells the real size
+  method: number; // 0 = stored, 8 = deflate
+  offset: number; // of the entry's local file header
+};
+
+// ZIP64 marks sizes it moved to an extra field with this value
+const ZIP64 = 0xffffffff;
+
+/**
+ * Reads a ZIP archive's central directory (names and declared sizes; nothing
+ * is decompressed). Null when there is no readable central directory.
+ */
+export function zipEntries(buf: Buffer): ZipEntry[] | null {
+  // End of central directory: 22 bytes plus a comment of up to 64 KB
+  const min = Math.max(0, buf.length - 22 - 0xffff);
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= min; i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+  for (let n = 0; n < count; n++) {
+    if (p + 46 > buf.length || buf.readUInt32LE(p) !== 0x02014b50) return null;
+    const nameLength = buf.readUInt16LE(p + 28);
+    entries.push({
+      compressed: buf.readUInt32LE(p + 20),
+      uncompressed: buf.readUInt32LE(p + 24),
+      name: buf.subarray(p + 46, p + 46 + nameLength).toString("utf8"),
+      method: buf.readUInt16LE(p + 10),
+      offset: buf.readUInt32LE(p + 42),
+    });
+    p += 46 + nameLength + buf.readUInt16LE(p + 30) + buf.readUInt16LE(p + 32);
+  }
+  return entries;
+}
+
+const maxUncompressed = () =>
+  Number(process.env.ZIP_MAX_UNCOMPRESSED_BYTES) || 200 * 1024 * 1024;
+const maxRatio = () => Number(process.env.ZIP_MAX_RATIO) || 100;
+const maxEntries = () => Number(process.env.ZIP_MAX_ENTRIES) || 10_000;
+
+// Small entries compress extremely well for honest reasons (blank sheets)
+const RATIO_MIN_BYTES = 1024 * 1024;
+
+/**
+ * Why an archive looks like a decompression bomb, or null if it doesn't:
+ * too many entries, too much data once unzipped, an entry that expands
+ * implausibly, or ZIP64 sizes (never needed for documents this small).
+ * Judges the declared sizes only, which cost nothing to read but can lie;
+ * inflatedZipReason checks what the entries really hold.
+ */
+export function zipBombReason(entries: ZipEntry[]): string | null {
+  if (entries.length > maxEntries()) {
+    return `Archive has ${entries.length} files (limit ${maxEntries()})`;
+  }
+  let total = 0;
+  for (const e of entries) {
+    if (e.uncompressed === ZIP64 || e.compressed === ZIP64) {
+      return `Archive entry ${e.name} uses ZIP64 sizes`;
+    }
+    total += e.uncompressed;
+    const ratio = e.uncompressed / Math.max(1, e.compressed);
+    if (e.uncompressed > RATIO_MIN_BYTES && ratio > maxRatio()) {
+      return `Archive entry ${e.name} expands ${Math.round(ratio)}× (limit ${maxRatio()}×)`;
+    }
+  }
+  if (total > maxUncompressed()) {
+    return `Archive expands to ${Math.round(total / 1024 / 1024)} MB (limit ${Math.round(
+      maxUncompressed() / 1024 / 1024
+    )} MB)`;
+  }
+  return null;
+}
+
+const inMB = (bytes: number) => Math.round(bytes / 1024 / 1024);
+
+/**
+ * Inflates one entry, throwing the output away and counting its bytes as
+ * they come. Stops as soon as the count passes `limit` (the rest is never
+ * inflated); resolves to the count. Rejects when the entry can't be read.
+ */
+function inflatedSize(buf: Buffer, e: ZipEntry, limit: number): Promise<number> {
+  if (e.offset + 30 > buf.length || buf.readUInt32LE(e.offset) !== 0x04034b50) {
+    return Promise.reject(new Error(`Archive entry ${e.name} has no local header`));
+  }
+  const start = e.offset + 30 + buf.readUInt16LE(e.offset + 26) + buf.readUInt16LE(e.offset + 28);
+  const data = buf.subarray(start, start + e.compressed);
+  if (e.method === 0) return Promise.resolve(data.length);
+  if (e.method !== 8) {
+    return Promise.reject(new Error(`Archive entry ${e.name} uses compression method ${e.method}`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const inflate = createInflateRaw();
+    let inflated = 0;
+    inflate.on("data", (chunk: Buffer) => {
+      inflated += chunk.length;
+      if (inflated > limit) {
+        inflate.destroy();
+        resolve(inflated);
+      }
+    });
+    inflate.on("end", () => resolve(inflated));
+    inflate.on("error", (err) =>
+      reject(new Error(`Archive entry ${e.name} is corrupt (${err.message})`))
+    );
+    inflate.end(data);
+  });
+}
+
+/**
+ * Why an archive's entries, once actually inflated, break the ZIP_MAX_*
+ * limits, or null if they don't. Each entry is streamed through the
+ * decompressor with its output counted and discarded, and inflating stops
+ * the moment the archive's total or the entry's ratio goes over: a bomb
+ * costs at most ZIP_MAX_UNCOMPRESSED_BYTES of work, and no memory, to find.
+ */
+export async function inflatedZipReason(
+  buf: Buffer,
+  entries: ZipEntry[]
+): Promise<string | null> {
+  let total = 0;
+  for (const e of entries) {
+    const left = maxUncompressed() - total;
+    const ratioCap = Math.max(RATIO_MIN_BYTES, Math.max(1, e.compressed) * maxRatio());
+    let size: number;
+    try {
+      size = await inflatedSize(buf, e, Math.min(left, ratioCap));
+    } catch (err: unknown) {
+      return err instanceof Error ? err.message : String(err);
+    }
+    if (size > left) {
+      return `Archive expands past the ${inMB(maxUncompressed())} MB limit`;
+    }
+    if (size > ratioCap) {
+      return `Archive entry ${e.name} expands past the ${maxRatio()}× limit`;
+    }
+    total += size;
+  }
+  return null;
+}
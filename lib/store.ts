@@ -1,6 +1,38 @@
 // lib/store.ts
-import { kv, createClient } from "@vercel/kv";
-import type { DocumentRecord, ProcessingStatus } from "./types";
+import { getKv } from "./kv";
+import type { KvClient } from "./kv";
+import { DEFAULT_WORKSPACE, workspacePrefix } from "./workspace";
+import type {
+  DocumentRecord,
+  EmbeddingCost,
+  ProcessingStatus,
+  RetryEntry,
+} from "./types";
+
+/**
+ * Persistence for DocumentRecords. The backend (Vercel KV / Upstash, memory
+ * or a JSON file) is whatever KvClient lib/kv.ts selects from DOCUMENT_STORE.
+ * A store only sees the documents of its workspace; ids from other
+ * workspaces are treated as missing.
+ */
+export type StorageUsage = { documents: number; bytes: number };
+
+export interface DocumentStore {
+  readonly workspaceId: string;
+  list(): Promise<DocumentRecord[]>;
+  get(id: string): Promise<DocumentRecord | undefined>;
+  add(doc: DocumentRecord): Promise<void>;
+  /** Merges `patch` into the stored record; returns it, or undefined if missing */
+  update(
+    id: string,
+    patch: Partial<DocumentRecord>
+  ): Promise<DocumentRecord | undefined>;
+  delete(id: string): Promise<void>;
+  /** Documents whose original has this SHA-256 (see contentHash) */
+  findByHash(contentHash: string): Promise<DocumentRecord[]>;
+  /** How many documents the workspace holds, and their upload sizes in bytes */
+  usage(): Promise<StorageUsage>;
+}
 
 // Enhanced clean function to handle all problematic values
 const clean = (obj: Record<string, unknown>) =>
@@ -15,20 +47,24 @@ const clean = (obj: Record<string, unknown>) =>
     )
   );
 
-// If default KV_* envs are present use `kv`; else fall back to Upstash envs
-const client =
-  process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN
-    ? kv
-    : createClient({
-        url: process.env.UPSTASH_REDIS_REST_URL!, // optional fallback
-        token: process.env.UPSTASH_REDIS_REST_TOKEN!,
-      });
-
-const SET_KEY = "docs:set";
-const DOC_KEY = (id: string) => `doc:${id}`;
+// Keys are per workspace (unprefixed for the default workspace)
+const keysFor = (workspaceId: string) => {
+  const prefix = workspacePrefix(workspaceId);
+  return {
+    SET_KEY: `${prefix}docs:set`,
+    DOC_KEY: (id: string) => `${prefix}doc:${id}`,
+    // contentHash -> ids of documents with that original, for upload dedup
+    HASH_KEY: (hash: string) => `${prefix}hash:${hash}`,
+    // { documents, bytes } counters for quotas; rebuilt from the records
+    // when missing (e.g. for workspaces from before quotas)
+    USAGE_KEY: `${prefix}usage:storage`,
+  };
+};
+// Every workspace that has had a document, for background jobs (watchdog)
+const WORKSPACES_KEY = "workspaces";
 
 // Helper function to safely parse JSON metadata
-const safeParseMetadata = (
+export const safeParseMetadata = (
   metadata: string | undefined
 ): Record<string, any> => {
   if (!metadata) return {};
@@ -61,109 +97,206 @@ const safeStringifyMetadata = (metadata: any): string => {
   return JSON.stringify({});
 };
 
-export const store = {
-  async list(): Promise<DocumentRecord[]> {
-    const ids = (await client.smembers<string[]>(SET_KEY)) || [];
-    if (!ids.length) return [];
-    const pipe = client.pipeline();
-    ids.forEach((id) => pipe.hgetall(DOC_KEY(id)));
-    const rows = (await pipe.exec()) as any[];
-
-    return rows
-      .map((r) => r || null)
-      .filter(Boolean)
-      .map((r) => ({
-        id: r.id,
-        filename: r.filename,
-        fileType: r.fileType,
-        fileSize: Number(r.fileSize),
-        uploadDate: r.uploadDate,
-        extractedContent: r.extractedContent || undefined,
-        processingStatus: r.processingStatus as ProcessingStatus,
-        chunkCount: r.chunkCount ? Number(r.chunkCount) : undefined,
-        errorMessage: r.errorMessage || undefined,
-        // Always return a string (valid JSON) even if the stored value is missing/corrupt
-        metadata: r.metadata || JSON.stringify({}),
-      }));
-  },
-
-  async get(id: string): Promise<DocumentRecord | undefined> {
-    const r = await client.hgetall(DOC_KEY(id));
-    if (!r) return undefined;
-    return {
-      id: r.id as string,
-      filename: r.filename as string,
-      fileType: r.fileType as string,
-      fileSize: Number(r.fileSize),
-      uploadDate: r.uploadDate as string,
-      extractedContent: (r.extractedContent as string) || undefined,
-      processingStatus: r.processingStatus as ProcessingStatus,
-      chunkCount: r.chunkCount ? Number(r.chunkCount) : undefined,
-      errorMessage: (r.errorMessage as string) || undefined,
-      metadata: r.metadata ? (r.metadata as string) : JSON.stringify({}),
-    };
-  },
-
-  async add(doc: DocumentRecord) {
-    const payload = clean({
-      id: doc.id,
-      filename: doc.filename,
-      fileType: doc.fileType,
-      fileSize: String(doc.fileSize),
-      uploadDate: doc.uploadDate,
-      ...(doc.extractedContent && { extractedContent: doc.extractedContent }),
-      processingStatus: doc.processingStatus,
-      ...(doc.chunkCount !== undefined &&
-        doc.chunkCount !== null && { chunkCount: String(doc.chunkCount) }),
-      ...(doc.errorMessage && { errorMessage: doc.errorMessage }),
-      // Ensure metadata is a valid JSON string, even if doc.metadata is undefined
-      metadata: safeStringifyMetadata(doc.metadata),
-    });
-
-    console.log("Payload being stored:", payload);
-    await client.hset(DOC_KEY(doc.id), payload);
-    await client.sadd(SET_KEY, doc.id);
-  },
-
-  async update(id: string, patch: Partial<DocumentRecord>) {
-    const curr = await this.get(id);
-    if (!curr) return;
-
-    const next: DocumentRecord = { ...curr, ...patch };
-
-    const payload = clean({
-      id: next.id,
-      filename: next.filename,
-      fileType: next.fileType,
-      fileSize: String(next.fileSize),
-      uploadDate: next.uploadDate,
-      ...(next.extractedContent && { extractedContent: next.extractedContent }),
-      processingStatus: next.processingStatus,
-      ...(next.chunkCount !== undefined &&
-        next.chunkCount !== null && { chunkCount: String(next.chunkCount) }),
-      ...(next.errorMessage && { errorMessage: next.errorMessage }),
-      metadata: safeStringifyMetadata(next.metadata),
-    });
-
-    console.log("Update payload being stored:", payload);
-    await client.hset(DOC_KEY(id), payload);
-  },
-
-  async delete(id: string) {
-    await client.del(DOC_KEY(id));
-    await client.srem(SET_KEY, id);
-  },
+// List-valued fields are stored as JSON strings (Redis may already have parsed them)
+const parseList = <T>(v: unknown): T[] | undefined => {
+  if (Array.isArray(v)) return v as T[];
+  if (typeof v !== "string" || !v) return undefined;
+  try {
+    const parsed = JSON.parse(v);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Likewise for object-valued fields
+const parseObject = <T>(v: unknown): T | undefined => {
+  if (v && typeof v === "object" && !Array.isArray(v)) return v as T;
+  if (typeof v !== "string" || !v) return undefined;
+  try {
+    const parsed = JSON.parse(v);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
 };
 
+// Hash fields as stored -> DocumentRecord. Redis may hand back numbers for
+// numeric-looking strings, hence the Number()/String() coercions. Records
+// from before workspaces have no workspaceId; they belong to the store's.
+const fromHash = (r: Record<string, unknown>, workspaceId: string): DocumentRecord => ({
+  id: r.id as string,
+  workspaceId: (r.workspaceId as string) || workspaceId,
+  filename: r.filename as string,
+  fileType: r.fileType as string,
+  fileSize: Number(r.fileSize),
+  uploadDate: r.uploadDate as string,
+  updatedAt: (r.updatedAt as string) || undefined,
+  extractedContent: (r.extractedContent as string) || undefined,
+  processingStatus: r.processingStatus as ProcessingStatus,
+  chunkCount: r.chunkCount ? Number(r.chunkCount) : undefined,
+  contentHash: (r.contentHash as string) || undefined,
+  blobKey: (r.blobKey as string) || undefined,
+  errorMessage: (r.errorMessage as string) || undefined,
+  // Always return a string (valid JSON) even if the stored value is missing/corrupt
+  metadata: r.metadata ? (r.metadata as string) : JSON.stringify({}),
+  retryHistory: parseList<RetryEntry>(r.retryHistory),
+  acl:
+    r.aclGroups !== undefined && r.aclGroups !== null
+      ? {
+          owner: (r.aclOwner as string) || null,
+          groups: parseList<string>(r.aclGroups) ?? [],
+        }
+      : undefined,
+  embeddingCost: parseObject<EmbeddingCost>(r.embeddingCost),
+});
+
+// DocumentRecord -> hash fields, dropping empty values
+const toHash = (doc: DocumentRecord) =>
+  clean({
+    id: doc.id,
+    workspaceId: doc.workspaceId,
+    filename: doc.filename,
+    fileType: doc.fileType,
+    fileSize: String(doc.fileSize),
+    uploadDate: doc.uploadDate,
+    updatedAt: new Date().toISOString(),
+    ...(doc.extractedContent && { extractedContent: doc.extractedContent }),
+    processingStatus: doc.processingStatus,
+    ...(doc.chunkCount !== undefined &&
+      doc.chunkCount !== null && { chunkCount: String(doc.chunkCount) }),
+    ...(doc.contentHash && { contentHash: doc.contentHash }),
+    ...(doc.blobKey && { blobKey: doc.blobKey }),
+    ...(doc.errorMessage && { errorMessage: doc.errorMessage }),
+    // Ensure metadata is a valid JSON string, even if doc.metadata is undefined
+    metadata: safeStringifyMetadata(doc.metadata),
+    ...(doc.retryHistory?.length && {
+      retryHistory: JSON.stringify(doc.retryHistory),
+    }),
+    ...(doc.acl && {
+      aclOwner: doc.acl.owner ?? undefined,
+      aclGroups: JSON.stringify(doc.acl.groups),
+    }),
+    ...(doc.embeddingCost && { embeddingCost: JSON.stringify(doc.embeddingCost) }),
+  });
+
+export function createDocumentStore(
+  client: KvClient,
+  workspaceId = DEFAULT_WORKSPACE
+): DocumentStore {
+  const { SET_KEY, DOC_KEY, HASH_KEY, USAGE_KEY } = keysFor(workspaceId);
+  const parse = (r: Record<string, unknown>) => fromHash(r, workspaceId);
+
+  // Adjusts the usage counters, unless they haven't been built yet
+  const bumpUsage = async (documents: number, bytes: number) => {
+    if (!(await client.hgetall(USAGE_KEY))) return;
+    await client.hincrby(USAGE_KEY, "documents", documents);
+    await client.hincrby(USAGE_KEY, "bytes", bytes);
+  };
+
+  return {
+    workspaceId,
+
+    async list() {
+      const ids = await client.smembers(SET_KEY);
+      if (!ids.length) return [];
+      const rows = await client.hgetallMany(ids.map(DOC_KEY));
+      return rows.filter((r) => r !== null).map(parse);
+    },
+
+    async get(id) {
+      const r = await client.hgetall(DOC_KEY(id));
+      return r ? parse(r) : undefined;
+    },
+
+    async add(doc) {
+      if (doc.workspaceId !== workspaceId) {
+        throw new Error(
+          `Document ${doc.id} belongs to workspace ${doc.workspaceId}, not ${workspaceId}`
+        );
+      }
+      await client.hset(DOC_KEY(doc.id), toHash(doc));
+      await client.sadd(SET_KEY, doc.id);
+      await client.sadd(WORKSPACES_KEY, workspaceId);
+      if (doc.contentHash) await client.sadd(HASH_KEY(doc.contentHash), doc.id);
+      await bumpUsage(1, doc.fileSize || 0);
+    },
+
+    async update(id, patch) {
+      const curr = await this.get(id);
+      if (!curr) return undefined;
+
+      // A document never moves between workspaces
+      const next: DocumentRecord = { ...curr, ...patch, workspaceId };
+      const payload = toHash(next);
+
+      // hset only overwrites fields, so drop the ones the patch cleared
+      const cleared = Object.keys(patch).filter(
+        (k) => patch[k as keyof DocumentRecord] === undefined
+      );
+      // Deleted since we read it (e.g. a DELETE racing a background job):
+      // leave it deleted rather than writing it back
+      if (!(await client.hsetIfExists(DOC_KEY(id), payload, cleared))) return undefined;
+
+      if (curr.contentHash !== next.contentHash) {
+        if (curr.contentHash) await client.srem(HASH_KEY(curr.contentHash), id);
+        if (next.contentHash) await client.sadd(HASH_KEY(next.contentHash), id);
+      }
+      return next;
+    },
+
+    async delete(id) {
+      const curr = await this.get(id);
+      await client.del(DOC_KEY(id));
+      await client.srem(SET_KEY, id);
+      if (curr?.contentHash) await client.srem(HASH_KEY(curr.contentHash), id);
+      if (curr) await bumpUsage(-1, -(curr.fileSize || 0));
+    },
+
+    async findByHash(contentHash) {
+      const ids = await client.smembers(HASH_KEY(contentHash));
+      if (!ids.length) return [];
+      const rows = await client.hgetallMany(ids.map(DOC_KEY));
+      return rows.filter((r) => r !== null).map(parse);
+    },
+
+    async usage() {
+      const r = await client.hgetall(USAGE_KEY);
+      if (r) return { documents: Number(r.documents) || 0, bytes: Number(r.bytes) || 0 };
+      const docs = await this.list();
+      const usage = {
+        documents: docs.length,
+        bytes: docs.reduce((n, d) => n + (d.fileSize || 0), 0),
+      };
+      await client.hset(USAGE_KEY, usage);
+      return usage;
+    },
+  };
+}
+
+/** The document store of one workspace */
+export function getStore(workspaceId: string): DocumentStore {
+  return createDocumentStore(getKv(), workspaceId);
+}
+
+/** Workspaces that have documents, the default one always included */
+export async function listWorkspaces(): Promise<string[]> {
+  const ids = await getKv().smembers(WORKSPACES_KEY);
+  return [...new Set([DEFAULT_WORKSPACE, ...ids])];
+}
+
 // Helper functions for consumers who need metadata as objects
-export const getDocumentWithParsedMetadata = async (id: string) => {
-  const doc = await store.get(id);
+export const getDocumentWithParsedMetadata = async (
+  workspaceId: string,
+  id: string
+) => {
+  const doc = await getStore(workspaceId).get(id);
   if (!doc) return undefined;
   return { ...doc, metadata: safeParseMetadata(doc.metadata) };
 };
 
-export const listDocumentsWithParsedMetadata = async () => {
-  const docs = await store.list();
+export const listDocumentsWithParsedMetadata = async (workspaceId: string) => {
+  const docs = await getStore(workspaceId).list();
   return docs.map((doc) => ({
     ...doc,
     metadata: safeParseMetadata(doc.metadata),
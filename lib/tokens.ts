@@ -0,0 +1,76 @@
+// lib/tokens.ts
+// Token counting and context budgets for the configured chat model.
+//
+//   CHAT_CONTEXT_WINDOW    = model context size in tokens (default: by model)
+//   CHAT_MAX_OUTPUT_TOKENS = tokens kept free for the answer (default 1024)
+//   RAG_CONTEXT_TOKENS     = most tokens of retrieved text per question (default 3000)
+//
+// OpenAI models are counted with their own encoding; anything else (Ollama,
+// llama.cpp models) with cl100k_base, which is close enough for budgeting.
+import { getEncoding } from "js-tiktoken";
+import type { Tiktoken, TiktokenEncoding } from "js-tiktoken";
+
+// Context windows by model name prefix, first match wins
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^gpt-4\.1/, 1_047_576],
+  [/^(gpt-4o|chatgpt-4o)/, 128_000],
+  [/^o\d/, 200_000],
+  [/^gpt-4-turbo/, 128_000],
+  [/^gpt-4/, 8_192],
+  [/^gpt-3\.5-turbo/, 16_385],
+  [/llama-?3\.[1-3]/, 128_000],
+  [/(mistral|mixtral|qwen)/, 32_768],
+  [/llama/, 8_192],
+];
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+const encoders = new Map<string, Tiktoken>();
+
+function encoderFor(model: string) {
+  const name: TiktokenEncoding = /^(gpt-4o|chatgpt-4o|gpt-4\.1|o\d)/.test(model)
+    ? "o200k_base"
+    : "cl100k_base";
+  let enc = encoders.get(name);
+  if (!enc) {
+    enc = getEncoding(name);
+    encoders.set(name, enc);
+  }
+  return enc;
+}
+
+export function countTokens(text: string, model: string) {
+  return text ? encoderFor(model).encode(text).length : 0;
+}
+
+/** Chat-format overhead: ~4 tokens per message plus 3 to prime the reply */
+export function countMessageTokens(
+  messages: Array<{ content: string }>,
+  model: string
+) {
+  return messages.reduce((n, m) => n + 4 + countTokens(m.content, model), 3);
+}
+
+/** The first `maxTokens` tokens of `text` */
+export function truncateToTokens(text: string, maxTokens: number, model: string) {
+  const enc = encoderFor(model);
+  const tokens = enc.encode(text);
+  return tokens.length <= maxTokens ? text : enc.decode(tokens.slice(0, maxTokens));
+}
+
+export function contextWindow(model: string) {
+  const configured = Number(process.env.CHAT_CONTEXT_WINDOW);
+  if (configured > 0) return configured;
+  const name = model.toLowerCase();
+  return CONTEXT_WINDOWS.find(([re]) => re.test(name))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens available for retrieved text once the prompt around it (`promptTokens`:
+ * system prompt, history, question) and the answer are accounted for, capped
+ * at RAG_CONTEXT_TOKENS so large-window models don't get the whole corpus.
+ */
+export function contextBudget(model: string, promptTokens: number) {
+  const reserved = Number(process.env.CHAT_MAX_OUTPUT_TOKENS) || 1024;
+  const cap = Number(process.env.RAG_CONTEXT_TOKENS) || 3000;
+  return Math.max(0, Math.min(cap, contextWindow(model) - reserved - promptTokens));
+}
@@ -6,23 +6,64 @@ export type ProcessingStatus =
   | "completed"
   | "error";
 
+// One automatic recovery attempt made by the stuck-document watchdog
+export interface RetryEntry {
+  at: string; // ISO
+  stage: ProcessingStatus; // stage the document was stalled in
+  action: "requeued" | "gave-up";
+  reason: string;
+}
+
+// Who may read a document besides workspace admins (see lib/acl.ts)
+export interface DocumentAcl {
+  owner: string | null; // "user:<id>" or "key:<id>" of the uploader; null if unknown
+  groups: string[]; // groups that may read it; "*" means everyone in the workspace
+}
+
+// What embedding a document cost (see lib/usage.ts)
+export interface EmbeddingCost {
+  model: string;
+  tokens: number; // of the embedding behind the current vectors
+  cost: number; // USD, likewise
+  totalCost: number; // USD, every successful embedding of the document so far
+  embeddedAt: string; // ISO
+}
+
 export interface DocumentRecord {
   id: string;
+  workspaceId: string; // see lib/workspace.ts; never changes
   filename: string;
   fileType: string;
   fileSize: number;
   uploadDate: string; // ISO
+  updatedAt?: string; // ISO; set by the store on every write
   processingStatus: ProcessingStatus;
   extractedContent?: string;
   chunkCount?: number;
 
+  // Original upload in the blob store (lib/blobs.ts)
+  contentHash?: string; // SHA-256 of the uploaded bytes, hex
+  blobKey?: string;
+
   // DB layer stores this as a JSON string; callers may omit it.
   // The store will safely stringify/parse as needed.
   metadata?: string;
 
   errorMessage?: string;
+
+  // Watchdog recoveries, oldest first
+  retryHistory?: RetryEntry[];
+
+  // Missing on documents from before ACLs: readable by the whole workspace
+  acl?: DocumentAcl;
+
+  // Set once the document has been embedded
+  embeddingCost?: EmbeddingCost;
 }
 
+// What it takes to look a document up: its id and the workspace holding it
+export type DocumentRef = Pick<DocumentRecord, "id" | "workspaceId">;
+
 export interface SearchMatch {
   documentId: string;
   filename: string;
@@ -0,0 +1,269 @@
+// lib/usage.ts
+// Token and cost accounting. Every model call — an embedding batch, a query
+// embedding, a chat completion or an LLM rerank — is recorded with its model,
+// tokens and cost, attributed to the workspace and, where known, the user or
+// API key and the document.
+//
+// Costs come from a price table in USD per million tokens: OpenAI's list
+// prices for the default models, overridden or extended by MODEL_PRICES, e.g.
+//
+//   MODEL_PRICES={"gpt-4o-mini":{"input":0.15,"output":0.6},"llama3.1":{"input":0}}
+//
+// Models missing from the table (local ones, usually) are recorded at no cost
+// and reported as unpriced.
+//
+// Calls are rolled up per workspace and UTC day / month, in KV hashes:
+//
+//   [ws:<ws>:]usage:costs:day:<YYYY-MM-DD>
+//   [ws:<ws>:]usage:costs:month:<YYYY-MM>
+//
+// holding one counter per metric for each kind, model and principal, named
+// "<kind|model|principal>|<name>|<metric>". Costs are counted in micro-dollars
+// so the counters stay integers.
+import { getKv } from "./kv";
+import { workspacePrefix } from "./workspace";
+import type { TokenUsage } from "./providers";
+
+export type UsageKind = "embed" | "query" | "chat" | "rerank";
+
+export type ModelPrice = {
+  input: number; // USD per million prompt tokens
+  output?: number; // USD per million completion tokens; default input
+};
+
+// Who a model call is billed to
+export type UsageContext = {
+  workspaceId: string;
+  principal?: string | null; // "user:<id>" or "key:<id>"
+  documentId?: string;
+};
+
+export type UsageEvent = UsageContext & {
+  kind: UsageKind;
+  model: string;
+  usage: TokenUsage;
+};
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // USD
+};
+
+export type UsageRollup = {
+  period: string; // YYYY-MM-DD or YYYY-MM
+  totals: UsageTotals;
+  byKind: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals & { priced: boolean }>;
+  byPrincipal: Record<string, UsageTotals>;
+};
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "text-embedding-3-small": { input: 0.02 },
+  "text-embedding-3-large": { input: 0.13 },
+  "text-embedding-ada-002": { input: 0.1 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+};
+
+let parsed: { raw: string; prices: Record<string, ModelPrice> } | undefined;
+
+/** The price table: the defaults with MODEL_PRICES on top */
+export function modelPrices(): Record<string, ModelPrice> {
+  const raw = process.env.MODEL_PRICES || "";
+  if (parsed?.raw === raw) return parsed.prices;
+
+  let extra: Record<string, ModelPrice> = {};
+  if (raw) {
+    try {
+      const json = JSON.parse(raw);
+      for (const [model, price] of Object.entries(json ?? {})) {
+        const { input, output } = (price ?? {}) as ModelPrice;
+        if (!Number.isFinite(input) || (output !== undefined && !Number.isFinite(output))) {
+          throw new Error(`bad price for "${model}"`);
+        }
+        extra[model] = { input, output };
+      }
+    } catch (e: unknown) {
+      // A broken table shouldn't stop embedding or chat; costs fall back to the defaults
+      console.warn(
+        "⚠️ Ignoring MODEL_PRICES:",
+        e instanceof Error ? e.message : e
+      );
+      extra = {};
+    }
+  }
+  parsed = { raw, prices: { ...DEFAULT_PRICES, ...extra } };
+  return parsed.prices;
+}
+
+/** What `usage` of `model` cost in USD; 0 for unpriced models */
+export function costOf(model: string, usage: TokenUsage) {
+  const price = modelPrices()[model];
+  if (!price) return 0;
+  return (
+    (usage.promptTokens * price.input +
+      usage.completionTokens * (price.output ?? price.input)) /
+    1_000_000
+  );
+}
+
+// ---- recording --------------------------------------------------------------------
+
+const day = (now: Date) => now.toISOString().slice(0, 10); // YYYY-MM-DD
+const month = (now: Date) => now.toISOString().slice(0, 7); // YYYY-MM
+
+const DAY_KEY = (workspaceId: string, period: string) =>
+  `${workspacePrefix(workspaceId)}usage:costs:day:${period}`;
+const MONTH_KEY = (workspaceId: string, period: string) =>
+  `${workspacePrefix(workspaceId)}usage:costs:month:${period}`;
+
+// Rollups kept a little longer than the report reaches back
+const DAY_TTL = 100 * 86_400;
+const MONTH_TTL = 400 * 86_400;
+
+export const MAX_REPORT_DAYS = 90;
+export const MAX_REPORT_MONTHS = 12;
+
+const MICRO = 1_000_000;
+
+/**
+ * Adds one model call to the workspace's daily and monthly rollups and
+ * returns its cost in USD. Never throws: accounting failures are logged,
+ * and the call they were for goes ahead.
+ */
+export async function recordUsage(e: UsageEvent, now = new Date()): Promise<number> {
+  const cost = costOf(e.model, e.usage);
+  console.log(
+    `💰 ${e.kind} ${e.model}: ${e.usage.totalTokens} tokens, $${cost.toFixed(6)}`,
+    `(${[e.workspaceId, e.principal, e.documentId].filter(Boolean).join(", ")})`
+  );
+
+  const metrics: Array<[string, number]> = [
+    ["calls", 1],
+    ["promptTokens", e.usage.promptTokens],
+    ["completionTokens", e.usage.completionTokens],
+    ["microUsd", Math.round(cost * MICRO)],
+  ];
+  const groups = [`kind|${e.kind}`, `model|${e.model}`];
+  if (e.principal) groups.push(`principal|${e.principal}`);
+
+  const keys = [
+    [DAY_KEY(e.workspaceId, day(now)), DAY_TTL],
+    [MONTH_KEY(e.workspaceId, month(now)), MONTH_TTL],
+  ] as const;
+  const entries: Array<[string, string, number]> = [];
+  for (const [key] of keys) {
+    for (const group of groups) {
+      for (const [metric, by] of metrics) {
+        if (by) entries.push([key, `${group}|${metric}`, by]);
+      }
+    }
+  }
+
+  try {
+    const kv = getKv();
+    await kv.hincrbyMany(entries);
+    await Promise.all(keys.map(([key, ttl]) => kv.expire(key, ttl)));
+  } catch (err: unknown) {
+    console.warn(
+      `⚠️ Failed to record ${e.kind} usage:`,
+      err instanceof Error ? err.message : err
+    );
+  }
+  return cost;
+}
+
+// ---- reporting ------------------------------------------------------------------
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+});
+
+function add(t: UsageTotals, metric: string, value: number) {
+  if (metric === "microUsd") t.cost = Math.round(t.cost * MICRO + value) / MICRO;
+  else if (metric === "calls") t.calls += value;
+  else if (metric === "promptTokens" || metric === "completionTokens") {
+    t[metric] += value;
+    t.totalTokens += value;
+  }
+}
+
+// Hash fields -> a rollup; `principal` limits byPrincipal to that caller
+function toRollup(
+  period: string,
+  fields: Record<string, unknown> | null,
+  principal?: string
+): UsageRollup {
+  const rollup: UsageRollup = {
+    period,
+    totals: emptyTotals(),
+    byKind: {},
+    byModel: {},
+    byPrincipal: {},
+  };
+  const prices = modelPrices();
+  for (const [field, raw] of Object.entries(fields ?? {})) {
+    const parts = field.split("|");
+    if (parts.length < 3) continue;
+    const group = parts[0];
+    const metric = parts[parts.length - 1];
+    const name = parts.slice(1, -1).join("|");
+    const value = Number(raw) || 0;
+
+    if (group === "kind") {
+      add((rollup.byKind[name] ??= emptyTotals()), metric, value);
+      add(rollup.totals, metric, value);
+    } else if (group === "model") {
+      add(
+        (rollup.byModel[name] ??= { ...emptyTotals(), priced: name in prices }),
+        metric,
+        value
+      );
+    } else if (group === "principal" && (!principal || name === principal)) {
+      add((rollup.byPrincipal[name] ??= emptyTotals()), metric, value);
+    }
+  }
+  return rollup;
+}
+
+/**
+ * The workspace's daily rollups for the last `days` days and monthly ones for
+ * the last `months` months, newest first. With `principal`, byPrincipal only
+ * shows that caller.
+ */
+export async function usageRollups(
+  workspaceId: string,
+  opts: { days?: number; months?: number; principal?: string } = {},
+  now = new Date()
+): Promise<{ daily: UsageRollup[]; monthly: UsageRollup[] }> {
+  const days = Math.min(MAX_REPORT_DAYS, Math.max(1, opts.days ?? 30));
+  const months = Math.min(MAX_REPORT_MONTHS, Math.max(1, opts.months ?? 12));
+
+  const dayPeriods = Array.from({ length: days }, (_, i) =>
+    day(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - i)))
+  );
+  const monthPeriods = Array.from({ length: months }, (_, i) =>
+    month(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)))
+  );
+
+  const hashes = await getKv().hgetallMany([
+    ...dayPeriods.map((p) => DAY_KEY(workspaceId, p)),
+    ...monthPeriods.map((p) => MONTH_KEY(workspaceId, p)),
+  ]);
+  return {
+    daily: dayPeriods.map((p, i) => toRollup(p, hashes[i], opts.principal)),
+    monthly: monthPeriods.map((p, i) =>
+      toRollup(p, hashes[days + i], opts.principal)
+    ),
+  };
+}
@@ -0,0 +1,145 @@
+// lib/users.ts
+// Local accounts for username/password sign-in, kept in the KV store:
+//
+//   user:<username>   { username, passwordHash, scopes, workspaces, groups, ... }
+//   users             set of usernames
+//
+// AUTH_ADMIN_USERNAME / AUTH_ADMIN_PASSWORD define a bootstrap admin that
+// isn't stored: it has every scope in every workspace and is how the first
+// real accounts and API keys get created.
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { getKv } from "./kv";
+import { ALL_WORKSPACES, SCOPES } from "./auth";
+import type { Principal, Scope } from "./auth";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+export type LocalUser = {
+  username: string;
+  passwordHash: string; // "scrypt:<salt hex>:<hash hex>"
+  scopes: Scope[];
+  workspaces: string[];
+  groups?: string[]; // for document ACLs; missing on accounts from before them
+  createdAt: string; // ISO
+};
+
+export type UserInfo = Omit<LocalUser, "passwordHash">;
+
+const USER_KEY = (username: string) => `user:${username}`;
+const SET_KEY = "users";
+
+export const USERNAME = /^[a-z0-9][a-z0-9._@-]{0,63}$/;
+const KEY_LENGTH = 32;
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [algo, salt, hash] = stored.split(":");
+  if (algo !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+const info = (record: LocalUser): UserInfo => {
+  const copy: Partial<LocalUser> = { ...record };
+  delete copy.passwordHash;
+  return copy as UserInfo;
+};
+
+/** Creates the user, or replaces their password, scopes and workspaces */
+export async function saveUser(opts: {
+  username: string;
+  password: string;
+  scopes: Scope[];
+  workspaces: string[];
+  groups: string[];
+}): Promise<UserInfo> {
+  const kv = getKv();
+  const existing = await kv.get<LocalUser>(USER_KEY(opts.username));
+  const user: LocalUser = {
+    username: opts.username,
+    passwordHash: await hashPassword(opts.password),
+    scopes: opts.scopes,
+    workspaces: opts.workspaces,
+    groups: opts.groups,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+  await kv.set(USER_KEY(user.username), user);
+  await kv.sadd(SET_KEY, user.username);
+  return info(user);
+}
+
+export async function listUsers(): Promise<UserInfo[]> {
+  const kv = getKv();
+  const names = await kv.smembers(SET_KEY);
+  const users = await Promise.all(names.map((n) => kv.get<LocalUser>(USER_KEY(n))));
+  return users
+    .filter((u): u is LocalUser => !!u)
+    .map(info)
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export async function deleteUser(username: string) {
+  const kv = getKv();
+  if (!(await kv.get(USER_KEY(username)))) return false;
+  await kv.del(USER_KEY(username));
+  await kv.srem(SET_KEY, username);
+  return true;
+}
+
+const sameString = (a: string, b: string) => {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+};
+
+// Hashed against when the user doesn't exist, so timing doesn't reveal it
+const DUMMY_HASH = `scrypt:${"0".repeat(32)}:${"0".repeat(KEY_LENGTH * 2)}`;
+
+// Usernames are compared trimmed and lowercased, as the login form sends them
+const normalise = (username: string) => username.trim().toLowerCase();
+
+/** The principal for a username and password, or null if they don't match */
+export async function verifyCredentials(
+  name: string,
+  password: string
+): Promise<Principal | null> {
+  const username = normalise(name);
+  const adminName = normalise(process.env.AUTH_ADMIN_USERNAME || "");
+  const adminPassword = process.env.AUTH_ADMIN_PASSWORD;
+  if (adminName && adminPassword && username === adminName) {
+    if (!sameString(password, adminPassword)) return null;
+    return {
+      type: "user",
+      id: adminName,
+      name: adminName,
+      provider: "local",
+      scopes: [...SCOPES],
+      workspaces: [ALL_WORKSPACES],
+      groups: [],
+    };
+  }
+
+  const user = await getKv().get<LocalUser>(USER_KEY(username));
+  const ok = await verifyPassword(password, user?.passwordHash ?? DUMMY_HASH);
+  if (!user || !ok) return null;
+  return {
+    type: "user",
+    id: user.username,
+    name: user.username,
+    provider: "local",
+    scopes: user.scopes,
+    workspaces: user.workspaces,
+    groups: user.groups ?? [],
+  };
+}
@@ -1,33 +1,28 @@
+import { detectKind, getExtractor, listExtractors } from "./extract";
+import {
+  describeFormat,
+  inflatedZipReason,
+  sniffFormat,
+  zipBombReason,
+  zipEntries,
+} from "./sniff";
+
 // Defines the maximum file size allowed for uploads, set to 10 megabytes (10 MB).
 // Calculation: 10 * 1024 (KB) * 1024 (bytes) = 10,485,760 bytes.
 export const MAX_FILE_BYTES = 10 * 1024 * 1024; // 10MB
+// Files accepted in one upload request
+export const MAX_FILES_PER_UPLOAD = () => Number(process.env.MAX_FILES_PER_UPLOAD) || 20;
 
-// Defines a Set of allowed file extensions for uploaded files.
+// Allowed file extensions and MIME types, generated from the extractor
+// registry in lib/extract.ts: every format an extractor handles can be
+// uploaded. Built on each call so extractors registered later count too.
 // Using a Set ensures O(1) lookup time for efficient validation.
-// Extensions are lowercase to ensure case-insensitive matching.
-export const ALLOWED_EXT = new Set([
-  "pdf", // PDF documents
-  // "png", // PNG images - temporarily disabled (tesseract.js issues)
-  // "jpg", // JPEG images (common variant) - temporarily disabled (tesseract.js issues)
-  // "jpeg", // JPEG images (alternate extension) - temporarily disabled (tesseract.js issues)
-  "svg", // Scalable Vector Graphics
-  "txt", // Plain text files
-  "csv", // Comma-separated values files
-  "docx", // Microsoft Word documents (modern format)
-]);
-
-// Defines a Set of allowed MIME types corresponding to the allowed extensions.
-// MIME types are standard identifiers for file formats, often provided by browsers.
-// Using a Set ensures efficient lookup for validation.
-export const ALLOWED_MIME = new Set([
-  "application/pdf", // Matches .pdf
-  // "image/png", // Matches .png - temporarily disabled (tesseract.js issues)
-  // "image/jpeg", // Matches .jpg or .jpeg - temporarily disabled (tesseract.js issues)
-  "image/svg+xml", // Matches .svg
-  "text/plain", // Matches .txt
-  "text/csv", // Matches .csv
-  "application/vnd.openxmlformats-officedocument.wordprocessingml.document", // Matches .docx
-]);
+// Extensions are lowercase (without the dot) to ensure case-insensitive matching.
+export const allowedExtensions = () =>
+  new Set(listExtractors().flatMap((x) => x.extensions));
+
+export const allowedMimeTypes = () =>
+  new Set(listExtractors().flatMap((x) => x.mimeTypes));
 
 // Extracts the file extension from a filename.
 // @param name - The filename (e.g., 'document.pdf').
@@ -48,10 +43,90 @@ export function fileExt(name: string): string {
 export function isAllowedType(mime: string, name: string): boolean {
   // First, check if the MIME type is in the allowed set (more reliable than extension).
   // If it matches, return true immediately.
-  if (ALLOWED_MIME.has(mime)) return true;
+  // Parameters such as "; charset=utf-8" are ignored.
+  if (allowedMimeTypes().has(mime.split(";")[0].trim().toLowerCase())) return true;
   // If MIME type is not allowed, extract the file extension using fileExt.
   const ext = fileExt(name);
   // Check if the extracted extension is in the allowed set.
   // Returns true if the extension is valid, false otherwise.
-  return ALLOWED_EXT.has(ext);
+  return allowedExtensions().has(ext);
+}
+
+// Why an upload was rejected, as reported in the upload response's `errors`
+export type UploadErrorCode =
+  | "unsupported_type" // neither the MIME type nor the extension is allowed
+  | "file_too_large" // over MAX_FILE_BYTES
+  | "empty_file"
+  | "content_mismatch" // the bytes aren't the format the name/MIME type claims
+  | "invalid_archive" // ZIP-based format without a readable central directory
+  | "zip_bomb" // archive expands past the ZIP_MAX_* limits
+  | "svg_too_large" // over SVG_MAX_BYTES
+  | "svg_entities" // SVG declares XML entities (expansion attacks)
+  | "read_failed"
+  | "store_failed"
+  | "queue_failed"
+  | "quota_exceeded"; // the workspace's document or storage quota is used up
+
+export type UploadRejection = { code: UploadErrorCode; reason: string };
+
+// SVGs are parsed as text in one piece; real-world icons and diagrams are far smaller
+export const SVG_MAX_BYTES = () => Number(process.env.SVG_MAX_BYTES) || 1024 * 1024;
+
+// Checks an upload's bytes against what its extension and MIME type claim.
+// Runs after isAllowedType and the size limit, before anything is stored.
+// @param buf - The file's content.
+// @param mime - The MIME type sent by the client.
+// @param name - The filename.
+// @returns Why the file is rejected, or null if it may be processed.
+export async function validateContent(
+  buf: Buffer,
+  mime: string,
+  name: string
+): Promise<UploadRejection | null> {
+  const extractor = getExtractor(detectKind(mime, name));
+  const format = sniffFormat(buf);
+
+  if (format === "empty") return { code: "empty_file", reason: "File is empty" };
+
+  // Magic bytes: a renamed binary must not be indexed as text
+  if (!extractor.magic.includes(format)) {
+    return {
+      code: "content_mismatch",
+      reason: `Content is ${describeFormat(format)}, not ${extractor.label}`,
+    };
+  }
+
+  // Archives: the central directory's declared sizes first, then what the
+  // entries really inflate to (stopping at the limits)
+  if (format === "zip") {
+    const entries = zipEntries(buf);
+    if (!entries) {
+      return {
+        code: "invalid_archive",
+        reason: `Not a valid ${extractor.label} file (unreadable ZIP archive)`,
+      };
+    }
+    const bomb = zipBombReason(entries) ?? (await inflatedZipReason(buf, entries));
+    if (bomb) return { code: "zip_bomb", reason: bomb };
+  }
+
+  // Format-specific structure (required archive parts, headers)
+  const mismatch = extractor.check?.(buf);
+  if (mismatch) return { code: "content_mismatch", reason: mismatch };
+
+  if (extractor.kind === "svg") {
+    if (buf.length > SVG_MAX_BYTES()) {
+      return {
+        code: "svg_too_large",
+        reason: `SVG too large (> ${Math.round(SVG_MAX_BYTES() / 1024)} KB)`,
+      };
+    }
+    // Entity declarations are how "billion laughs" and external-entity
+    // attacks work; legitimate SVGs don't need them
+    if (/<!ENTITY\b/i.test(buf.toString("utf8"))) {
+      return { code: "svg_entities", reason: "SVG declares XML entities" };
+    }
+  }
+
+  return null;
 }
@@ -0,0 +1,149 @@
+// lib/vectorstore.ts
+// Backend-neutral vector store. Routes talk to this interface; Pinecone and
+// the local in-process store implement it.
+import { createPineconeVectorStore } from "./pinecone";
+import { getLocalVectorStore } from "./localvectors";
+
+export type MetadataValue = string | number | boolean | string[];
+
+// What we attach to every chunk vector
+export type ChunkMetadata = {
+  documentId: string;
+  filename: string;
+  fileType: string;
+  uploadDate: string;
+  chunkIndex: number;
+  content: string;
+  // Structure from the chunking strategy (see ChunkStructure in chunk.ts)
+  headingPath?: string;
+  pageStart?: number;
+  pageEnd?: number;
+  rowStart?: number;
+  rowEnd?: number;
+  ocrConfidence?: number; // 0-100, for text recognised by OCR
+  // The document's ACL as reader tokens (see lib/acl.ts); missing on vectors
+  // from before ACLs, which the whole workspace may read
+  aclReaders?: string[];
+  [key: string]: MetadataValue;
+};
+
+export type VectorRecord = {
+  id: string;
+  values: number[];
+  metadata: ChunkMetadata;
+};
+
+export type VectorMatch = {
+  id: string;
+  score: number;
+  metadata: ChunkMetadata;
+};
+
+// A stored chunk looked up by id (no similarity score)
+export type StoredChunk = {
+  id: string;
+  metadata: ChunkMetadata;
+};
+
+// A small subset of Pinecone's filter language that every backend supports:
+// { field: value } / { field: { $eq: value } } / { field: { $in: [...] } } /
+// { field: { $exists: bool } }, all of which must match, plus
+// { $or: [filter, ...] } where one of the filters must.
+// For list-valued metadata, $eq/$in match when any element matches.
+type Scalar = string | number | boolean;
+export type FilterCondition =
+  | Scalar
+  | { $eq: Scalar }
+  | { $in: Scalar[] }
+  | { $exists: boolean };
+export type VectorFilter = {
+  [field: string]: FilterCondition | VectorFilter[] | undefined;
+  $or?: VectorFilter[];
+};
+
+export type VectorQuery = {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+};
+
+export type VectorDeleteResult = {
+  deleted: number; // ids we asked the backend to delete
+  failures: Array<{ ids: string[]; reason: string }>; // batches that failed
+};
+
+export type VectorUpdateResult = {
+  updated: number; // ids we asked the backend to update
+  failures: Array<{ ids: string[]; reason: string }>;
+};
+
+export type VectorStoreStats = {
+  backend: string;
+  dimension?: number;
+  recordCount: number;
+};
+
+export interface VectorStore {
+  readonly backend: string;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(q: VectorQuery): Promise<VectorMatch[]>;
+  /** Metadata of the given vector ids; ids that don't exist are left out */
+  fetch(ids: string[]): Promise<StoredChunk[]>;
+  /** Removes every vector of a document; failures are reported, not thrown */
+  deleteByDocument(
+    documentId: string,
+    chunkCount?: number
+  ): Promise<VectorDeleteResult>;
+  /** Deletes specific vector ids; failures are reported, not thrown */
+  deleteIds(ids: string[]): Promise<VectorDeleteResult>;
+  /**
+   * Merges `metadata` into existing vectors without re-embedding; ids that
+   * don't exist are skipped. Failures are reported, not thrown.
+   */
+  updateMetadata(
+    ids: string[],
+    metadata: Partial<ChunkMetadata>
+  ): Promise<VectorUpdateResult>;
+  /** Lists vector ids starting with `prefix` */
+  listIds(prefix: string): Promise<string[]>;
+  stats(): Promise<VectorStoreStats>;
+}
+
+/**
+ * Builds the filter used by search and chat: the optional documentId /
+ * fileType filters, and, when `readers` is given, only chunks whose ACL
+ * names one of those reader tokens (or that have no ACL)
+ */
+export function buildFilter(opts: {
+  documentIds?: string[];
+  fileTypes?: string[];
+  readers?: string[];
+}): VectorFilter | undefined {
+  const { documentIds, fileTypes, readers } = opts;
+  if (!documentIds?.length && !fileTypes?.length && !readers) return undefined;
+  const filter: VectorFilter = {};
+  if (documentIds?.length) filter.documentId = { $in: documentIds };
+  if (fileTypes?.length) filter.fileType = { $in: fileTypes };
+  if (readers) {
+    filter.$or = [
+      { aclReaders: { $in: readers } },
+      { aclReaders: { $exists: false } },
+    ];
+  }
+  return filter;
+}
+
+/**
+ * The vectors of one workspace (a Pinecone namespace, or a local store of its
+ * own). Picks the backend from VECTOR_STORE ("pinecone" | "local").
+ * Without it, Pinecone is used when PINECONE_API_KEY is set, else local.
+ */
+export function getVectorStore(workspaceId: string): VectorStore {
+  const backend =
+    process.env.VECTOR_STORE ||
+    (process.env.PINECONE_API_KEY ? "pinecone" : "local");
+
+  if (backend === "pinecone") return createPineconeVectorStore(workspaceId);
+  if (backend === "local") return getLocalVectorStore(workspaceId);
+  throw new Error(`Unknown VECTOR_STORE "${backend}" (use pinecone or local)`);
+}
@@ -0,0 +1,156 @@
+// lib/watchdog.ts
+// Finds documents that stopped moving through the pipeline and re-runs the
+// stage they stalled in. A document counts as stalled when it has sat in a
+// stage longer than that stage's timeout with no job queued or running for it.
+//
+//   STUCK_UPLOADING_MS   (default 2 minutes)
+//   STUCK_EXTRACTING_MS  (default 5 minutes)
+//   STUCK_EMBEDDING_MS   (default 10 minutes)
+//   WATCHDOG_MAX_RETRIES (default 3; then the document is marked error)
+import { getStore, listWorkspaces } from "./store";
+import { activeJobFor, enqueue } from "./jobs";
+import type { JobType } from "./jobs";
+import { hasOriginal } from "./pipeline";
+import type { DocumentRecord, ProcessingStatus, RetryEntry } from "./types";
+
+type WatchedStage = Extract<
+  ProcessingStatus,
+  "uploading" | "extracting" | "embedding"
+>;
+
+const MINUTE = 60 * 1000;
+
+export function stageTimeouts(): Record<WatchedStage, number> {
+  return {
+    uploading: Number(process.env.STUCK_UPLOADING_MS) || 2 * MINUTE,
+    extracting: Number(process.env.STUCK_EXTRACTING_MS) || 5 * MINUTE,
+    embedding: Number(process.env.STUCK_EMBEDDING_MS) || 10 * MINUTE,
+  };
+}
+
+const maxRetries = () => Number(process.env.WATCHDOG_MAX_RETRIES) || 3;
+
+const isWatched = (s: ProcessingStatus): s is WatchedStage =>
+  s === "uploading" || s === "extracting" || s === "embedding";
+
+export type WatchdogResult = {
+  checked: number;
+  requeued: Array<{
+    id: string;
+    workspaceId: string;
+    filename: string;
+    stage: string;
+    job: JobType;
+  }>;
+  gaveUp: Array<{
+    id: string;
+    workspaceId: string;
+    filename: string;
+    stage: string;
+    reason: string;
+  }>;
+};
+
+/**
+ * Which job re-runs a stalled stage. Extraction needs the stored original; if
+ * that is gone but text was already extracted, embedding can still proceed.
+ */
+async function recoveryJob(doc: DocumentRecord): Promise<JobType | null> {
+  if (doc.processingStatus === "embedding") {
+    return doc.extractedContent?.trim() ? "embed" : null;
+  }
+  if (await hasOriginal(doc)) return "extract";
+  return doc.extractedContent?.trim() ? "embed" : null;
+}
+
+/**
+ * Checks every in-flight document once; safe to run concurrently with the
+ * worker. Covers every workspace unless `workspaceId` narrows it to one.
+ */
+export async function runWatchdog(
+  now = Date.now(),
+  workspaceId?: string
+): Promise<WatchdogResult> {
+  const timeouts = stageTimeouts();
+  const workspaces = workspaceId ? [workspaceId] : await listWorkspaces();
+  const docs = (
+    await Promise.all(workspaces.map((ws) => getStore(ws).list()))
+  ).flat();
+  const result: WatchdogResult = { checked: 0, requeued: [], gaveUp: [] };
+
+  for (const doc of docs) {
+    const stage = doc.processingStatus;
+    if (!isWatched(stage)) continue;
+    result.checked++;
+
+    const since = new Date(doc.updatedAt || doc.uploadDate).getTime();
+    if (now - since < timeouts[stage]) continue;
+
+    // A queued/running job (possibly waiting out a backoff) isn't stalled
+    const [extractJob, embedJob] = await Promise.all([
+      activeJobFor("extract", doc.id),
+      activeJobFor("embed", doc.id),
+    ]);
+    if (extractJob || embedJob || (await activeJobFor("reindex", doc.id))) {
+      continue;
+    }
+
+    const history = doc.retryHistory || [];
+    const attempts = history.filter(
+      (h) => h.stage === stage && h.action === "requeued"
+    ).length;
+    const stalledFor = Math.round((now - since) / 1000);
+    const job = await recoveryJob(doc);
+
+    if (!job || attempts >= maxRetries()) {
+      const reason = !job
+        ? `Stalled in ${stage} for ${stalledFor}s and the original file is not available to retry`
+        : `Stalled in ${stage} ${attempts + 1} times; gave up after ${attempts} automatic retries`;
+      const entry: RetryEntry = {
+        at: new Date(now).toISOString(),
+        stage,
+        action: "gave-up",
+        reason,
+      };
+      await getStore(doc.workspaceId).update(doc.id, {
+        processingStatus: "error",
+        errorMessage: reason,
+        retryHistory: [...history, entry],
+      });
+      result.gaveUp.push({
+        id: doc.id,
+        workspaceId: doc.workspaceId,
+        filename: doc.filename,
+        stage,
+        reason,
+      });
+      continue;
+    }
+
+    await enqueue(job, doc);
+    const entry: RetryEntry = {
+      at: new Date(now).toISOString(),
+      stage,
+      action: "requeued",
+      reason: `No progress for ${stalledFor}s; re-running ${job} (retry ${attempts + 1}/${maxRetries()})`,
+    };
+    // Also resets updatedAt, so the stage timeout starts over
+    await getStore(doc.workspaceId).update(doc.id, {
+      retryHistory: [...history, entry],
+    });
+    result.requeued.push({
+      id: doc.id,
+      workspaceId: doc.workspaceId,
+      filename: doc.filename,
+      stage,
+      job,
+    });
+  }
+
+  if (result.requeued.length || result.gaveUp.length) {
+    console.log(
+      `🐶 Watchdog: ${result.requeued.length} requeued, ${result.gaveUp.length} gave up`
+    );
+  }
+  return result;
+}
@@ -0,0 +1,133 @@
+// lib/worker.ts
+// Runs queued jobs. Either in-process (instrumentation.ts starts the loop when
+// JOB_WORKER=inline, the default) or standalone via `npm run worker`.
+import {
+  claimNext,
+  complete,
+  enqueue,
+  fail,
+  jobDocument,
+  startHeartbeat,
+} from "./jobs";
+import type { Job } from "./jobs";
+import { embedById, extractDocument } from "./pipeline";
+import { getStore } from "./store";
+import { runWatchdog } from "./watchdog";
+
+async function handle(job: Job) {
+  const doc = jobDocument(job);
+  switch (job.type) {
+    case "extract":
+      await extractDocument(doc);
+      await enqueue("embed", doc);
+      return;
+    case "embed":
+      await embedById(doc);
+      return;
+    case "reindex":
+      await getStore(doc.workspaceId).update(doc.id, {
+        processingStatus: "embedding",
+      });
+      await embedById(doc);
+      return;
+  }
+}
+
+/** Runs one claimed job and records the outcome */
+export async function runJob(job: Job): Promise<Job> {
+  const stopHeartbeat = startHeartbeat(job);
+  try {
+    await handle(job);
+    stopHeartbeat();
+    await complete(job);
+    return job;
+  } catch (e: unknown) {
+    stopHeartbeat();
+    const saved = await fail(job, e);
+    console.warn(
+      `⚠️ Job ${job.type} for ${job.documentId} failed (attempt ${job.attempts}/${job.maxAttempts}):`,
+      saved.lastError
+    );
+    // Out of retries: surface the failure on the document itself
+    if (saved.status === "dead") {
+      await getStore(jobDocument(job).workspaceId).update(job.documentId, {
+        processingStatus: "error",
+        errorMessage: `${job.type} failed after ${job.attempts} attempt(s): ${saved.lastError}`,
+      });
+    }
+    return saved;
+  }
+}
+
+/**
+ * Runs due jobs one after another until none are left (or `max` ran, or
+ * `stopping` says so between jobs)
+ */
+export async function drainQueue(max = 25, stopping: () => boolean = () => false) {
+  const ran: Array<{
+    id: string;
+    type: string;
+    documentId: string;
+    workspaceId: string;
+    status: string;
+  }> = [];
+  for (let i = 0; i < max && !stopping(); i++) {
+    const job = await claimNext();
+    if (!job) break;
+    const done = await runJob(job);
+    ran.push({
+      id: done.id,
+      type: done.type,
+      documentId: done.documentId,
+      workspaceId: jobDocument(done).workspaceId,
+      status: done.status,
+    });
+  }
+  return ran;
+}
+
+const g = globalThis as typeof globalThis & {
+  __worker?: { stop: () => Promise<void> };
+};
+
+/**
+ * Polls the queue every `pollMs` and runs the stuck-document watchdog every
+ * WATCHDOG_INTERVAL_MS (default 60s). Safe to call more than once; only one
+ * loop runs per process. Returns a function that stops the loop: no new job
+ * is claimed, and it resolves once the running one has finished.
+ */
+export function startWorker(pollMs = Number(process.env.JOB_POLL_MS) || 2000) {
+  if (!g.__worker) {
+    const watchdogEvery = Number(process.env.WATCHDOG_INTERVAL_MS) || 60 * 1000;
+    let lastWatchdog = 0;
+    let stopping = false;
+    let tick: Promise<void> | null = null;
+    const timer = setInterval(() => {
+      if (tick || stopping) return;
+      tick = (async () => {
+        try {
+          if (Date.now() - lastWatchdog >= watchdogEvery) {
+            lastWatchdog = Date.now();
+            await runWatchdog();
+          }
+          await drainQueue(25, () => stopping);
+        } catch (e) {
+          console.error("❌ Worker tick failed:", e);
+        }
+      })().finally(() => {
+        tick = null;
+      });
+    }, pollMs);
+    g.__worker = {
+      async stop() {
+        stopping = true;
+        clearInterval(timer);
+        await tick;
+        g.__worker = undefined;
+      },
+    };
+    console.log(`👷 Job worker polling every ${pollMs}ms`);
+  }
+  const loop = g.__worker;
+  return () => loop.stop();
+}
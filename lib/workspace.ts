@@ -0,0 +1,49 @@
+// lib/workspace.ts
+// Workspaces isolate documents: each one has its own document records, job
+// references, keyword index (KV keys under "ws:<id>:") and vector namespace.
+// The "default" workspace keeps the original unprefixed keys and Pinecone's
+// default namespace, so documents from before workspaces existed live there.
+//
+// middleware.ts resolves the caller's workspace for every /api request (the
+// X-Workspace-Id header, else the "workspace" cookie, else the caller's first
+// workspace, else "default"), checks the caller may use it and passes it on
+// in X-Workspace-Id; routes read it with workspaceOf(req).
+
+export const DEFAULT_WORKSPACE = "default";
+
+export const WORKSPACE_HEADER = "x-workspace-id";
+export const WORKSPACE_COOKIE = "workspace";
+
+// Lowercase letters, digits, "-" and "_"; safe in KV keys, file names and
+// Pinecone namespaces
+const WORKSPACE_ID = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+export class InvalidWorkspaceError extends Error {
+  constructor(id: string) {
+    super(
+      `Invalid workspace "${id}" (1-63 lowercase letters, digits, "-" or "_")`
+    );
+    this.name = "InvalidWorkspaceError";
+  }
+}
+
+/** Validates a workspace id; empty means the default workspace */
+export function parseWorkspaceId(raw: string | null | undefined): string {
+  const id = (raw ?? "").trim();
+  if (!id) return DEFAULT_WORKSPACE;
+  if (!WORKSPACE_ID.test(id)) throw new InvalidWorkspaceError(id);
+  return id;
+}
+
+/** Prefix for a workspace's KV keys ("" for the default workspace) */
+export const workspacePrefix = (workspaceId: string) =>
+  workspaceId === DEFAULT_WORKSPACE ? "" : `ws:${workspaceId}:`;
+
+/**
+ * The workspace a request acts in, as resolved by middleware.ts. Throws
+ * InvalidWorkspaceError if the header is malformed (middleware rejects
+ * those with a 400 first).
+ */
+export function workspaceOf(req: Request): string {
+  return parseWorkspaceId(req.headers.get(WORKSPACE_HEADER));
+}
@@ -0,0 +1,137 @@
+// middleware.ts
+// Runs before every API route and page. It:
+//   1. authenticates the caller (lib/auth.ts): an API key, else the session
+//   2. checks the caller has the scope the route needs (requiredAccess)
+//   3. resolves the workspace (lib/workspace.ts) and checks the caller may
+//      use it
+//   4. takes a request from the caller's rate limit bucket (lib/ratelimit.ts)
+//   5. hands the caller and workspace to the route in the X-Auth-Principal and
+//      X-Workspace-Id headers, so no route can end up without them
+// Pages only need a session; without one the browser goes to /login.
+//
+// Runs on Node.js rather than the edge so it can look API keys and rate
+// limit buckets up in the KV store.
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import {
+  PRINCIPAL_HEADER,
+  authenticate,
+  canUseWorkspace,
+  encodePrincipal,
+  hasScope,
+  homeWorkspace,
+  principalToken,
+  requiredAccess,
+} from "./lib/auth";
+import type { Principal } from "./lib/auth";
+import {
+  DEFAULT_WORKSPACE,
+  WORKSPACE_COOKIE,
+  WORKSPACE_HEADER,
+  parseWorkspaceId,
+} from "./lib/workspace";
+import { checkRateLimit, clientIp, rateLimitFor } from "./lib/ratelimit";
+import type { RateLimitResult } from "./lib/ratelimit";
+
+const unauthorised = (error: string) =>
+  NextResponse.json(
+    { error },
+    { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="api"' } }
+  );
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+
+  let principal: Principal | null;
+  try {
+    principal = await authenticate(req);
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : "Authentication failed";
+    return isApi ? unauthorised(error) : NextResponse.json({ error }, { status: 500 });
+  }
+
+  if (!isApi) {
+    if (principal) return NextResponse.next();
+    const login = new URL("/login", req.url);
+    login.searchParams.set("next", pathname + search);
+    return NextResponse.redirect(login);
+  }
+
+  const access = requiredAccess(req.method, pathname);
+  if (access !== "public") {
+    if (!principal) return unauthorised("Authentication required");
+    if (!hasScope(principal, access)) {
+      return NextResponse.json(
+        { error: `This request needs the "${access}" scope` },
+        { status: 403 }
+      );
+    }
+  }
+
+  let workspaceId: string;
+  try {
+    workspaceId = parseWorkspaceId(
+      req.headers.get(WORKSPACE_HEADER) ||
+        req.cookies.get(WORKSPACE_COOKIE)?.value ||
+        (principal && homeWorkspace(principal)) ||
+        DEFAULT_WORKSPACE
+    );
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : "Invalid workspace";
+    return NextResponse.json({ error }, { status: 400 });
+  }
+  if (principal && access !== "public" && !canUseWorkspace(principal, workspaceId)) {
+    return NextResponse.json(
+      { error: `No access to workspace "${workspaceId}"` },
+      { status: 403 }
+    );
+  }
+
+  // Per caller, or per address for anonymous calls (e.g. login attempts;
+  // one shared bucket unless TRUST_PROXY says the address can be believed)
+  let rate: RateLimitResult | null = null;
+  try {
+    const limit = rateLimitFor(req.method, pathname);
+    if (limit) {
+      rate = await checkRateLimit(
+        limit,
+        principal ? principalToken(principal) : `ip:${clientIp(req)}`
+      );
+    }
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : "Rate limit check failed";
+    return NextResponse.json({ error }, { status: 500 });
+  }
+  if (rate && !rate.ok) {
+    return NextResponse.json(
+      { error: `Too many requests (${rate.limit.name} limit); retry in ${rate.retryAfter}s` },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": String(rate.retryAfter),
+          "X-RateLimit-Limit": String(rate.limit.requests),
+          "X-RateLimit-Remaining": "0",
+        },
+      }
+    );
+  }
+
+  // Never trust a principal header the client sent itself
+  const headers = new Headers(req.headers);
+  headers.delete(PRINCIPAL_HEADER);
+  if (principal) headers.set(PRINCIPAL_HEADER, encodePrincipal(principal));
+  headers.set(WORKSPACE_HEADER, workspaceId);
+  const res = NextResponse.next({ request: { headers } });
+  if (rate) {
+    res.headers.set("X-RateLimit-Limit", String(rate.limit.requests));
+    res.headers.set("X-RateLimit-Remaining", String(rate.remaining));
+  }
+  return res;
+}
+
+export const config = {
+  // API routes, and pages other than /login and static files
+  matcher: ["/api/:path*", "/((?!_next/|login|.*\\..*).*)"],
+  runtime: "nodejs",
+};
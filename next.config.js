@@ -4,7 +4,14 @@ const nextConfig = {
     ignoreDuringBuilds: true,
   },
   // External packages for server components - don't bundle heavy parser libs
-  serverExternalPackages: ["tesseract.js", "pdf-parse", "mammoth", "papaparse"],
+  serverExternalPackages: [
+    "tesseract.js",
+    "pdf-parse",
+    "pdfjs-dist",
+    "@napi-rs/canvas",
+    "mammoth",
+    "papaparse",
+  ],
   outputFileTracingRoot: process.cwd(),
   // Webpack configuration to handle pdf-parse issues
   webpack: (config, { isServer }) => {
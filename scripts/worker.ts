@@ -0,0 +1,30 @@
+// scripts/worker.ts
+// Standalone job worker: `npm run worker`. Use with JOB_WORKER=external on the
+// web app and a shared DOCUMENT_STORE (kv, or file on the same machine).
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after env is loaded so backends pick up .env.local settings
+  const { startWorker } = await import("../lib/worker");
+  const stop = startWorker();
+
+  // The running job finishes first; its lease would otherwise hold it back
+  // from other workers for JOB_LEASE_SECONDS. A second signal exits at once.
+  let stopping = false;
+  const shutdown = async () => {
+    if (stopping) {
+      console.log("👋 Stopping job worker now");
+      process.exit(1);
+    }
+    stopping = true;
+    console.log("👋 Stopping job worker after the current job (signal again to force)");
+    await stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main();
@@ -0,0 +1,193 @@
+// tests/localvectors.test.ts
+// The in-process vector store (lib/localvectors.ts): ranking, the filter
+// subset every backend supports, deletes, and the JSON file shared between
+// processes: `npm test`.
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { createLocalVectorStore, matchesFilter } from "../lib/localvectors";
+import { buildFilter } from "../lib/vectorstore";
+import type { ChunkMetadata, VectorRecord } from "../lib/vectorstore";
+import { vectorIdFor } from "../lib/id";
+
+const meta = (
+  documentId: string,
+  chunkIndex: number,
+  extra: Partial<ChunkMetadata> = {}
+): ChunkMetadata => ({
+  documentId,
+  filename: `${documentId}.txt`,
+  fileType: "text/plain",
+  uploadDate: "2026-01-01T00:00:00.000Z",
+  chunkIndex,
+  content: `chunk ${chunkIndex} of ${documentId}`,
+  ...extra,
+});
+
+const record = (
+  documentId: string,
+  chunkIndex: number,
+  values: number[],
+  extra: Partial<ChunkMetadata> = {}
+): VectorRecord => ({
+  id: vectorIdFor(documentId, chunkIndex),
+  values,
+  metadata: meta(documentId, chunkIndex, extra),
+});
+
+// doc_a: a chunk for alice and one for everyone; doc_b: a PDF chunk with no ACL
+const RECORDS = [
+  record("doc_a", 0, [1, 0, 0], { aclReaders: ["user:alice"] }),
+  record("doc_a", 1, [0.8, 0.6, 0], { aclReaders: ["everyone"] }),
+  record("doc_b", 0, [0, 1, 0], { fileType: "application/pdf", pageStart: 2 }),
+];
+
+const ids = (matches: Array<{ id: string }>) => matches.map((m) => m.id);
+
+describe("query", () => {
+  test("ranks by cosine similarity and honours topK", async () => {
+    const store = createLocalVectorStore();
+    await store.upsert(RECORDS);
+
+    const matches = await store.query({ vector: [1, 0, 0], topK: 2 });
+    assert.deepEqual(ids(matches), ["doc_a-0", "doc_a-1"]);
+    assert.equal(matches[0].score, 1);
+    assert.ok(Math.abs(matches[1].score - 0.8) < 1e-9);
+    assert.equal(matches[0].metadata.content, "chunk 0 of doc_a");
+  });
+
+  test("upsert replaces a vector with the same id", async () => {
+    const store = createLocalVectorStore();
+    await store.upsert(RECORDS);
+    await store.upsert([record("doc_b", 0, [1, 0, 0], { content: "rewritten" })]);
+
+    assert.equal((await store.stats()).recordCount, 3);
+    const matches = await store.query({ vector: [1, 0, 0], topK: 3 });
+    assert.equal(matches.find((m) => m.id === "doc_b-0")?.score, 1);
+    assert.deepEqual(
+      (await store.fetch(["doc_b-0", "missing-0"])).map((c) => c.metadata.content),
+      ["rewritten"]
+    );
+  });
+
+  test("filters by documentId, fileType and ACL readers", async () => {
+    const store = createLocalVectorStore();
+    await store.upsert(RECORDS);
+    const query = (filter: Parameters<typeof buildFilter>[0]) =>
+      store.query({ vector: [1, 1, 1], topK: 10, filter: buildFilter(filter) }).then(ids);
+
+    assert.deepEqual((await query({ documentIds: ["doc_b"] })).sort(), ["doc_b-0"]);
+    assert.deepEqual((await query({ fileTypes: ["text/plain"] })).sort(), [
+      "doc_a-0",
+      "doc_a-1",
+    ]);
+    // Chunks with no ACL are readable by everyone in the workspace
+    assert.deepEqual((await query({ readers: ["everyone"] })).sort(), [
+      "doc_a-1",
+      "doc_b-0",
+    ]);
+    assert.deepEqual((await query({ readers: ["everyone", "user:alice"] })).sort(), [
+      "doc_a-0",
+      "doc_a-1",
+      "doc_b-0",
+    ]);
+    assert.deepEqual(
+      await query({ documentIds: ["doc_a"], readers: ["user:bob"] }),
+      []
+    );
+  });
+});
+
+describe("matchesFilter", () => {
+  const m = meta("doc_a", 0, { aclReaders: ["user:alice", "group:ops"] });
+
+  test("plain values and $eq match exactly", () => {
+    assert.equal(matchesFilter(m, { documentId: "doc_a" }), true);
+    assert.equal(matchesFilter(m, { documentId: { $eq: "doc_b" } }), false);
+    assert.equal(matchesFilter(m, { chunkIndex: 0 }), true);
+  });
+
+  test("$in and list-valued metadata match on any element", () => {
+    assert.equal(matchesFilter(m, { aclReaders: "group:ops" }), true);
+    assert.equal(matchesFilter(m, { aclReaders: { $in: ["user:bob", "user:alice"] } }), true);
+    assert.equal(matchesFilter(m, { aclReaders: { $in: ["user:bob"] } }), false);
+  });
+
+  test("$exists, $or, and every condition must hold", () => {
+    assert.equal(matchesFilter(m, { pageStart: { $exists: false } }), true);
+    assert.equal(matchesFilter(m, { aclReaders: { $exists: false } }), false);
+    assert.equal(
+      matchesFilter(m, { $or: [{ documentId: "doc_b" }, { chunkIndex: 0 }] }),
+      true
+    );
+    assert.equal(matchesFilter(m, { documentId: "doc_a", chunkIndex: 1 }), false);
+    assert.equal(matchesFilter(m, { documentId: undefined }), true);
+    assert.equal(matchesFilter(m), true);
+  });
+});
+
+describe("deletes and metadata updates", () => {
+  test("deleteByDocument removes every chunk of that document only", async () => {
+    const store = createLocalVectorStore();
+    // Chunk 0 of a document called "doc_a-1" is not a chunk of "doc_a"
+    await store.upsert([...RECORDS, record("doc_a-1", 0, [0, 0, 1])]);
+
+    assert.deepEqual(await store.deleteByDocument("doc_a"), { deleted: 2, failures: [] });
+    assert.deepEqual((await store.listIds("doc_")).sort(), ["doc_a-1-0", "doc_b-0"]);
+  });
+
+  test("deleteIds counts only the ids that existed", async () => {
+    const store = createLocalVectorStore();
+    await store.upsert(RECORDS);
+
+    assert.deepEqual(await store.deleteIds(["doc_a-1", "doc_c-0"]), {
+      deleted: 1,
+      failures: [],
+    });
+    assert.deepEqual(ids(await store.fetch(RECORDS.map((r) => r.id))), ["doc_a-0", "doc_b-0"]);
+  });
+
+  test("updateMetadata merges into existing vectors and skips missing ones", async () => {
+    const store = createLocalVectorStore();
+    await store.upsert(RECORDS);
+
+    const res = await store.updateMetadata(["doc_a-0", "doc_c-0"], {
+      aclReaders: ["everyone"],
+    });
+    assert.deepEqual(res, { updated: 1, failures: [] });
+    const [chunk] = await store.fetch(["doc_a-0"]);
+    assert.deepEqual(chunk.metadata.aclReaders, ["everyone"]);
+    assert.equal(chunk.metadata.content, "chunk 0 of doc_a");
+  });
+});
+
+describe("file persistence", () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "localvectors-"));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("a new store reads what an earlier one saved", async () => {
+    const file = path.join(dir, "saved.json");
+    await createLocalVectorStore(file).upsert(RECORDS);
+
+    const reopened = createLocalVectorStore(file);
+    assert.equal((await reopened.stats()).recordCount, 3);
+    assert.equal((await reopened.stats()).dimension, 3);
+  });
+
+  test("stores sharing a file see and keep each other's writes", async () => {
+    const file = path.join(dir, "shared.json");
+    const web = createLocalVectorStore(file);
+    const worker = createLocalVectorStore(file);
+
+    await web.upsert([RECORDS[0]]);
+    await worker.upsert([RECORDS[2]]);
+    await web.deleteIds(["doc_b-0"]);
+    await worker.upsert([RECORDS[1]]);
+
+    for (const store of [web, worker, createLocalVectorStore(file)]) {
+      assert.deepEqual((await store.listIds("doc_")).sort(), ["doc_a-0", "doc_a-1"]);
+    }
+  });
+});
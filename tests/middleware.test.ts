@@ -0,0 +1,264 @@
+// tests/middleware.test.ts
+// Authentication and scope checks for every API route, run through
+// middleware.ts the way Next.js calls it: `npm test`.
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { NextRequest } from "next/server";
+import { middleware } from "../middleware";
+import {
+  PRINCIPAL_HEADER,
+  SESSION_COOKIE,
+  createSession,
+  requiredAccess,
+  sign,
+} from "../lib/auth";
+import type { Access, Principal, Scope } from "../lib/auth";
+import { createApiKey } from "../lib/apikeys";
+
+// Read lazily by lib/kv.ts, lib/auth.ts and lib/ratelimit.ts, so setting
+// them before the first request is enough
+process.env.DOCUMENT_STORE = "memory";
+process.env.AUTH_SECRET = "test-secret";
+process.env.RATE_LIMITS = "off";
+
+// What each route and method needs. Every route under app/api must be listed
+// (see "every route is listed" below), so a new route can't ship untested.
+const ROUTES: Array<{ method: string; path: string; access: Access }> = [
+  { method: "POST", path: "/api/auth/login", access: "public" },
+  { method: "POST", path: "/api/auth/logout", access: "public" },
+  { method: "GET", path: "/api/auth/session", access: "public" },
+  { method: "GET", path: "/api/auth/sso/login", access: "public" },
+  { method: "GET", path: "/api/auth/sso/callback", access: "public" },
+  { method: "GET", path: "/api/health", access: "public" },
+
+  { method: "GET", path: "/api/documents", access: "read" },
+  { method: "GET", path: "/api/documents/doc1", access: "read" },
+  { method: "GET", path: "/api/documents/doc1/file", access: "read" },
+  { method: "POST", path: "/api/search", access: "read" },
+  { method: "POST", path: "/api/chat", access: "read" },
+  { method: "GET", path: "/api/jobs", access: "read" },
+  { method: "GET", path: "/api/vectors/reconcile", access: "read" },
+  { method: "GET", path: "/api/usage", access: "read" },
+
+  { method: "POST", path: "/api/upload", access: "write" },
+  { method: "PATCH", path: "/api/documents/doc1", access: "write" },
+  { method: "DELETE", path: "/api/documents/doc1", access: "write" },
+  { method: "POST", path: "/api/documents/doc1/reprocess", access: "write" },
+  { method: "POST", path: "/api/embedding/create", access: "write" },
+  { method: "POST", path: "/api/jobs/job1/retry", access: "write" },
+
+  { method: "POST", path: "/api/documents/reprocess", access: "admin" },
+  { method: "GET", path: "/api/auth/keys", access: "admin" },
+  { method: "POST", path: "/api/auth/keys", access: "admin" },
+  { method: "DELETE", path: "/api/auth/keys/key1", access: "admin" },
+  { method: "GET", path: "/api/auth/users", access: "admin" },
+  { method: "POST", path: "/api/auth/users", access: "admin" },
+  { method: "DELETE", path: "/api/auth/users/bob", access: "admin" },
+  { method: "POST", path: "/api/fix-stuck", access: "admin" },
+  { method: "POST", path: "/api/jobs/run", access: "admin" },
+  { method: "POST", path: "/api/vectors/reconcile", access: "admin" },
+];
+
+const BASE = "http://localhost";
+
+const user = (scopes: Scope[]): Principal => ({
+  type: "user",
+  id: `user-${scopes.join("-")}`,
+  name: "Test user",
+  provider: "local",
+  scopes,
+  workspaces: ["default"],
+  groups: [],
+});
+
+const call = (method: string, pathname: string, headers: Record<string, string> = {}) =>
+  middleware(new NextRequest(`${BASE}${pathname}`, { method, headers }));
+
+const sessionCookie = (token: string) => ({ cookie: `${SESSION_COOKIE}=${token}` });
+
+// NextResponse.next() marks a request that goes on to the route
+const passed = (res: Response) => res.headers.get("x-middleware-next") === "1";
+
+// The principal middleware hands to the route
+const forwarded = (res: Response): Principal | null => {
+  const header = res.headers.get(`x-middleware-request-${PRINCIPAL_HEADER}`);
+  return header ? JSON.parse(Buffer.from(header, "base64url").toString()) : null;
+};
+
+// app/api/**/route.ts → [method, path] with dynamic segments filled in
+function apiRoutes(dir = path.join(__dirname, "..", "app", "api"), prefix = "/api") {
+  const found: Array<[string, string]> = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const segment = entry.name.replace(/^\[.+\]$/, "x");
+      found.push(...apiRoutes(full, `${prefix}/${segment}`));
+    } else if (entry.name === "route.ts") {
+      const source = readFileSync(full, "utf8");
+      for (const [, method] of source.matchAll(/export async function (GET|POST|PUT|PATCH|DELETE)\b/g)) {
+        found.push([method, prefix]);
+      }
+    }
+  }
+  return found;
+}
+
+const template = (p: string) => p.replace(/\/(doc1|job1|key1|bob)(?=\/|$)/, "/x");
+
+describe("route policy", () => {
+  test("every route is listed", () => {
+    const listed = new Set(ROUTES.map((r) => `${r.method} ${template(r.path)}`));
+    const routes = apiRoutes();
+    assert.ok(routes.length > 0);
+    for (const [method, route] of routes) {
+      assert.ok(listed.has(`${method} ${route}`), `${method} ${route} is missing from ROUTES`);
+    }
+  });
+
+  for (const r of ROUTES) {
+    test(`${r.method} ${r.path} needs ${r.access}`, () => {
+      assert.equal(requiredAccess(r.method, r.path), r.access);
+    });
+  }
+
+  test("unknown routes default to admin", () => {
+    assert.equal(requiredAccess("GET", "/api/nope"), "admin");
+    assert.equal(requiredAccess("POST", "/api/health"), "admin");
+    assert.equal(requiredAccess("GET", "/api/documents/doc1/file/extra"), "admin");
+  });
+});
+
+describe("no credentials", () => {
+  for (const r of ROUTES) {
+    const expected = r.access === "public" ? "passes" : "401";
+    test(`${r.method} ${r.path} → ${expected}`, async () => {
+      const res = await call(r.method, r.path);
+      if (r.access === "public") {
+        assert.ok(passed(res));
+        assert.equal(forwarded(res), null);
+      } else {
+        assert.equal(res.status, 401);
+        assert.match(res.headers.get("www-authenticate") ?? "", /^Bearer/);
+      }
+    });
+  }
+
+  test("unknown route → 401", async () => {
+    assert.equal((await call("GET", "/api/nope")).status, 401);
+  });
+});
+
+describe("session cookie", () => {
+  const ranks: Scope[] = ["read", "write", "admin"];
+
+  for (const scope of ranks) {
+    describe(`${scope} user`, () => {
+      const cookie = sessionCookie(createSession(user([scope])));
+      for (const r of ROUTES.filter((r) => r.access !== "public")) {
+        const allowed = ranks.indexOf(scope) >= ranks.indexOf(r.access as Scope);
+        test(`${r.method} ${r.path} → ${allowed ? "passes" : "403"}`, async () => {
+          const res = await call(r.method, r.path, cookie);
+          if (allowed) {
+            assert.ok(passed(res));
+            assert.equal(forwarded(res)?.id, `user-${scope}`);
+          } else {
+            assert.equal(res.status, 403);
+          }
+        });
+      }
+    });
+  }
+
+  test("non-admin on an unknown route → 403", async () => {
+    const res = await call("GET", "/api/nope", sessionCookie(createSession(user(["write"]))));
+    assert.equal(res.status, 403);
+  });
+
+  test("admin on an unknown route passes", async () => {
+    const res = await call("GET", "/api/nope", sessionCookie(createSession(user(["admin"]))));
+    assert.ok(passed(res));
+  });
+
+  test("tampered session → 401", async () => {
+    const [payload, sig] = createSession(user(["read"])).split(".");
+    // Same signature over a payload claiming admin
+    const forged = Buffer.from(
+      JSON.stringify({ v: user(["admin"]), exp: Date.now() + 60_000 })
+    ).toString("base64url");
+    for (const token of [`${forged}.${sig}`, `${payload}.${sig.slice(0, -2)}xx`, payload]) {
+      const res = await call("GET", "/api/documents", sessionCookie(token));
+      assert.equal(res.status, 401);
+    }
+  });
+
+  test("expired session → 401", async () => {
+    const res = await call("GET", "/api/documents", sessionCookie(sign(user(["admin"]), -1)));
+    assert.equal(res.status, 401);
+  });
+
+  test("a client-sent principal header is dropped", async () => {
+    const res = await call("GET", "/api/health", {
+      [PRINCIPAL_HEADER]: Buffer.from(JSON.stringify(user(["admin"]))).toString("base64url"),
+    });
+    assert.ok(passed(res));
+    assert.equal(forwarded(res), null);
+  });
+});
+
+describe("API key", () => {
+  const keys: Partial<Record<Scope, string>> = {};
+
+  before(async () => {
+    for (const scope of ["read", "write", "admin"] as Scope[]) {
+      const { key } = await createApiKey({
+        name: `${scope} key`,
+        workspaceId: "default",
+        scopes: [scope],
+        groups: [],
+        createdBy: "test",
+      });
+      keys[scope] = key;
+    }
+  });
+
+  test("read key passes on read routes", async () => {
+    for (const r of ROUTES.filter((r) => r.access === "read")) {
+      const res = await call(r.method, r.path, { authorization: `Bearer ${keys.read}` });
+      assert.ok(passed(res), `${r.method} ${r.path}`);
+      assert.equal(forwarded(res)?.type, "apiKey");
+    }
+  });
+
+  test("read key on write routes → 403", async () => {
+    for (const r of ROUTES.filter((r) => r.access === "write")) {
+      const res = await call(r.method, r.path, { authorization: `Bearer ${keys.read}` });
+      assert.equal(res.status, 403, `${r.method} ${r.path}`);
+    }
+  });
+
+  test("write key on admin routes → 403", async () => {
+    for (const r of ROUTES.filter((r) => r.access === "admin")) {
+      const res = await call(r.method, r.path, { "x-api-key": keys.write });
+      assert.equal(res.status, 403, `${r.method} ${r.path}`);
+    }
+  });
+
+  test("admin key passes on admin routes", async () => {
+    for (const r of ROUTES.filter((r) => r.access === "admin")) {
+      const res = await call(r.method, r.path, { "x-api-key": keys.admin });
+      assert.ok(passed(res), `${r.method} ${r.path}`);
+    }
+  });
+
+  test("unknown or malformed key → 401, even with a valid session", async () => {
+    const { cookie } = sessionCookie(createSession(user(["admin"])));
+    // "rag_<16 hex>_" and a secret that was never issued
+    const bogus = `${keys.read.slice(0, 21)}${"A".repeat(43)}`;
+    for (const key of [bogus, "not-a-key"]) {
+      const res = await call("GET", "/api/documents", { authorization: `Bearer ${key}`, cookie });
+      assert.equal(res.status, 401);
+    }
+  });
+});
@@ -0,0 +1,217 @@
+// tests/pipeline.test.ts
+// Upload to answer without the network: documents go through /api/upload,
+// the job worker extracts, chunks and embeds them (hash embedder, local
+// vector store), and /api/chat answers from them with the canned chat
+// provider, citing its sources: `npm test`.
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { POST as upload } from "../app/api/upload/route";
+import { POST as chat } from "../app/api/chat/route";
+import { drainQueue } from "../lib/worker";
+import { retrieve } from "../lib/retrieve";
+import { getStore } from "../lib/store";
+import { getVectorStore } from "../lib/vectorstore";
+import { PRINCIPAL_HEADER, encodePrincipal } from "../lib/auth";
+import type { Principal } from "../lib/auth";
+import { DEFAULT_WORKSPACE } from "../lib/workspace";
+import type { DocumentRecord } from "../lib/types";
+
+// All read lazily, so setting them before the first request is enough
+const dir = mkdtempSync(path.join(tmpdir(), "pipeline-"));
+process.env.DOCUMENT_STORE = "memory";
+process.env.VECTOR_STORE = "local";
+process.env.BLOB_STORE = "local";
+process.env.BLOB_DIR = dir;
+process.env.EMBEDDING_PROVIDER = "hash";
+process.env.EMBEDDING_DIMENSIONS = "256";
+process.env.CHAT_PROVIDER = "canned";
+process.env.RERANKER = "none";
+// Jobs are run below with drainQueue(), not after the upload response
+process.env.JOB_WORKER = "external";
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const alice: Principal = {
+  type: "user",
+  id: "alice",
+  name: "Alice",
+  provider: "local",
+  scopes: ["read", "write"],
+  workspaces: [DEFAULT_WORKSPACE],
+  groups: [],
+};
+
+const FILES: Record<string, string> = {
+  "holidays.txt": [
+    "Staff get 25 days of paid holiday a year. Unused holiday carries over until March.",
+    "",
+    "Holiday requests go to your line manager at least two weeks ahead.",
+  ].join("\n"),
+  "backups.txt": [
+    "The production database is backed up every night at 02:00 UTC. Backups are kept for a month.",
+    "",
+    "Restores are tested on the first Monday of each quarter.",
+  ].join("\n"),
+};
+
+// What middleware.ts would pass on for Alice
+const asAlice = (init: RequestInit = {}): RequestInit => ({
+  ...init,
+  headers: { ...init.headers, [PRINCIPAL_HEADER]: encodePrincipal(alice) },
+});
+
+async function ask(question: string, extra: Record<string, unknown> = {}) {
+  const res = await chat(
+    new Request(
+      "http://localhost/api/chat",
+      asAlice({
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ question, ...extra }),
+      })
+    )
+  );
+  assert.equal(res.status, 200);
+  return res.json();
+}
+
+const cited = (answer: string) =>
+  [...answer.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1]));
+
+let docs: DocumentRecord[] = [];
+const byName = (filename: string) => docs.find((d) => d.filename === filename)!;
+
+before(async () => {
+  const form = new FormData();
+  for (const [name, text] of Object.entries(FILES)) {
+    form.append("files", new File([text], name, { type: "text/plain" }));
+  }
+  const res = await upload(
+    new Request("http://localhost/api/upload", asAlice({ method: "POST", body: form }))
+  );
+  assert.equal(res.status, 201);
+  const { created } = await res.json();
+  assert.equal(created.length, 2);
+
+  // extract jobs queue the embed jobs; the drain runs both
+  const ran = await drainQueue();
+  assert.deepEqual(
+    ran.map((j) => `${j.type}:${j.status}`).sort(),
+    ["embed:completed", "embed:completed", "extract:completed", "extract:completed"]
+  );
+  docs = await getStore(DEFAULT_WORKSPACE).list();
+});
+
+describe("processing", () => {
+  test("documents end up completed, with their text and chunks", async () => {
+    for (const doc of docs) {
+      assert.equal(doc.processingStatus, "completed");
+      assert.equal(doc.extractedContent, FILES[doc.filename]);
+      assert.equal(doc.chunkCount, 1);
+      assert.equal(doc.embeddingCost?.model, "hash-256");
+    }
+  });
+
+  test("every chunk is in the vector store with its metadata", async () => {
+    const holidays = byName("holidays.txt");
+    const [chunk] = await getVectorStore(DEFAULT_WORKSPACE).fetch([`${holidays.id}-0`]);
+    assert.equal(chunk.metadata.documentId, holidays.id);
+    assert.equal(chunk.metadata.filename, "holidays.txt");
+    assert.equal(chunk.metadata.content, FILES["holidays.txt"]);
+    // Shared with the workspace by default: everyone, and Alice as owner
+    assert.deepEqual(chunk.metadata.aclReaders, ["*", "user:alice"]);
+  });
+});
+
+describe("retrieval", () => {
+  for (const mode of ["vector", "keyword", "hybrid"] as const) {
+    test(`${mode} search ranks the document that answers first`, async () => {
+      const hits = await retrieve({
+        workspaceId: DEFAULT_WORKSPACE,
+        query: "when is the database backed up",
+        topK: 2,
+        mode,
+      });
+      assert.equal(hits[0]?.metadata.filename, "backups.txt");
+    });
+  }
+
+  test("chunks the reader tokens don't cover are filtered out", async () => {
+    const hits = await retrieve({
+      workspaceId: DEFAULT_WORKSPACE,
+      query: "paid holiday",
+      topK: 5,
+      readers: ["group:ops"],
+    });
+    assert.deepEqual(hits, []);
+  });
+});
+
+describe("chat", () => {
+  test("answers from the document and cites it", async () => {
+    const body = await ask("How many days of paid holiday do staff get?");
+
+    assert.equal(body.answer, "Staff get 25 days of paid holiday a year. [1]");
+    const [source] = body.sources;
+    assert.equal(source.idx, 1);
+    assert.equal(source.documentId, byName("holidays.txt").id);
+    assert.equal(source.filename, "holidays.txt");
+    assert.equal(source.chunkIndex, 0);
+    assert.match(source.snippet, /paid holiday/);
+  });
+
+  test("every citation in the answer is a returned source", async () => {
+    const body = await ask("How long are database backups kept?");
+    const sources = new Map(body.sources.map((s: { idx: number }) => [s.idx, s]));
+
+    assert.ok(cited(body.answer).length);
+    for (const n of cited(body.answer)) assert.ok(sources.has(n), `[${n}] has no source`);
+    assert.equal(body.sources[0].filename, "backups.txt");
+  });
+
+  test("documentIds limits the sources to those documents", async () => {
+    const holidays = byName("holidays.txt");
+    const body = await ask("How long are database backups kept?", {
+      documentIds: [holidays.id],
+    });
+    for (const s of body.sources) assert.equal(s.documentId, holidays.id);
+    assert.doesNotMatch(body.answer, /02:00/);
+  });
+
+  test("streams the same sources and answer as Server-Sent Events", async () => {
+    const res = await chat(
+      new Request(
+        "http://localhost/api/chat",
+        asAlice({
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({
+            question: "How many days of paid holiday do staff get?",
+            stream: true,
+          }),
+        })
+      )
+    );
+    assert.match(res.headers.get("content-type") ?? "", /^text\/event-stream/);
+
+    const events = (await res.text())
+      .split("\n\n")
+      .filter(Boolean)
+      .map((block) => {
+        const [, event] = block.match(/^event: (.*)$/m) ?? [];
+        const [, data] = block.match(/^data: (.*)$/m) ?? [];
+        return { event, data: JSON.parse(data) };
+      });
+    assert.equal(events[0].event, "sources");
+    assert.equal(events[0].data.sources[0].filename, "holidays.txt");
+    assert.equal(events.at(-1)?.event, "done");
+    const answer = events
+      .filter((e) => e.event === "delta")
+      .map((e) => e.data.content)
+      .join("");
+    assert.equal(answer, "Staff get 25 days of paid holiday a year. [1]");
+  });
+});
@@ -0,0 +1,169 @@
+// tests/store.test.ts
+// DocumentStore (lib/store.ts) on the memory and JSON-file KV backends:
+// records round-trip, per-workspace isolation, the content-hash index, usage
+// counters, and updates that race a delete: `npm test`.
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { createLocalKv } from "../lib/kv";
+import type { KvClient } from "../lib/kv";
+import { createDocumentStore } from "../lib/store";
+import type { DocumentRecord } from "../lib/types";
+
+const dir = mkdtempSync(path.join(tmpdir(), "store-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+const BACKENDS: Array<{ name: string; kv: () => KvClient }> = [
+  { name: "memory", kv: () => createLocalKv() },
+  { name: "file", kv: () => createLocalKv(path.join(dir, `store${++files}.json`)) },
+];
+
+const doc = (id: string, extra: Partial<DocumentRecord> = {}): DocumentRecord => ({
+  id,
+  workspaceId: "default",
+  filename: `${id}.txt`,
+  fileType: "text/plain",
+  fileSize: 100,
+  uploadDate: "2026-01-01T00:00:00.000Z",
+  processingStatus: "uploading",
+  ...extra,
+});
+
+for (const backend of BACKENDS) {
+  describe(`${backend.name} backend`, () => {
+    test("add, get and list round-trip a record", async () => {
+      const store = createDocumentStore(backend.kv());
+      await store.add(
+        doc("doc_1", {
+          chunkCount: 3,
+          contentHash: "abc",
+          metadata: JSON.stringify({ pages: 2 }),
+          acl: { owner: "user:alice", groups: ["ops"] },
+          retryHistory: [
+            {
+              at: "2026-01-02T00:00:00.000Z",
+              stage: "extracting",
+              action: "requeued",
+              reason: "stuck",
+            },
+          ],
+        })
+      );
+      await store.add(doc("doc_2"));
+
+      const got = await store.get("doc_1");
+      assert.equal(got?.fileSize, 100);
+      assert.equal(got?.chunkCount, 3);
+      assert.deepEqual(JSON.parse(got?.metadata ?? ""), { pages: 2 });
+      assert.deepEqual(got?.acl, { owner: "user:alice", groups: ["ops"] });
+      assert.equal(got?.retryHistory?.[0].reason, "stuck");
+      assert.ok(got?.updatedAt);
+      assert.equal(await store.get("doc_missing"), undefined);
+      assert.deepEqual((await store.list()).map((d) => d.id).sort(), ["doc_1", "doc_2"]);
+    });
+
+    test("workspaces don't see each other's documents", async () => {
+      const kv = backend.kv();
+      const team = createDocumentStore(kv, "team");
+      await team.add(doc("doc_1", { workspaceId: "team" }));
+
+      assert.equal(await createDocumentStore(kv).get("doc_1"), undefined);
+      assert.deepEqual(await createDocumentStore(kv).list(), []);
+      assert.equal((await team.get("doc_1"))?.workspaceId, "team");
+      await assert.rejects(team.add(doc("doc_2")), /belongs to workspace default/);
+    });
+
+    test("update merges the patch and drops cleared fields", async () => {
+      const store = createDocumentStore(backend.kv());
+      await store.add(doc("doc_1", { errorMessage: "boom", processingStatus: "error" }));
+
+      const next = await store.update("doc_1", {
+        processingStatus: "completed",
+        chunkCount: 4,
+        errorMessage: undefined,
+        workspaceId: "elsewhere",
+      });
+      assert.equal(next?.processingStatus, "completed");
+      assert.equal(next?.workspaceId, "default");
+
+      const got = await store.get("doc_1");
+      assert.equal(got?.processingStatus, "completed");
+      assert.equal(got?.chunkCount, 4);
+      assert.equal(got?.errorMessage, undefined);
+      assert.equal(got?.filename, "doc_1.txt");
+    });
+
+    test("update of a missing document writes nothing", async () => {
+      const store = createDocumentStore(backend.kv());
+      assert.equal(await store.update("doc_1", { processingStatus: "completed" }), undefined);
+      assert.equal(await store.get("doc_1"), undefined);
+    });
+
+    test("an update racing a delete doesn't bring the document back", async () => {
+      const store = createDocumentStore(backend.kv());
+      await store.add(doc("doc_1"));
+      // The DELETE lands after update has read the record, before it writes
+      const get = store.get.bind(store);
+      let raced = false;
+      store.get = async (id) => {
+        const r = await get(id);
+        if (!raced) {
+          raced = true;
+          await store.delete(id);
+        }
+        return r;
+      };
+
+      assert.equal(await store.update("doc_1", { processingStatus: "completed" }), undefined);
+      assert.equal(await get("doc_1"), undefined);
+      assert.deepEqual(await store.list(), []);
+    });
+
+    test("findByHash follows adds, hash changes and deletes", async () => {
+      const store = createDocumentStore(backend.kv());
+      await store.add(doc("doc_1", { contentHash: "aaa" }));
+      await store.add(doc("doc_2", { contentHash: "aaa" }));
+      const ids = async (hash: string) =>
+        (await store.findByHash(hash)).map((d) => d.id).sort();
+
+      assert.deepEqual(await ids("aaa"), ["doc_1", "doc_2"]);
+      await store.update("doc_2", { contentHash: "bbb" });
+      assert.deepEqual(await ids("aaa"), ["doc_1"]);
+      assert.deepEqual(await ids("bbb"), ["doc_2"]);
+      await store.delete("doc_1");
+      assert.deepEqual(await ids("aaa"), []);
+    });
+
+    test("usage is rebuilt when missing, then kept up to date", async () => {
+      const store = createDocumentStore(backend.kv());
+      await store.add(doc("doc_1", { fileSize: 100 }));
+      await store.add(doc("doc_2", { fileSize: 50 }));
+
+      assert.deepEqual(await store.usage(), { documents: 2, bytes: 150 });
+      await store.add(doc("doc_3", { fileSize: 25 }));
+      await store.delete("doc_1");
+      await store.delete("doc_1"); // already gone: no double count
+      assert.deepEqual(await store.usage(), { documents: 2, bytes: 75 });
+    });
+  });
+}
+
+describe("file backend", () => {
+  test("stores sharing a file see each other's writes", async () => {
+    const file = path.join(dir, "shared.json");
+    const web = createDocumentStore(createLocalKv(file));
+    const worker = createDocumentStore(createLocalKv(file));
+
+    await web.add(doc("doc_1"));
+    await worker.update("doc_1", { processingStatus: "completed", chunkCount: 2 });
+    await worker.add(doc("doc_2"));
+
+    const got = await web.get("doc_1");
+    assert.equal(got?.processingStatus, "completed");
+    assert.equal(got?.chunkCount, 2);
+    assert.deepEqual((await web.list()).map((d) => d.id).sort(), ["doc_1", "doc_2"]);
+  });
+});